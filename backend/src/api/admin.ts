@@ -0,0 +1,72 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { scanDownloads, reconcileDownloads } from "../services/downloadReconciliation";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Reconcile");
+
+const router = Router();
+
+/**
+ * Если задан ADMIN_TOKEN, административные маршруты требуют заголовок X-Admin-Token
+ */
+router.use((req: Request, res: Response, next: NextFunction) => {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (adminToken && req.get("X-Admin-Token") !== adminToken) {
+    return res.status(401).json({ error: "UNAUTHORIZED", message: "Неверный или отсутствующий X-Admin-Token" });
+  }
+  next();
+});
+
+/**
+ * GET /api/admin/reconciliation
+ * Отчёт о расхождениях между DOWNLOAD_DIR и videoJobs: файлы-сироты и задачи без файлов.
+ * Ничего не изменяет.
+ */
+router.get("/reconciliation", async (req: Request, res: Response) => {
+  try {
+    const report = await scanDownloads();
+    res.json(report);
+  } catch (error: any) {
+    log.error("Error scanning downloads", { error });
+    res.status(500).json({
+      error: "Ошибка сверки файлов",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * POST /api/admin/reconciliation
+ * Повторяет сверку и применяет подтверждённые действия.
+ * Body: { deleteOrphans?, adoptOrphans?, markBrokenJobs? } - хотя бы одно действие; deleteOrphans и adoptOrphans взаимоисключающие
+ */
+router.post("/reconciliation", async (req: Request, res: Response) => {
+  try {
+    const { deleteOrphans, adoptOrphans, markBrokenJobs } = req.body || {};
+    const actions = {
+      deleteOrphans: deleteOrphans === true,
+      adoptOrphans: adoptOrphans === true,
+      markBrokenJobs: markBrokenJobs === true,
+    };
+
+    if (!actions.deleteOrphans && !actions.adoptOrphans && !actions.markBrokenJobs) {
+      return res.status(400).json({
+        error: "Укажите хотя бы одно действие: deleteOrphans, adoptOrphans или markBrokenJobs",
+      });
+    }
+    if (actions.deleteOrphans && actions.adoptOrphans) {
+      return res.status(400).json({ error: "deleteOrphans и adoptOrphans нельзя использовать вместе" });
+    }
+
+    const result = await reconcileDownloads(actions);
+    res.json(result);
+  } catch (error: any) {
+    log.error("Error reconciling downloads", { error });
+    res.status(500).json({
+      error: "Ошибка сверки файлов",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+export default router;
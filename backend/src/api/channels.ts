@@ -6,7 +6,12 @@ import {
   updateChannel,
   deleteChannel,
   Channel,
+  normalizeRetryPolicy,
+  normalizeMaxActiveJobs,
 } from "../models/channel";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Channels");
 
 const router = Router();
 
@@ -17,11 +22,11 @@ router.get("/", async (req: Request, res: Response) => {
     res.json(channels);
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error("[API] Ошибка при получении каналов:", errorMessage);
+    log.error("Ошибка при получении каналов", { error });
     
     // Если это ошибка Firebase, возвращаем более детальное сообщение
     if (errorMessage.includes("Firebase не инициализирован") || errorMessage.includes("FIREBASE_")) {
-      console.error("[API] Firebase credentials отсутствуют или неверны");
+      log.error("Firebase credentials отсутствуют или неверны");
       return res.status(500).json({ 
         error: "Firebase не настроен. Проверьте переменные окружения FIREBASE_* в Cloud Run.",
         details: errorMessage 
@@ -46,6 +51,8 @@ router.post("/", async (req: Request, res: Response) => {
       ideaPromptTemplate,
       videoPromptTemplate,
       gdriveFolderId,
+      retryPolicy,
+      maxActiveJobs,
     } = req.body;
 
     // Валидация обязательных полей
@@ -70,11 +77,13 @@ router.post("/", async (req: Request, res: Response) => {
       ideaPromptTemplate,
       videoPromptTemplate,
       gdriveFolderId: gdriveFolderId || null,
+      retryPolicy: normalizeRetryPolicy(retryPolicy),
+      maxActiveJobs: normalizeMaxActiveJobs(maxActiveJobs),
     });
 
     res.json(channel);
   } catch (error) {
-    console.error("Ошибка при создании канала:", error);
+    log.error("Ошибка при создании канала", { error });
     res.status(500).json({ error: "Ошибка при создании канала" });
   }
 });
@@ -91,6 +100,8 @@ router.put("/:id", async (req: Request, res: Response) => {
       ideaPromptTemplate,
       videoPromptTemplate,
       gdriveFolderId,
+      retryPolicy,
+      maxActiveJobs,
     } = req.body;
 
     // Валидация обязательных полей
@@ -108,6 +119,8 @@ router.put("/:id", async (req: Request, res: Response) => {
       ideaPromptTemplate,
       videoPromptTemplate,
       gdriveFolderId: gdriveFolderId || null,
+      retryPolicy: normalizeRetryPolicy(retryPolicy),
+      maxActiveJobs: normalizeMaxActiveJobs(maxActiveJobs),
     });
 
     if (!updated) {
@@ -116,7 +129,7 @@ router.put("/:id", async (req: Request, res: Response) => {
 
     res.json(updated);
   } catch (error) {
-    console.error("Ошибка при обновлении канала:", error);
+    log.error("Ошибка при обновлении канала", { error });
     res.status(500).json({ error: "Ошибка при обновлении канала" });
   }
 });
@@ -133,7 +146,7 @@ router.delete("/:id", async (req: Request, res: Response) => {
 
     res.json({ success: true });
   } catch (error) {
-    console.error("Ошибка при удалении канала:", error);
+    log.error("Ошибка при удалении канала", { error });
     res.status(500).json({ error: "Ошибка при удалении канала" });
   }
 });
@@ -1,5 +1,8 @@
 import { Router, Request, Response } from "express";
 import { saveFCMToken, deleteFCMToken } from "../firebase/fcmService";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("FCM");
 
 const router = Router();
 
@@ -24,7 +27,7 @@ router.post("/register", async (req: Request, res: Response) => {
       message: "FCM token registered successfully",
     });
   } catch (error: any) {
-    console.error("[FCM API] Error registering token:", error);
+    log.error("Error registering token", { error });
     res.status(500).json({
       error: "Ошибка регистрации FCM токена",
       message: error.message,
@@ -53,7 +56,7 @@ router.post("/unregister", async (req: Request, res: Response) => {
       message: "FCM token unregistered successfully",
     });
   } catch (error: any) {
-    console.error("[FCM API] Error unregistering token:", error);
+    log.error("Error unregistering token", { error });
     res.status(500).json({
       error: "Ошибка удаления FCM токена",
       message: error.message,
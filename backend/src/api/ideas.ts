@@ -1,6 +1,9 @@
 import { Router, Request, Response } from "express";
 import { getChannelById } from "../models/channel";
 import { generateIdeas } from "../services/openaiService";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Ideas");
 
 const router = Router();
 
@@ -30,7 +33,7 @@ router.post("/", async (req: Request, res: Response) => {
 
     res.json({ ideas });
   } catch (error: unknown) {
-    console.error("[API] Ошибка генерации идей:", error);
+    log.error("Ошибка генерации идей", { error });
     const message = error instanceof Error ? error.message : "Ошибка при генерации идей";
     res.status(500).json({ error: message });
   }
@@ -1,6 +1,9 @@
 import { Router, Request, Response } from "express";
 import { getChannelById } from "../models/channel";
 import { generateVeoPrompt } from "../services/openaiService";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Prompts");
 
 const router = Router();
 
@@ -44,7 +47,7 @@ router.post("/", async (req: Request, res: Response) => {
       videoTitle: result.videoTitle,
     });
   } catch (error: unknown) {
-    console.error("[API] Ошибка генерации промпта:", error);
+    log.error("Ошибка генерации промпта", { error });
     const message = error instanceof Error ? error.message : "Ошибка при генерации промпта";
     res.status(500).json({ error: message });
   }
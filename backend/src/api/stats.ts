@@ -0,0 +1,69 @@
+import { Router, Request, Response } from "express";
+import { getPipelineStats, DEFAULT_STATS_DAYS, MAX_STATS_DAYS } from "../services/pipelineMetrics";
+import {
+  getReviewFeedbackReport,
+  DEFAULT_REVIEW_STATS_DAYS,
+  MAX_REVIEW_STATS_DAYS,
+} from "../services/reviewFeedback";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Stats");
+
+const router = Router();
+
+/**
+ * GET /api/stats
+ * Статистика конвейера: длительности этапов (send, wait, download, upload),
+ * доли успехов, таймаутов и отклонений в целом, по каналам и по дням.
+ * Параметры: days (по умолчанию 30, максимум 365), channelId (необязательно)
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const days = req.query.days !== undefined ? parseInt(String(req.query.days), 10) : DEFAULT_STATS_DAYS;
+    if (!Number.isFinite(days) || days < 1 || days > MAX_STATS_DAYS) {
+      return res.status(400).json({
+        error: `days должен быть числом от 1 до ${MAX_STATS_DAYS}`,
+      });
+    }
+
+    const channelId = req.query.channelId ? String(req.query.channelId) : undefined;
+    const stats = await getPipelineStats(days, channelId);
+    res.json(stats);
+  } catch (error: any) {
+    log.error("Error getting pipeline stats", { error });
+    res.status(500).json({
+      error: "Ошибка получения статистики",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * GET /api/stats/reviews
+ * Оценки проверяющих: средний рейтинг, доля отклонений и частые причины отклонения
+ * в целом и по каналам (каналы с наибольшим числом отклонений первыми).
+ * Параметры: days (по умолчанию 30, максимум 365), channelId (необязательно)
+ */
+router.get("/reviews", async (req: Request, res: Response) => {
+  try {
+    const days =
+      req.query.days !== undefined ? parseInt(String(req.query.days), 10) : DEFAULT_REVIEW_STATS_DAYS;
+    if (!Number.isFinite(days) || days < 1 || days > MAX_REVIEW_STATS_DAYS) {
+      return res.status(400).json({
+        error: `days должен быть числом от 1 до ${MAX_REVIEW_STATS_DAYS}`,
+      });
+    }
+
+    const channelId = req.query.channelId ? String(req.query.channelId) : undefined;
+    const report = await getReviewFeedbackReport(days, channelId);
+    res.json(report);
+  } catch (error: any) {
+    log.error("Error getting review stats", { error });
+    res.status(500).json({
+      error: "Ошибка получения статистики оценок",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+export default router;
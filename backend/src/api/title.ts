@@ -1,5 +1,8 @@
 import { Router, Request, Response } from "express";
 import { generateTitle } from "../services/openaiService";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Title");
 
 const router = Router();
 
@@ -9,7 +12,7 @@ const router = Router();
  */
 router.post("/", async (req: Request, res: Response) => {
   try {
-    const { prompt, channelName, language } = req.body;
+    const { prompt, channelId, channelName, language } = req.body;
 
     if (!prompt || typeof prompt !== "string" || prompt.trim().length === 0) {
       return res.status(400).json({ error: "Требуется поле prompt (непустая строка)" });
@@ -22,20 +25,21 @@ router.post("/", async (req: Request, res: Response) => {
       });
     }
 
-    console.log(`[Title] Generating title for prompt (length: ${prompt.length}), channel: ${channelName || "не указан"}, language: ${language || "ru"}`);
+    log.info(`Generating title for prompt (length: ${prompt.length}), channel: ${channelName || "не указан"}, language: ${language || "ru"}`);
 
     try {
       const title = await generateTitle(
         prompt.trim(),
         channelName || undefined,
-        language || "ru"
+        language || "ru",
+        { channelId: typeof channelId === "string" && channelId ? channelId : null }
       );
 
-      console.log(`[Title] Generated title: ${title}`);
+      log.info(`Generated title: ${title}`);
 
       res.json({ title });
     } catch (error: unknown) {
-      console.error("[Title] Error generating title:", error);
+      log.error("Error generating title", { error });
       const message = error instanceof Error ? error.message : "Ошибка при генерации названия";
       res.status(500).json({
         error: "Ошибка при генерации названия",
@@ -43,7 +47,7 @@ router.post("/", async (req: Request, res: Response) => {
       });
     }
   } catch (error: unknown) {
-    console.error("[Title] Unexpected error:", error);
+    log.error("Unexpected error", { error });
     const message = error instanceof Error ? error.message : "Неизвестная ошибка";
     res.status(500).json({
       error: "Внутренняя ошибка сервера",
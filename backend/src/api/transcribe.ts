@@ -2,6 +2,10 @@ import { Router, Request, Response } from "express";
 import multer from "multer";
 import OpenAI from "openai";
 import { FormData, File } from "formdata-node";
+import { trackOpenAIUsage } from "../services/openaiUsage";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Transcribe");
 
 const router = Router();
 
@@ -39,7 +43,8 @@ function getOpenAIClient(): OpenAI {
 
 /**
  * POST /api/transcribe-idea
- * Принимает аудио файл и возвращает транскрипцию через OpenAI Whisper
+ * Принимает аудио файл и возвращает транскрипцию через OpenAI Whisper.
+ * Необязательное поле channelId относит расход на канал.
  */
 router.post("/", upload.single("file"), async (req: Request, res: Response) => {
   try {
@@ -48,11 +53,11 @@ router.post("/", upload.single("file"), async (req: Request, res: Response) => {
     }
 
     const fileSize = req.file.buffer.length;
-    console.log(`[transcribe] received audio, size: ${fileSize} bytes, mimetype: ${req.file.mimetype}`);
+    log.info(`Received audio, size: ${fileSize} bytes, mimetype: ${req.file.mimetype}`);
 
     // Проверяем наличие OpenAI API ключа
     if (!process.env.OPENAI_API_KEY) {
-      console.error("[transcribe] OPENAI_API_KEY not set");
+      log.error("OPENAI_API_KEY not set");
       return res.status(500).json({
         error: "OpenAI API ключ не настроен. Установите OPENAI_API_KEY в .env",
       });
@@ -69,8 +74,8 @@ router.post("/", upload.single("file"), async (req: Request, res: Response) => {
 
     const fileName = req.file.originalname || `audio.${extension}`;
 
-    console.log("[transcribe] Sending to OpenAI Whisper...");
-    console.log(`[transcribe] File name: ${fileName}, size: ${req.file.buffer.length} bytes, type: ${req.file.mimetype}`);
+    log.info("Sending to OpenAI Whisper...");
+    log.info(`File name: ${fileName}, size: ${req.file.buffer.length} bytes, type: ${req.file.mimetype}`);
 
     try {
       // Используем FormData для создания multipart/form-data запроса
@@ -86,7 +91,8 @@ router.post("/", upload.single("file"), async (req: Request, res: Response) => {
       formData.append("file", audioFile);
       formData.append("model", "whisper-1");
       formData.append("language", "ru");
-      formData.append("response_format", "text");
+      // verbose_json возвращает длительность аудио, по которой считается стоимость Whisper
+      formData.append("response_format", "verbose_json");
 
       // Вызываем OpenAI Whisper API напрямую через fetch
       // Это обходной путь для проблемы с сериализацией File в OpenAI SDK
@@ -101,20 +107,25 @@ router.post("/", upload.single("file"), async (req: Request, res: Response) => {
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error("[transcribe] OpenAI API error:", errorText);
+        log.error("OpenAI API error", { status: response.status, responseText: errorText });
         throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
       }
 
-      const transcription = await response.text();
+      const transcription = (await response.json()) as { text?: string; duration?: number };
+      await trackOpenAIUsage(
+        "transcription",
+        "whisper-1",
+        { audioSeconds: transcription.duration || 0 },
+        { channelId: typeof req.body?.channelId === "string" && req.body.channelId ? req.body.channelId : null }
+      );
 
-      // OpenAI возвращает строку напрямую при response_format: "text"
-      const text = transcription.trim();
+      const text = (transcription.text || "").trim();
 
       const textPreview = text.length > 100 ? text.substring(0, 100) + "..." : text;
-      console.log(`[transcribe] transcription result: ${textPreview}`);
+      log.info(`Transcription result: ${textPreview}`);
 
       if (!text || text.trim().length === 0) {
-        console.warn("[transcribe] Empty transcription result");
+        log.warn("Empty transcription result");
         return res.status(400).json({
           error: "Не удалось распознать речь. Попробуйте ещё раз или введите текст вручную.",
         });
@@ -125,7 +136,7 @@ router.post("/", upload.single("file"), async (req: Request, res: Response) => {
       throw error; // Пробрасываем ошибку дальше
     }
   } catch (error: unknown) {
-    console.error("[transcribe] error:", error);
+    log.error("Transcription failed", { error });
     const message = error instanceof Error ? error.message : "Неизвестная ошибка";
     res.status(500).json({
       error: "Ошибка при транскрипции аудио",
@@ -0,0 +1,37 @@
+import { Router, Request, Response } from "express";
+import { getMonthlyUsageReport, getOpenAIPrices } from "../services/openaiUsage";
+import { getUsageMonth } from "../models/openaiUsage";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Usage");
+
+const router = Router();
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * GET /api/usage
+ * Расходы OpenAI за месяц: токены, минуты аудио и стоимость в долларах
+ * итого, по операциям, моделям, каналам и задачам, а также текущая таблица цен.
+ * Параметры: month (YYYY-MM, по умолчанию текущий), channelId (необязательно)
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const month = req.query.month ? String(req.query.month) : getUsageMonth(Date.now());
+    if (!MONTH_PATTERN.test(month)) {
+      return res.status(400).json({ error: "month должен быть в формате YYYY-MM" });
+    }
+
+    const channelId = req.query.channelId ? String(req.query.channelId) : undefined;
+    const report = await getMonthlyUsageReport(month, channelId);
+    res.json({ ...report, prices: getOpenAIPrices() });
+  } catch (error: any) {
+    log.error("Error getting OpenAI usage", { error });
+    res.status(500).json({
+      error: "Ошибка получения расходов OpenAI",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+export default router;
@@ -1,19 +1,48 @@
 import { Router, Request, Response } from "express";
 import * as fs from "fs";
 import * as path from "path";
-import { sendPromptToSyntx } from "../telegram/syntxService";
 import { uploadFileToDrive } from "../googleDrive/driveService";
 import {
   createJob,
   getJob,
   updateJob,
-  deleteJob,
+  InvalidStatusTransitionError,
 } from "../models/videoJob";
+import { getChannelById } from "../models/channel";
+import { dispatchQueuedJobs, getQueuePositions } from "../services/jobDispatcher";
+import { rejectVideoJob, JobReviewError } from "../services/videoJobReview";
 import { getSafeFileName } from "../utils/fileNameSanitizer";
+import { getDriveFallbackUrl } from "../utils/jobFiles";
+import { createLogger, addLogContext } from "../utils/logger";
+
+const log = createLogger("VideoJob");
 
 const router = Router();
 
+// Записи лога маршрутов с :id получают jobId
+router.param("id", (req, res, next, id: string) => {
+  addLogContext({ jobId: id });
+  next();
+});
+
+/**
+ * Передаёт очередь диспетчеру и формирует ответ для только что созданной задачи
+ */
+async function buildQueuedResponse(jobId: string) {
+  await dispatchQueuedJobs();
+  const [job, queuePositions] = await Promise.all([getJob(jobId), getQueuePositions()]);
+  return {
+    jobId,
+    status: job?.status || "queued",
+    queuePosition: queuePositions.get(jobId) || null,
+    previewUrl: `/api/video/preview/${jobId}`,
+    videoTitle: job?.videoTitle,
+  };
+}
+
 // POST /api/video/generate
+// Задача проходит обычный конвейер (очередь -> sending -> waiting_video -> downloading -> ready),
+// статус отслеживается через GET /api/video-jobs
 router.post("/generate", async (req: Request, res: Response) => {
   try {
     const { veoprompt, channelId, ideaText, videoTitle } = req.body;
@@ -22,60 +51,14 @@ router.post("/generate", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "Требуется veoprompt" });
     }
 
-    // Создаём job с videoTitle
-    const job = await createJob(veoprompt, channelId, ideaText, videoTitle);
-    console.log(`[VideoJob] Created job ${job.id}, videoTitle: ${videoTitle || "не указано"}`);
-
-    try {
-      // Формируем безопасное имя файла из videoTitle
-      const safeFileName = videoTitle ? getSafeFileName(videoTitle) : undefined;
-      
-      // Отправляем промпт в Syntx AI с указанием имени файла
-      const syntxResult = await sendPromptToSyntx(veoprompt, safeFileName);
-      const localPath = syntxResult.localPath;
-
-      // Обновляем job
-      const updatedJob = await updateJob(job.id, {
-        status: "ready",
-        localPath,
-      });
-
-      if (!updatedJob) {
-        throw new Error(`Failed to update job ${job.id}`);
-      }
-
-      console.log(`[VideoJob] Job ${job.id} updated with file: ${localPath}`);
-      
-      // Проверяем, что файл существует перед возвратом ответа
-      if (!fs.existsSync(localPath)) {
-        throw new Error(`File does not exist after download: ${localPath}`);
-      }
-
-      const fileStat = fs.statSync(localPath);
-      console.log(`[VideoJob] File verified: ${localPath}, size: ${fileStat.size} bytes`);
-
-      res.json({
-        jobId: job.id,
-        status: "ready",
-        previewUrl: `/api/video/preview/${job.id}`,
-        videoTitle: job.videoTitle,
-      });
-    } catch (error: any) {
-      // Обновляем статус на error
-      await updateJob(job.id, {
-        status: "error",
-      });
+    const channel = channelId ? await getChannelById(channelId) : null;
+    const job = await createJob(veoprompt, channelId, channel?.name, ideaText, videoTitle);
+    addLogContext({ jobId: job.id, channelId });
+    log.info(`Created job ${job.id}, videoTitle: ${videoTitle || "не указано"}`);
 
-      console.error("Ошибка генерации видео:", error);
-      const errorMessage = error?.message || error?.toString() || "Неизвестная ошибка";
-      res.status(500).json({
-        error: "Ошибка при генерации видео",
-        message: errorMessage,
-        details: process.env.NODE_ENV === 'development' ? error?.stack : undefined,
-      });
-    }
+    res.status(202).json(await buildQueuedResponse(job.id));
   } catch (error: any) {
-    console.error("Ошибка:", error);
+    log.error("Ошибка", { error });
     const errorMessage = error?.message || error?.toString() || "Неизвестная ошибка";
     res.status(500).json({ 
       error: "Внутренняя ошибка сервера",
@@ -94,19 +77,25 @@ router.get("/preview/:id", async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Job не найден" });
     }
 
-    if (job.status !== "ready" && job.status !== "uploaded") {
+    if (job.status !== "ready" && job.status !== "uploaded" && job.status !== "upload_failed") {
       return res.status(400).json({
         error: "Видео ещё не готово или было отклонено",
       });
     }
 
+    // Локальная копия удалена по политике хранения - отдаём видео из Google Drive
+    const driveFallbackUrl = getDriveFallbackUrl(job);
+    if (driveFallbackUrl) {
+      return res.redirect(driveFallbackUrl);
+    }
+
     if (!job.localPath) {
-      console.error(`[VideoJob] Job ${id} has no localPath`);
+      log.error(`Job ${id} has no localPath`);
       return res.status(404).json({ error: "Файл видео не найден (localPath не задан)" });
     }
 
     if (!fs.existsSync(job.localPath)) {
-      console.error(`[VideoJob] File not found for job ${id}: ${job.localPath}`);
+      log.error(`File not found for job ${id}: ${job.localPath}`);
       return res.status(404).json({ 
         error: "Файл видео не найден",
         path: job.localPath 
@@ -114,14 +103,14 @@ router.get("/preview/:id", async (req: Request, res: Response) => {
     }
 
     const fileStat = fs.statSync(job.localPath);
-    console.log(`[VideoJob] Streaming video for job ${id}: ${job.localPath}, size: ${fileStat.size} bytes`);
+    log.info(`Streaming video for job ${id}: ${job.localPath}, size: ${fileStat.size} bytes`);
 
     // Стримим видео
     res.setHeader("Content-Type", "video/mp4");
     res.setHeader("Content-Length", fileStat.size);
     fs.createReadStream(job.localPath).pipe(res);
   } catch (error) {
-    console.error("Ошибка при стриминге видео:", error);
+    log.error("Ошибка при стриминге видео", { error });
     res.status(500).json({ error: "Ошибка при загрузке видео" });
   }
 });
@@ -137,19 +126,19 @@ router.post("/jobs/:id/approve", async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Job не найден" });
     }
 
-    if (job.status !== "ready") {
+    if (job.status !== "ready" && job.status !== "upload_failed") {
       return res.status(400).json({
-        error: "Можно одобрить только job со статусом 'ready'",
+        error: "Можно одобрить только job со статусом 'ready' или 'upload_failed'",
       });
     }
 
     if (!job.localPath) {
-      console.error(`[VideoJob] Job ${id} has no localPath for approval`);
+      log.error(`Job ${id} has no localPath for approval`);
       return res.status(404).json({ error: "Файл видео не найден (localPath не задан)" });
     }
 
     if (!fs.existsSync(job.localPath)) {
-      console.error(`[VideoJob] File not found for approval (job ${id}): ${job.localPath}`);
+      log.error(`File not found for approval (job ${id}): ${job.localPath}`);
       return res.status(404).json({ 
         error: "Файл видео не найден",
         path: job.localPath 
@@ -157,17 +146,17 @@ router.post("/jobs/:id/approve", async (req: Request, res: Response) => {
     }
 
     const fileStat = fs.statSync(job.localPath);
-    console.log(`[VideoJob] Approving job ${id}, file: ${job.localPath}, size: ${fileStat.size} bytes`);
+    log.info(`Approving job ${id}, file: ${job.localPath}, size: ${fileStat.size} bytes`);
 
     // Обновляем title в job, если передан новый
     const finalTitle = videoTitle && videoTitle.trim() ? videoTitle.trim() : job.videoTitle;
     if (finalTitle && finalTitle !== job.videoTitle) {
       await updateJob(id, { videoTitle: finalTitle });
-      console.log(`[VideoJob] Updated title for job ${id}: ${finalTitle}`);
+      log.info(`Updated title for job ${id}: ${finalTitle}`);
     }
 
-    // Обновляем статус на uploading
-    await updateJob(id, { status: "uploading" });
+    // Обновляем статус на uploading (в транзакции, см. updateJob)
+    await updateJob(id, { status: "uploading", errorMessage: undefined }, { expectedStatus: ["ready", "upload_failed"] });
 
     try {
       // Генерируем имя файла из videoTitle или используем дефолтное
@@ -175,12 +164,12 @@ router.post("/jobs/:id/approve", async (req: Request, res: Response) => {
       const fileName = finalTitle
         ? getSafeFileName(finalTitle)
         : `video_${job.id}_${Date.now()}.mp4`;
-      console.log(`[VideoJob] Uploading to Google Drive: ${fileName}`);
+      log.info(`Uploading to Google Drive: ${fileName}`);
 
       // Загружаем в Google Drive
       const driveResult = await uploadFileToDrive(job.localPath, fileName);
       
-      console.log(`[VideoJob] Successfully uploaded to Google Drive: ${driveResult.fileId}`);
+      log.info(`Successfully uploaded to Google Drive: ${driveResult.fileId}`);
 
       // Обновляем job
       await updateJob(id, {
@@ -200,11 +189,21 @@ router.post("/jobs/:id/approve", async (req: Request, res: Response) => {
         googleDriveWebContentLink: driveResult.webContentLink,
       });
     } catch (error: any) {
-      await updateJob(id, { status: "ready" }); // Откатываем статус
+      await updateJob(id, {
+        status: "upload_failed",
+        errorMessage: `Ошибка загрузки в Google Drive: ${error?.message || error}`,
+      });
       throw error;
     }
   } catch (error: any) {
-    console.error("Ошибка при одобрении видео:", error);
+    if (error instanceof InvalidStatusTransitionError) {
+      return res.status(409).json({
+        error: "INVALID_STATUS_TRANSITION",
+        message: error.message,
+        status: error.from,
+      });
+    }
+    log.error("Ошибка при одобрении видео", { error });
     res.status(500).json({
       error: "Ошибка при загрузке в Google Drive",
       message: error.message,
@@ -213,30 +212,26 @@ router.post("/jobs/:id/approve", async (req: Request, res: Response) => {
 });
 
 // POST /api/video/jobs/:id/reject
+// Отклонённая задача перемещается в корзину, файл удаляется при очистке корзины
 router.post("/jobs/:id/reject", async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
-    const job = await getJob(id);
-
-    if (!job) {
-      return res.status(404).json({ error: "Job не найден" });
-    }
-
-    // Удаляем локальный файл
-    if (job.localPath && fs.existsSync(job.localPath)) {
-      try {
-        fs.unlinkSync(job.localPath);
-      } catch (error) {
-        console.error("Ошибка при удалении файла:", error);
+    const job = await rejectVideoJob(req.params.id);
+    res.json({ status: job.status, trashedAt: job.trashedAt });
+  } catch (error) {
+    if (error instanceof JobReviewError) {
+      if (error.code === "JOB_NOT_FOUND") {
+        return res.status(404).json({ error: "Job не найден" });
       }
+      return res.status(409).json({ error: error.code, message: error.message });
     }
-
-    // Обновляем статус
-    await updateJob(id, { status: "rejected" });
-
-    res.json({ status: "rejected" });
-  } catch (error) {
-    console.error("Ошибка при отклонении видео:", error);
+    if (error instanceof InvalidStatusTransitionError) {
+      return res.status(409).json({
+        error: "INVALID_STATUS_TRANSITION",
+        message: error.message,
+        status: error.from,
+      });
+    }
+    log.error("Ошибка при отклонении видео", { error });
     res.status(500).json({ error: "Ошибка при отклонении видео" });
   }
 });
@@ -254,46 +249,23 @@ router.post("/jobs/:id/regenerate", async (req: Request, res: Response) => {
     // Можно использовать обновлённый промпт из body или старый
     const veoprompt = req.body.veoprompt || oldJob.prompt;
 
-    // Создаём новый job с сохранением videoTitle
+    // Создаём новый job с сохранением videoTitle; он встаёт в общую очередь
     const newJob = await createJob(
       veoprompt,
       oldJob.channelId,
+      oldJob.channelName,
       oldJob.ideaText,
-      oldJob.videoTitle
+      oldJob.videoTitle,
+      { parentJob: oldJob }
     );
 
-    try {
-      // Формируем безопасное имя файла из videoTitle
-      const safeFileName = newJob.videoTitle ? getSafeFileName(newJob.videoTitle) : undefined;
-      
-      // Генерируем новое видео
-      const syntxResult = await sendPromptToSyntx(veoprompt, safeFileName);
-      const localPath = syntxResult.localPath;
-
-      await updateJob(newJob.id, {
-        status: "ready",
-        localPath,
-      });
-
-      res.json({
-        jobId: newJob.id,
-        status: "ready",
-        previewUrl: `/api/video/preview/${newJob.id}`,
-      });
-    } catch (error: any) {
-      await updateJob(newJob.id, {
-        status: "error",
-      });
-
-      console.error("Ошибка перегенерации видео:", error);
-      res.status(500).json({
-        error: "Ошибка при перегенерации видео",
-        message: error.message,
-      });
-    }
+    res.status(202).json(await buildQueuedResponse(newJob.id));
   } catch (error: any) {
-    console.error("Ошибка:", error);
-    res.status(500).json({ error: "Внутренняя ошибка сервера" });
+    log.error("Ошибка перегенерации видео", { error });
+    res.status(500).json({
+      error: "Ошибка при перегенерации видео",
+      message: error?.message || "Неизвестная ошибка",
+    });
   }
 });
 
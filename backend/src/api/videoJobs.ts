@@ -1,160 +1,239 @@
 import { Router, Request, Response } from "express";
 import * as fs from "fs";
-import * as path from "path";
-import { sendPromptToSyntx } from "../telegram/syntxService";
-import { uploadFileToDrive } from "../googleDrive/driveService";
 import {
   createJob,
   getJob,
-  updateJob,
-  getAllJobs,
-  countActiveJobs,
+  getJobsByStatuses,
+  getJobEvents,
+  getJobChain,
+  getJobsByVariantGroup,
+  getTrashedJobs,
+  listJobs,
+  InvalidStatusTransitionError,
+  InvalidJobsCursorError,
+  VIDEO_JOB_TRANSITIONS,
+  ListJobsParams,
+  VideoJob,
   VideoJobStatus,
-  deleteJobCascade,
 } from "../models/videoJob";
 import { getChannelById } from "../models/channel";
-import { getSafeFileName } from "../utils/fileNameSanitizer";
+import {
+  cancelVideoJob,
+  JobNotCancellableError,
+} from "../services/videoJobProcessor";
+import {
+  dispatchQueuedJobs,
+  getQueuePositions,
+  getQueueState,
+  QueueState,
+} from "../services/jobDispatcher";
+import { getCurrentQueueState, subscribeToQueueState } from "../services/queueStateBroadcast";
+import {
+  startVideoJobBatch,
+  getBatchWithProgress,
+  BatchIdea,
+} from "../services/videoJobBatchProcessor";
+import { subscribeToVideoJobChanges } from "../services/videoJobChanges";
+import { searchVideoJobs } from "../services/videoJobSearch";
+import { exportJobs, EXPORT_FORMATS, ExportFormat } from "../services/videoJobExport";
+import {
+  createVariantJobs,
+  getVariantWinStats,
+  MAX_VARIANTS_PER_PROMPT,
+} from "../services/videoJobVariants";
+import {
+  getVariantGroup,
+  VariantGroupDecidedError,
+} from "../models/videoJobVariantGroup";
+import {
+  approveVideoJob,
+  rejectVideoJob,
+  deleteVideoJob,
+  restoreVideoJob,
+  purgeTrashedJob,
+  runBulkJobAction,
+  JobReviewError,
+  MAX_BULK_JOB_IDS,
+} from "../services/videoJobReview";
+import { getTrashPurgeAt, getTrashRetentionDays } from "../services/trashPurger";
+import {
+  getRejectReasons,
+  parseReviewFeedbackInput,
+  saveReviewFeedback,
+  ReviewFeedbackError,
+} from "../services/reviewFeedback";
+import { getDriveFallbackUrl } from "../utils/jobFiles";
 import * as admin from "firebase-admin";
+import { createLogger, addLogContext } from "../utils/logger";
+
+const log = createLogger("VideoJob");
 
 const router = Router();
 
-const MAX_ACTIVE_JOBS = 2;
+// Записи лога маршрутов с :id и :batchId получают jobId / batchId
+router.param("id", (req, res, next, id: string) => {
+  addLogContext({ jobId: id });
+  next();
+});
+router.param("batchId", (req, res, next, batchId: string) => {
+  addLogContext({ batchId });
+  next();
+});
+
+// Максимум идей в одном пакете
+const MAX_BATCH_IDEAS = 20;
+
+// Размер страницы списка задач по умолчанию и максимальный
+const DEFAULT_JOBS_PAGE_SIZE = 20;
+const MAX_JOBS_PAGE_SIZE = 100;
+
+// SSE: интервал комментариев-пингов (чтобы прокси не закрывали соединение)
+const STREAM_HEARTBEAT_MS = 25 * 1000;
 
 /**
- * Асинхронная функция для обработки генерации видео
+ * Идея пакета из тела запроса: непустой title и строка description
  */
-async function processVideoGeneration(jobId: string): Promise<void> {
-  const job = await getJob(jobId);
-  if (!job) {
-    console.error(`[VideoJob] Job ${jobId} not found for processing`);
-    return;
+function isBatchIdea(idea: unknown): idea is BatchIdea {
+  if (!idea || typeof idea !== "object") {
+    return false;
   }
+  const { title, description } = idea as Record<string, unknown>;
+  return typeof title === "string" && !!title.trim() && typeof description === "string";
+}
 
-  // Защита от дублей: если видео уже скачано, не обрабатываем повторно
-  if (job.telegramVideoMessageId && job.status === "ready") {
-    console.log(`[VideoJob] Job ${jobId} already has video (messageId: ${job.telegramVideoMessageId}), skipping`);
-    return;
+/**
+ * Разбирает scheduledAt из тела запроса: Unix-время в миллисекундах или ISO-строка.
+ * Возвращает undefined, если поле не передано, и NaN, если значение некорректно.
+ */
+function parseScheduledAt(scheduledAt: unknown): number | undefined {
+  if (scheduledAt === undefined || scheduledAt === null || scheduledAt === "") {
+    return undefined;
   }
+  return typeof scheduledAt === "number" ? scheduledAt : Date.parse(String(scheduledAt));
+}
 
-  try {
-    // Статус: sending - отправка промпта
-    await updateJob(jobId, { status: "sending" });
-    console.log(`[VideoJob] Job ${jobId}: sending prompt to Syntx`);
-
-    // Формируем безопасное имя файла из videoTitle
-    const safeFileName = job.videoTitle ? getSafeFileName(job.videoTitle) : undefined;
-
-    // Статус: waiting_video - ожидание видео
-    updateJob(jobId, { status: "waiting_video" });
-    console.log(`[VideoJob] Job ${jobId}: waiting for video from Syntx`);
-
-    // Отправляем промпт в Syntx AI и ждём видео
-    // Используем существующий requestMessageId, если он есть (для повторных попыток)
-    const existingRequestMessageId = job.telegramRequestMessageId;
-    const syntxResult = await sendPromptToSyntx(
-      job.prompt, 
-      safeFileName, 
-      existingRequestMessageId
-    );
-
-    // Сохраняем requestMessageId и videoMessageId для связи с ответом
-    await updateJob(jobId, { 
-      telegramRequestMessageId: syntxResult.requestMessageId,
-      telegramVideoMessageId: syntxResult.videoMessageId,
-    });
-    console.log(`[VideoJob] Job ${jobId}: saved telegramRequestMessageId: ${syntxResult.requestMessageId}, telegramVideoMessageId: ${syntxResult.videoMessageId}`);
-
-    // Статус: downloading - скачивание
-    await updateJob(jobId, { status: "downloading" });
-    console.log(`[VideoJob] Job ${jobId}: downloading video`);
+/**
+ * Разбирает дату из query-параметра: Unix-время в миллисекундах или ISO-строка
+ */
+function parseDateParam(value: unknown): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const str = String(value);
+  return /^\d+$/.test(str) ? Number(str) : Date.parse(str);
+}
 
-    // Проверяем, что файл существует
-    if (!fs.existsSync(syntxResult.localPath)) {
-      throw new Error(`File does not exist after download: ${syntxResult.localPath}`);
-    }
+/**
+ * Разбирает и проверяет параметры списка задач
+ */
+function parseListJobsQuery(query: Request["query"]): { params: ListJobsParams } | { error: string } {
+  const statuses = query.status
+    ? String(query.status).split(",").map((status) => status.trim()).filter(Boolean)
+    : [];
+  const unknownStatus = statuses.find((status) => !Object.prototype.hasOwnProperty.call(VIDEO_JOB_TRANSITIONS, status));
+  if (unknownStatus) {
+    return { error: `Неизвестный статус: ${unknownStatus}` };
+  }
 
-    const fileStat = fs.statSync(syntxResult.localPath);
-    console.log(`[VideoJob] Job ${jobId}: file verified, size: ${fileStat.size} bytes`);
+  const createdFrom = parseDateParam(query.createdFrom);
+  const createdTo = parseDateParam(query.createdTo);
+  if (Number.isNaN(createdFrom) || Number.isNaN(createdTo)) {
+    return { error: "createdFrom/createdTo должны быть временем в мс или ISO-строкой" };
+  }
 
-    // Статус: ready - готово
-    const updatedJob = await updateJob(jobId, {
-      status: "ready",
-      localPath: syntxResult.localPath,
-    });
+  const sortBy = query.sortBy ? String(query.sortBy) : "createdAt";
+  if (sortBy !== "createdAt" && sortBy !== "updatedAt") {
+    return { error: "sortBy должен быть createdAt или updatedAt" };
+  }
+  // Firestore требует, чтобы сортировка шла по полю, к которому применён диапазон
+  if (sortBy !== "createdAt" && (createdFrom !== undefined || createdTo !== undefined)) {
+    return { error: "Фильтр по дате создания можно использовать только с sortBy=createdAt" };
+  }
 
-    console.log(`[VideoJob] Job ${jobId} completed successfully`);
+  const sortOrder = query.sortOrder ? String(query.sortOrder) : "desc";
+  if (sortOrder !== "asc" && sortOrder !== "desc") {
+    return { error: "sortOrder должен быть asc или desc" };
+  }
 
-    // Отправляем FCM уведомление о готовности видео
-    if (updatedJob) {
-      const { notifyVideoReady } = await import("../firebase/fcmService");
-      const videoTitle = updatedJob.videoTitle || updatedJob.prompt.substring(0, 60) + (updatedJob.prompt.length > 60 ? '...' : '');
-      await notifyVideoReady(jobId, videoTitle, updatedJob.channelId).catch((err) => {
-        console.error(`[VideoJob] Failed to send FCM notification for job ${jobId}:`, err);
-        // Не пробрасываем ошибку, чтобы не ломать основной процесс
-      });
-    }
-  } catch (error: any) {
-    console.error(`[VideoJob] Job ${jobId} error:`, error);
-    const errorMessage = error?.message || error?.toString() || "Неизвестная ошибка";
-    
-    // Проверяем, является ли ошибка таймаутом
-    const isTimeout = errorMessage.includes("Таймаут ожидания видео") || errorMessage.includes("timeout");
-    const finalStatus: VideoJobStatus = isTimeout ? "syntax_timeout" : "error";
-    
-    await updateJob(jobId, {
-      status: finalStatus,
-      errorMessage,
-    });
+  const limit = query.limit ? parseInt(String(query.limit), 10) : DEFAULT_JOBS_PAGE_SIZE;
+  if (!Number.isFinite(limit) || limit < 1) {
+    return { error: "limit должен быть положительным числом" };
   }
+
+  return {
+    params: {
+      channelId: query.channelId ? String(query.channelId) : undefined,
+      statuses: statuses as VideoJobStatus[],
+      createdFrom,
+      createdTo,
+      sortBy,
+      sortOrder,
+      limit: Math.min(limit, MAX_JOBS_PAGE_SIZE),
+      cursor: query.cursor ? String(query.cursor) : undefined,
+    },
+  };
 }
 
 /**
  * POST /api/video-jobs
- * Создать новую задачу генерации видео
+ * Создать новую задачу генерации видео.
+ * При variantCount > 1 создаётся группа дублей: N задач с одним промптом и общим variantGroupId
  */
 router.post("/", async (req: Request, res: Response) => {
   try {
-    const { prompt, channelId, channelName, ideaText, videoTitle } = req.body;
+    const { prompt, channelId, channelName, ideaText, videoTitle, scheduledAt, variantCount } = req.body;
 
     if (!prompt || typeof prompt !== "string" || prompt.trim().length === 0) {
       return res.status(400).json({ error: "Требуется поле prompt (непустая строка)" });
     }
 
-    // Проверяем лимит активных задач
-    const activeCount = await countActiveJobs(channelId);
-    if (activeCount >= MAX_ACTIVE_JOBS) {
-      return res.status(429).json({
-        error: "MAX_ACTIVE_JOBS_REACHED",
-        message: `Можно генерировать не более ${MAX_ACTIVE_JOBS} видео одновременно.`,
-        activeCount,
-        maxActiveJobs: MAX_ACTIVE_JOBS,
+    const variants = variantCount === undefined || variantCount === null ? 1 : Number(variantCount);
+    if (!Number.isInteger(variants) || variants < 1 || variants > MAX_VARIANTS_PER_PROMPT) {
+      return res.status(400).json({
+        error: `variantCount должен быть целым числом от 1 до ${MAX_VARIANTS_PER_PROMPT}`,
       });
     }
 
-    // Создаём задачу
-    const job = await createJob(
-      prompt.trim(),
-      channelId,
-      channelName,
-      ideaText,
-      videoTitle
-    );
-
-    console.log(`[VideoJob] Created job ${job.id}, channelId: ${channelId || "не указан"}, videoTitle: ${videoTitle || "не указано"}`);
-
-    // Запускаем асинхронную обработку (не ждём завершения)
-    processVideoGeneration(job.id).catch((error) => {
-      console.error(`[VideoJob] Unhandled error in processVideoGeneration for job ${job.id}:`, error);
-    });
+    const scheduledAtMs = parseScheduledAt(scheduledAt);
+    if (scheduledAtMs !== undefined && !Number.isFinite(scheduledAtMs)) {
+      return res.status(400).json({ error: "Некорректное значение scheduledAt" });
+    }
+    const isScheduled = !!scheduledAtMs && scheduledAtMs > Date.now();
+
+    // Создаём задачу (или группу дублей)
+    const createOptions = { scheduledAt: isScheduled ? scheduledAtMs : undefined };
+    const variantGroup = variants > 1
+      ? await createVariantJobs(prompt.trim(), variants, channelId, channelName, ideaText, videoTitle, createOptions)
+      : null;
+    const job = variantGroup
+      ? variantGroup.jobs[0]
+      : await createJob(prompt.trim(), channelId, channelName, ideaText, videoTitle, createOptions);
+
+    addLogContext({ jobId: job.id, channelId });
+    log.info(`Created job ${job.id}, channelId: ${channelId || "не указан"}, videoTitle: ${videoTitle || "не указано"}`);
+
+    let queuePosition: number | undefined;
+    if (isScheduled) {
+      // Запуск выполнит планировщик в назначенное время
+      log.info(`Job ${job.id} scheduled for ${new Date(scheduledAtMs!).toISOString()}`);
+    } else {
+      // Задача встаёт в очередь; диспетчер запустит её сразу, если есть свободный слот
+      await dispatchQueuedJobs();
+      queuePosition = (await getQueuePositions()).get(job.id);
+    }
 
     // Возвращаем информацию о созданной задаче
     res.status(201).json({
       jobId: job.id,
       status: job.status,
+      queuePosition,
+      scheduledAt: job.scheduledAt || undefined,
       createdAt: job.createdAt,
+      variantGroupId: variantGroup?.group.id,
+      jobIds: variantGroup?.group.jobIds,
     });
   } catch (error: any) {
-    console.error("[VideoJob] Error creating job:", error);
+    log.error("Error creating job", { error });
     const errorMessage = error?.message || error?.toString() || "Неизвестная ошибка";
     res.status(500).json({
       error: "Внутренняя ошибка сервера",
@@ -163,46 +242,636 @@ router.post("/", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/video-jobs/batch
+ * Создать задачи по списку идей: промпты Veo и названия генерируются в фоне,
+ * каждая задача встаёт в очередь сразу после генерации своего промпта
+ */
+router.post("/batch", async (req: Request, res: Response) => {
+  try {
+    const { channelId, ideas, scheduledAt } = req.body;
+
+    if (!channelId || !Array.isArray(ideas) || ideas.length === 0) {
+      return res.status(400).json({
+        error: "Требуются поля: channelId, ideas (непустой массив идей с полями title и description)",
+      });
+    }
+
+    if (ideas.length > MAX_BATCH_IDEAS) {
+      return res.status(400).json({ error: `В одном пакете не более ${MAX_BATCH_IDEAS} идей` });
+    }
+
+    const ideaList: unknown[] = ideas;
+    const invalidIndex = ideaList.findIndex((idea) => !isBatchIdea(idea));
+    if (invalidIndex !== -1) {
+      return res.status(400).json({
+        error: `Идея #${invalidIndex + 1} должна содержать поля title и description`,
+      });
+    }
+
+    const scheduledAtMs = parseScheduledAt(scheduledAt);
+    if (scheduledAtMs !== undefined && !Number.isFinite(scheduledAtMs)) {
+      return res.status(400).json({ error: "Некорректное значение scheduledAt" });
+    }
+
+    const channel = await getChannelById(channelId);
+    if (!channel) {
+      return res.status(404).json({ error: "Канал не найден" });
+    }
+
+    // Проверяем наличие OpenAI API ключа
+    if (!process.env.OPENAI_API_KEY) {
+      return res.status(500).json({
+        error: "OpenAI API ключ не настроен. Установите OPENAI_API_KEY в .env",
+      });
+    }
+
+    const batchIdeas: BatchIdea[] = ideaList.filter(isBatchIdea).map((idea) => ({
+      title: idea.title.trim(),
+      description: idea.description.trim(),
+    }));
+
+    const batch = await startVideoJobBatch(
+      channel,
+      batchIdeas,
+      scheduledAtMs && scheduledAtMs > Date.now() ? scheduledAtMs : undefined
+    );
+
+    addLogContext({ batchId: batch.id, channelId: channel.id });
+    log.info(`Created batch ${batch.id} with ${batch.items.length} ideas for channel ${channel.id}`);
+
+    res.status(202).json({
+      batchId: batch.id,
+      channelId: batch.channelId,
+      items: batch.items,
+      createdAt: batch.createdAt,
+    });
+  } catch (error: any) {
+    log.error("Error creating batch", { error });
+    res.status(500).json({
+      error: "Внутренняя ошибка сервера",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * GET /api/video-jobs/batch/:batchId
+ * Получить прогресс пакета: статус каждой идеи и созданной по ней задачи
+ */
+router.get("/batch/:batchId", async (req: Request, res: Response) => {
+  const { batchId } = req.params;
+
+  try {
+    const batch = await getBatchWithProgress(batchId);
+    if (!batch) {
+      return res.status(404).json({ error: "Пакет не найден", batchId });
+    }
+
+    res.json(batch);
+  } catch (error: any) {
+    log.error(`Error getting batch ${batchId}`, { error });
+    res.status(500).json({
+      error: "Внутренняя ошибка сервера",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * POST /api/video-jobs/bulk/:action (approve | reject | delete)
+ * Массовое одобрение, отклонение или удаление задач по списку jobIds (до 100).
+ * Ответ содержит результат по каждой задаче; ошибка одной задачи не прерывает остальные.
+ * Загрузки в Google Drive идут не более чем по BULK_UPLOAD_CONCURRENCY одновременно.
+ * ВАЖНО: Этот маршрут должен быть определён ПЕРЕД маршрутами /:id/approve и /:id/reject
+ */
+router.post("/bulk/:action", async (req: Request, res: Response) => {
+  const { action } = req.params;
+  const { jobIds } = req.body;
+
+  if (action !== "approve" && action !== "reject" && action !== "delete") {
+    return res.status(400).json({ error: "action должен быть approve, reject или delete" });
+  }
+
+  if (
+    !Array.isArray(jobIds) ||
+    jobIds.length === 0 ||
+    jobIds.some((jobId) => typeof jobId !== "string" || !jobId.trim())
+  ) {
+    return res.status(400).json({ error: "Требуется jobIds: непустой массив ID задач" });
+  }
+
+  if (jobIds.length > MAX_BULK_JOB_IDS) {
+    return res.status(400).json({ error: `Не больше ${MAX_BULK_JOB_IDS} задач за один запрос` });
+  }
+
+  try {
+    const results = await runBulkJobAction(action, jobIds);
+    const succeeded = results.filter((result) => result.success).length;
+
+    res.json({
+      action,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    });
+  } catch (error: any) {
+    log.error(`Error running bulk ${action}`, { error });
+    res.status(500).json({
+      error: "Ошибка массового действия",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * Есть ли у задачи видео для предпросмотра (у задачи в корзине - по статусу до удаления)
+ */
+function hasPreviewStatus(job: VideoJob): boolean {
+  const status = job.status === "trashed" ? job.trashedFromStatus : job.status;
+  return status === "ready" || status === "uploaded" || status === "upload_failed";
+}
+
+/**
+ * Формирует представление задачи для списка и SSE-потока
+ */
+function toJobResponse(job: VideoJob, queuePositions: Map<string, number>) {
+  return {
+    id: job.id,
+    prompt: job.prompt,
+    channelId: job.channelId,
+    channelName: job.channelName,
+    videoTitle: job.videoTitle,
+    status: job.status,
+    queuePosition: queuePositions.get(job.id),
+    batchId: job.batchId || undefined,
+    parentJobId: job.parentJobId || undefined,
+    rootJobId: job.rootJobId || undefined,
+    variantGroupId: job.variantGroupId || undefined,
+    variantIndex: job.variantIndex || undefined,
+    variantCount: job.variantCount || undefined,
+    errorMessage: job.errorMessage,
+    attempts: job.attempts || [],
+    nextRetryAt: job.nextRetryAt || undefined,
+    scheduledAt: job.scheduledAt || undefined,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    previewUrl: hasPreviewStatus(job) && (job.localPath || getDriveFallbackUrl(job))
+      ? `/api/video-jobs/${job.id}/preview`
+      : undefined,
+    localFilesPurgedAt: job.localFilesPurgedAt || undefined,
+    localFileMissingAt: job.localFileMissingAt || undefined,
+    trashedAt: job.trashedAt || undefined,
+    trashedFromStatus: job.trashedFromStatus || undefined,
+    trashReason: job.trashReason || undefined,
+    review: job.review || undefined,
+    driveFileId: job.driveFileId,
+    webViewLink: job.webViewLink,
+    webContentLink: job.webContentLink,
+  };
+}
+
 /**
  * GET /api/video-jobs
- * Получить список задач (опционально отфильтрованных по channelId)
+ * Получить страницу задач.
+ * Параметры: channelId, status (через запятую), createdFrom/createdTo (мс или ISO),
+ * sortBy (createdAt | updatedAt), sortOrder (asc | desc), limit (до 100), cursor (nextCursor предыдущей страницы)
  */
 router.get("/", async (req: Request, res: Response) => {
+  try {
+    const parsed = parseListJobsQuery(req.query);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: "INVALID_QUERY", message: parsed.error });
+    }
+
+    // Позиция в общей очереди (по всем каналам, так как слоты общие)
+    const [{ jobs, nextCursor }, queueState] = await Promise.all([listJobs(parsed.params), getQueueState()]);
+
+    res.json({
+      jobs: jobs.map(job => toJobResponse(job, queueState.queuePositions)),
+      nextCursor,
+      activeCount: queueState.activeCount,
+      maxActiveJobs: queueState.maxActiveJobs,
+      queuedCount: queueState.queuePositions.size,
+    });
+  } catch (error: any) {
+    if (error instanceof InvalidJobsCursorError) {
+      return res.status(400).json({ error: "INVALID_CURSOR", message: error.message });
+    }
+    log.error("Error getting jobs", { error });
+    res.status(500).json({
+      error: "Внутренняя ошибка сервера",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * GET /api/video-jobs/export
+ * Выгрузить задачи в CSV или JSON (format=csv|json, по умолчанию csv) с теми же фильтрами и сортировкой,
+ * что у GET /api/video-jobs. Задачи читаются и отправляются постранично, вся история в память не загружается.
+ */
+router.get("/export", async (req: Request, res: Response) => {
+  const format = (req.query.format ? String(req.query.format) : "csv") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: "INVALID_QUERY", message: "format должен быть csv или json" });
+  }
+
+  const parsed = parseListJobsQuery(req.query);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: "INVALID_QUERY", message: parsed.error });
+  }
+
+  try {
+    await exportJobs(res, format, parsed.params);
+  } catch (error: any) {
+    log.error("Error exporting jobs", { error });
+    if (res.headersSent) {
+      // Часть файла уже отправлена: обрываем соединение, чтобы выгрузка не выглядела полной
+      res.destroy(error);
+      return;
+    }
+    res.status(500).json({
+      error: "Ошибка выгрузки задач",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * GET /api/video-jobs/search?q=...
+ * Полнотекстовый поиск по названию, идее и промпту (русский и казахский текст).
+ * Дополнительно: channelId, status (через запятую), limit (до 100)
+ * ВАЖНО: Этот маршрут должен быть определён ПЕРЕД общим маршрутом /:id
+ */
+router.get("/search", async (req: Request, res: Response) => {
+  try {
+    const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (!query) {
+      return res.status(400).json({ error: "Требуется параметр q" });
+    }
+
+    const statuses = req.query.status
+      ? String(req.query.status).split(",").map((status) => status.trim()).filter(Boolean)
+      : [];
+    const unknownStatus = statuses.find((status) => !Object.prototype.hasOwnProperty.call(VIDEO_JOB_TRANSITIONS, status));
+    if (unknownStatus) {
+      return res.status(400).json({ error: "INVALID_QUERY", message: `Неизвестный статус: ${unknownStatus}` });
+    }
+
+    const limit = Math.min(parseInt(String(req.query.limit || ""), 10) || DEFAULT_JOBS_PAGE_SIZE, MAX_JOBS_PAGE_SIZE);
+    const { jobIds, total } = await searchVideoJobs(query, {
+      channelId: req.query.channelId ? String(req.query.channelId) : undefined,
+      statuses: statuses as VideoJobStatus[],
+      limit,
+    });
+
+    const [jobs, queuePositions] = await Promise.all([
+      Promise.all(jobIds.map((jobId) => getJob(jobId))),
+      getQueuePositions(),
+    ]);
+
+    res.json({
+      query,
+      total,
+      jobs: jobs
+        .filter((job): job is VideoJob => !!job)
+        .map((job) => toJobResponse(job, queuePositions)),
+    });
+  } catch (error: any) {
+    log.error("Error searching jobs", { error });
+    res.status(500).json({
+      error: "Ошибка поиска задач",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * GET /api/video-jobs/stream
+ * SSE-поток изменений задач (опционально отфильтрованных по channelId).
+ * События: job_created, job_updated (данные - задача в формате списка), job_deleted ({ id })
+ * и queue (занятые слоты и позиции в очереди, отправляется с задержкой после серии изменений).
+ * ВАЖНО: Этот маршрут должен быть определён ПЕРЕД общим маршрутом /:id
+ */
+router.get("/stream", async (req: Request, res: Response) => {
+  const { channelId } = req.query;
+  const channelIdStr = channelId ? String(channelId) : undefined;
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no"); // Отключаем буферизацию в прокси
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let queuePositions = new Map<string, number>();
+
+  const sendQueueState = (state: QueueState) => {
+    queuePositions = state.queuePositions;
+    sendEvent("queue", {
+      activeCount: state.activeCount,
+      maxActiveJobs: state.maxActiveJobs,
+      queuedCount: state.queuePositions.size,
+      queuePositions: Object.fromEntries(state.queuePositions),
+    });
+  };
+
+  // Состояние очереди пересчитывается один раз на изменение и рассылается всем подключениям
+  const unsubscribeQueue = subscribeToQueueState(sendQueueState);
+
+  const unsubscribe = subscribeToVideoJobChanges((change) => {
+    if (channelIdStr && change.channelId !== channelIdStr) {
+      return;
+    }
+    // Для списков задача в корзине равносильна удалённой
+    if (change.type === "deleted" || !change.job || change.job.status === "trashed") {
+      sendEvent("job_deleted", { id: change.jobId });
+      return;
+    }
+    sendEvent(`job_${change.type}`, toJobResponse(change.job, queuePositions));
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(": ping\n\n");
+  }, STREAM_HEARTBEAT_MS);
+
+  let isClosed = false;
+  req.on("close", () => {
+    isClosed = true;
+    unsubscribe();
+    unsubscribeQueue();
+    clearInterval(heartbeat);
+    log.info(`Stream closed (channel: ${channelIdStr || "all"})`);
+  });
+
+  log.info(`Stream opened (channel: ${channelIdStr || "all"})`);
+  try {
+    const state = await getCurrentQueueState();
+    if (!isClosed) {
+      sendQueueState(state);
+    }
+  } catch {
+    // Ошибка уже записана в журнал; состояние придёт со следующим изменением задач
+  }
+});
+
+/**
+ * GET /api/video-jobs/trash
+ * Задачи в корзине (опционально по channelId) с временем окончательного удаления purgeAt
+ * ВАЖНО: Этот маршрут должен быть определён ПЕРЕД общим маршрутом /:id
+ */
+router.get("/trash", async (req: Request, res: Response) => {
+  try {
+    const channelId = req.query.channelId ? String(req.query.channelId) : undefined;
+    const [jobs, queuePositions] = await Promise.all([getTrashedJobs(channelId), getQueuePositions()]);
+
+    res.json({
+      retentionDays: getTrashRetentionDays(),
+      jobs: jobs
+        .reverse() // Последние удалённые - первыми
+        .map((job) => ({ ...toJobResponse(job, queuePositions), purgeAt: getTrashPurgeAt(job) })),
+    });
+  } catch (error: any) {
+    log.error("Error getting trash", { error });
+    res.status(500).json({
+      error: "Ошибка получения корзины",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * DELETE /api/video-jobs/trash/:id
+ * Удалить задачу из корзины навсегда (документ, таймлайн и локальные файлы), не дожидаясь окончания срока
+ */
+router.delete("/trash/:id", async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const job = await getJob(id);
+    if (!job) {
+      return res.status(404).json({ error: "Job не найден", jobId: id });
+    }
+
+    const deletedFiles = await purgeTrashedJob(job);
+    res.json({ status: "deleted", jobId: id, deletedFiles });
+  } catch (error: any) {
+    if (error instanceof JobReviewError) {
+      return res.status(error.code === "JOB_NOT_FOUND" ? 404 : 409).json({
+        error: error.code,
+        message: error.message,
+        jobId: id,
+      });
+    }
+    log.error(`Error purging job ${id}`, { error });
+    res.status(500).json({
+      error: "Ошибка при удалении задачи",
+      message: error?.message || "Неизвестная ошибка",
+      jobId: id,
+    });
+  }
+});
+
+/**
+ * GET /api/video-jobs/reject-reasons
+ * Список причин отклонения (REJECT_REASONS или значения по умолчанию)
+ */
+router.get("/reject-reasons", (req: Request, res: Response) => {
+  res.json({ reasons: getRejectReasons() });
+});
+
+/**
+ * GET /api/video-jobs/scheduled
+ * Получить предстоящие запланированные задачи (ближайшие первыми)
+ */
+router.get("/scheduled", async (req: Request, res: Response) => {
   try {
     const { channelId } = req.query;
     const channelIdStr = channelId ? String(channelId) : undefined;
 
-    const jobs = await getAllJobs(channelIdStr);
-    
-    // Сортируем по createdAt (новые сверху) и ограничиваем последними 20
-    const sortedJobs = jobs
-      .sort((a, b) => b.createdAt - a.createdAt)
-      .slice(0, 20)
-      .map(job => ({
+    const jobs = await getJobsByStatuses(["scheduled"], channelIdStr);
+    const scheduledJobs = jobs
+      .sort((a, b) => (a.scheduledAt || 0) - (b.scheduledAt || 0))
+      .map((job) => ({
         id: job.id,
         prompt: job.prompt,
         channelId: job.channelId,
         channelName: job.channelName,
         videoTitle: job.videoTitle,
         status: job.status,
-        errorMessage: job.errorMessage,
+        scheduledAt: job.scheduledAt || undefined,
         createdAt: job.createdAt,
         updatedAt: job.updatedAt,
-        previewUrl: (job.status === "ready" || job.status === "uploaded") && job.localPath
-          ? `/api/video-jobs/${job.id}/preview`
-          : undefined,
-        driveFileId: job.driveFileId,
-        webViewLink: job.webViewLink,
-        webContentLink: job.webContentLink,
       }));
 
+    res.json({ jobs: scheduledJobs });
+  } catch (error: any) {
+    log.error("Error getting scheduled jobs", { error });
+    res.status(500).json({
+      error: "Внутренняя ошибка сервера",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * GET /api/video-jobs/variants/stats
+ * Статистика выбора дублей: сколько раз побеждал каждый номер дубля (в целом и по месяцам).
+ * Параметры: channelId (необязательно)
+ */
+router.get("/variants/stats", async (req: Request, res: Response) => {
+  try {
+    const channelId = req.query.channelId ? String(req.query.channelId) : undefined;
+    const stats = await getVariantWinStats(channelId);
+    res.json(stats);
+  } catch (error: any) {
+    log.error("Error getting variant stats", { error });
+    res.status(500).json({
+      error: "Внутренняя ошибка сервера",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * GET /api/video-jobs/variants/:groupId
+ * Получить группу дублей и её задачи для сравнения
+ */
+router.get("/variants/:groupId", async (req: Request, res: Response) => {
+  const { groupId } = req.params;
+
+  try {
+    const group = await getVariantGroup(groupId);
+    if (!group) {
+      return res.status(404).json({ error: "Группа дублей не найдена", groupId });
+    }
+
+    const [jobs, queuePositions] = await Promise.all([getJobsByVariantGroup(groupId), getQueuePositions()]);
     res.json({
-      jobs: sortedJobs,
-      activeCount: await countActiveJobs(channelIdStr),
-      maxActiveJobs: MAX_ACTIVE_JOBS,
+      group,
+      jobs: jobs.map((job) => toJobResponse(job, queuePositions)),
     });
   } catch (error: any) {
-    console.error("[VideoJob] Error getting jobs:", error);
+    log.error(`Error getting variant group ${groupId}`, { error });
+    res.status(500).json({
+      error: "Внутренняя ошибка сервера",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * GET /api/video-jobs/:id/events
+ * Получить таймлайн смены статусов задачи
+ * ВАЖНО: Этот маршрут должен быть определён ПЕРЕД общим маршрутом /:id
+ */
+router.get("/:id/events", async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const job = await getJob(id);
+    if (!job) {
+      return res.status(404).json({ error: "Job не найден", jobId: id });
+    }
+
+    const events = await getJobEvents(id);
+    res.json({ jobId: id, events });
+  } catch (error: any) {
+    log.error(`Error getting events for job ${id}`, { error });
+    res.status(500).json({
+      error: "Внутренняя ошибка сервера",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * GET /api/video-jobs/:id/chain
+ * Получить цепочку попыток: исходную задачу и все её повторные генерации
+ * ВАЖНО: Этот маршрут должен быть определён ПЕРЕД общим маршрутом /:id
+ */
+router.get("/:id/chain", async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const job = await getJob(id);
+    if (!job) {
+      return res.status(404).json({ error: "Job не найден", jobId: id });
+    }
+
+    const rootJobId = job.rootJobId || job.id;
+    const [chain, queuePositions] = await Promise.all([getJobChain(rootJobId), getQueuePositions()]);
+    res.json({
+      jobId: id,
+      rootJobId,
+      jobs: chain.map((chainJob) => toJobResponse(chainJob, queuePositions)),
+    });
+  } catch (error: any) {
+    log.error(`Error getting chain for job ${id}`, { error });
+    res.status(500).json({
+      error: "Внутренняя ошибка сервера",
+      message: error?.message || "Неизвестная ошибка",
+    });
+  }
+});
+
+/**
+ * POST /api/video-jobs/:id/regenerate
+ * Создать новую задачу с промптом, каналом и названием исходной задачи.
+ * Body: { prompt?, videoTitle? } - необязательные замены. Исходная задача не изменяется.
+ * ВАЖНО: Этот маршрут должен быть определён ПЕРЕД общим маршрутом /:id
+ */
+router.post("/:id/regenerate", async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const { prompt, videoTitle } = req.body || {};
+
+    if (prompt !== undefined && (typeof prompt !== "string" || prompt.trim().length === 0)) {
+      return res.status(400).json({ error: "prompt должен быть непустой строкой" });
+    }
+    if (videoTitle !== undefined && typeof videoTitle !== "string") {
+      return res.status(400).json({ error: "videoTitle должен быть строкой" });
+    }
+
+    const parentJob = await getJob(id);
+    if (!parentJob) {
+      return res.status(404).json({ error: "Job не найден", jobId: id });
+    }
+
+    const job = await createJob(
+      prompt ? prompt.trim() : parentJob.prompt,
+      parentJob.channelId,
+      parentJob.channelName,
+      parentJob.ideaText,
+      videoTitle !== undefined ? videoTitle.trim() || undefined : parentJob.videoTitle,
+      { parentJob }
+    );
+
+    log.info(`Created job ${job.id} as regeneration of ${parentJob.id} (prompt ${prompt ? "edited" : "unchanged"})`, {
+      jobId: job.id,
+      parentJobId: parentJob.id,
+    });
+
+    await dispatchQueuedJobs();
+    const queuePosition = (await getQueuePositions()).get(job.id);
+
+    res.status(201).json({
+      jobId: job.id,
+      parentJobId: job.parentJobId,
+      rootJobId: job.rootJobId,
+      status: job.status,
+      queuePosition,
+      createdAt: job.createdAt,
+    });
+  } catch (error: any) {
+    log.error(`Error regenerating job ${id}`, { error });
     res.status(500).json({
       error: "Внутренняя ошибка сервера",
       message: error?.message || "Неизвестная ошибка",
@@ -224,12 +893,18 @@ router.get("/:id/preview", async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Job не найден" });
     }
 
-    if (job.status !== "ready" && job.status !== "uploaded") {
+    if (!hasPreviewStatus(job)) {
       return res.status(400).json({
         error: "Видео ещё не готово или было отклонено",
       });
     }
 
+    // Локальная копия удалена по политике хранения - отдаём видео из Google Drive
+    const driveFallbackUrl = getDriveFallbackUrl(job);
+    if (driveFallbackUrl) {
+      return res.redirect(driveFallbackUrl);
+    }
+
     if (!job.localPath || !fs.existsSync(job.localPath)) {
       return res.status(404).json({ error: "Файл видео не найден" });
     }
@@ -239,104 +914,59 @@ router.get("/:id/preview", async (req: Request, res: Response) => {
     res.setHeader("Content-Length", fileStat.size);
     fs.createReadStream(job.localPath).pipe(res);
   } catch (error) {
-    console.error("Ошибка при стриминге видео:", error);
+    log.error("Ошибка при стриминге видео", { error });
     res.status(500).json({ error: "Ошибка при загрузке видео" });
   }
 });
 
 /**
  * POST /api/video-jobs/:id/approve
- * Одобрить и загрузить видео в Google Drive
+ * Одобрить и загрузить видео в Google Drive.
+ * Для дубля из группы остальные дубли отклоняются и удаляются вместе с файлами.
+ * Тело: videoTitle, rating (1-5), notes (необязательно)
  * ВАЖНО: Этот маршрут должен быть определён ПЕРЕД общим маршрутом /:id
  */
 router.post("/:id/approve", async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { videoTitle } = req.body;
-    const job = await getJob(id);
+    const feedback = parseReviewFeedbackInput(req.body);
+    const result = await approveVideoJob(id, videoTitle, feedback);
 
-    if (!job) {
-      return res.status(404).json({ error: "Job не найден" });
+    res.json({
+      status: "uploaded",
+      googleDriveFileId: result.driveFileId,
+      googleDriveWebViewLink: result.webViewLink,
+      googleDriveWebContentLink: result.webContentLink,
+      rejectedVariants: result.rejectedVariants,
+    });
+  } catch (error: any) {
+    if (error instanceof ReviewFeedbackError) {
+      return res.status(400).json({ error: error.code, message: error.message });
     }
-
-    if (job.status !== "ready") {
-      return res.status(400).json({
-        error: "Можно одобрить только job со статусом 'ready'",
+    if (error instanceof JobReviewError) {
+      return res.status(error.code === "INVALID_STATUS" ? 400 : 404).json({
+        error: error.message,
+        ...(error.path ? { path: error.path } : {}),
       });
     }
-
-    if (!job.localPath) {
-      console.error(`[VideoJob] Job ${id} has no localPath for approval`);
-      return res.status(404).json({ error: "Файл видео не найден (localPath не задан)" });
-    }
-
-    if (!fs.existsSync(job.localPath)) {
-      console.error(`[VideoJob] File not found for approval (job ${id}): ${job.localPath}`);
-      return res.status(404).json({
-        error: "Файл видео не найден",
-        path: job.localPath,
+    if (error instanceof InvalidStatusTransitionError) {
+      return res.status(409).json({
+        error: "INVALID_STATUS_TRANSITION",
+        message: error.message,
+        jobId: error.jobId,
+        status: error.from,
       });
     }
-
-    const fileStat = fs.statSync(job.localPath);
-    console.log(`[VideoJob] Approving job ${id}, file: ${job.localPath}, size: ${fileStat.size} bytes`);
-
-    // Обновляем title в job, если передан новый
-    const finalTitle = videoTitle && videoTitle.trim() ? videoTitle.trim() : job.videoTitle;
-    if (finalTitle && finalTitle !== job.videoTitle) {
-      await updateJob(id, { videoTitle: finalTitle });
-      console.log(`[VideoJob] Updated title for job ${id}: ${finalTitle}`);
-    }
-
-    // Обновляем статус на uploading
-    await updateJob(id, { status: "uploading" });
-
-    try {
-      // Генерируем имя файла из videoTitle или используем дефолтное
-      const fileName = finalTitle
-        ? getSafeFileName(finalTitle)
-        : `video_${job.id}_${Date.now()}.mp4`;
-      console.log(`[VideoJob] Uploading to Google Drive: ${fileName}`);
-
-      // Определяем папку Google Drive: сначала из канала, затем из .env
-      let targetFolderId: string | null | undefined = null;
-      if (job.channelId) {
-        const channel = await getChannelById(job.channelId);
-        if (channel && channel.gdriveFolderId) {
-          targetFolderId = channel.gdriveFolderId;
-          console.log(`[VideoJob] Using folder from channel ${job.channelId}: ${targetFolderId}`);
-        } else {
-          console.log(`[VideoJob] Channel ${job.channelId} has no gdriveFolderId, using default from .env`);
-        }
-      } else {
-        console.log(`[VideoJob] No channelId, using default folder from .env`);
-      }
-
-      // Загружаем в Google Drive
-      const driveResult = await uploadFileToDrive(job.localPath, fileName, targetFolderId);
-
-      console.log(`[VideoJob] Successfully uploaded to Google Drive: ${driveResult.fileId}`);
-
-      // Обновляем job
-      await updateJob(id, {
-        status: "uploaded",
-        driveFileId: driveResult.fileId,
-        webViewLink: driveResult.webViewLink,
-        webContentLink: driveResult.webContentLink,
-      });
-
-      res.json({
-        status: "uploaded",
-        googleDriveFileId: driveResult.fileId,
-        googleDriveWebViewLink: driveResult.webViewLink,
-        googleDriveWebContentLink: driveResult.webContentLink,
+    if (error instanceof VariantGroupDecidedError) {
+      return res.status(409).json({
+        error: "VARIANT_ALREADY_CHOSEN",
+        message: error.message,
+        variantGroupId: error.groupId,
+        winnerJobId: error.winnerJobId,
       });
-    } catch (error: any) {
-      await updateJob(id, { status: "ready" }); // Откатываем статус
-      throw error;
     }
-  } catch (error: any) {
-    console.error("Ошибка при одобрении видео:", error);
+    log.error("Ошибка при одобрении видео", { error });
     res.status(500).json({
       error: "Ошибка при загрузке в Google Drive",
       message: error?.message || "Неизвестная ошибка",
@@ -346,59 +976,46 @@ router.post("/:id/approve", async (req: Request, res: Response) => {
 
 /**
  * POST /api/video-jobs/:id/reject
- * Отклонить видео
+ * Отклонить видео: задача перемещается в корзину и может быть восстановлена до окончания срока хранения.
+ * Тело: rejectReasons (коды из GET /reject-reasons), rating (1-5), notes (необязательно)
  * ВАЖНО: Этот маршрут должен быть определён ПЕРЕД общим маршрутом /:id
  */
 router.post("/:id/reject", async (req: Request, res: Response) => {
   const { id } = req.params;
 
   try {
-    console.log(`[VideoJob] Reject request received for job ${id}`);
+    log.info(`Reject request received for job ${id}`);
 
-    const job = await getJob(id);
+    const feedback = parseReviewFeedbackInput(req.body);
+    const job = await rejectVideoJob(id, feedback);
 
-    if (!job) {
-      console.error(`[VideoJob] Job ${id} not found for rejection`);
-      return res.status(404).json({
-        error: "Job не найден",
+    res.json({
+      status: "trashed",
+      jobId: id,
+      trashedAt: job.trashedAt,
+      purgeAt: getTrashPurgeAt(job),
+      review: job.review || undefined,
+    });
+  } catch (error: any) {
+    if (error instanceof ReviewFeedbackError) {
+      return res.status(400).json({ error: error.code, message: error.message, jobId: id });
+    }
+    if (error instanceof JobReviewError) {
+      return res.status(error.code === "JOB_NOT_FOUND" ? 404 : 409).json({
+        error: error.code === "JOB_NOT_FOUND" ? error.message : error.code,
+        message: error.message,
         jobId: id,
       });
     }
-
-    console.log(
-      `[VideoJob] Rejecting job ${id}, current status: ${job.status}, localPath: ${job.localPath || "не указан"}`
-    );
-
-    const removedFiles: string[] = [];
-    const fileCandidates = collectAllFilePaths(job);
-    for (const candidate of fileCandidates) {
-      const deleted = deleteLocalFileSafe(candidate);
-      if (deleted) {
-        removedFiles.push(candidate);
-      }
-    }
-
-    const deletedFromDb = await deleteJobCascade(id);
-    if (!deletedFromDb) {
-      console.error(`[VideoJob] ⚠️  deleteJobCascade returned false for job ${id}`);
-      return res.status(404).json({
-        error: "Job не найден в базе данных",
+    if (error instanceof InvalidStatusTransitionError) {
+      return res.status(409).json({
+        error: "INVALID_STATUS_TRANSITION",
+        message: error.message,
         jobId: id,
+        status: error.from,
       });
     }
-
-    console.log(
-      `[VideoJob] ✅ Job ${id} deleted completely (doc + subcollections + files: ${removedFiles.length})`
-    );
-
-    res.json({
-      status: "deleted",
-      jobId: id,
-      deletedFiles: removedFiles,
-    });
-  } catch (error: any) {
-    console.error(`[VideoJob] ❌ Error rejecting job ${id}:`, error);
-    console.error(`[VideoJob] Error stack:`, error?.stack);
+    log.error(`Error rejecting job ${id}`, { error });
     const errorMessage = error?.message || error?.toString() || "Неизвестная ошибка";
     res.status(500).json({
       error: "Ошибка при отклонении видео",
@@ -408,71 +1025,156 @@ router.post("/:id/reject", async (req: Request, res: Response) => {
   }
 });
 
-function collectAllFilePaths(job: any): string[] {
-  const paths = new Set<string>();
+/**
+ * PUT /api/video-jobs/:id/review
+ * Изменить оценку видео без одобрения или отклонения: rating (1-5), notes, rejectReasons.
+ * Незаданные поля не меняются, null очищает значение. Причины отклонения - только у отклонённого видео.
+ * ВАЖНО: Этот маршрут должен быть определён ПЕРЕД общим маршрутом /:id
+ */
+router.put("/:id/review", async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const feedback = parseReviewFeedbackInput(req.body);
+    const job = await getJob(id);
+    if (!job) {
+      return res.status(404).json({ error: "Job не найден", jobId: id });
+    }
 
-  if (job.localPath) paths.add(job.localPath);
-  if (job.previewPath) paths.add(job.previewPath);
-  if (job.thumbnailPath) paths.add(job.thumbnailPath);
-  if (Array.isArray(job.storagePaths)) {
-    job.storagePaths.forEach((p: string | undefined) => p && paths.add(p));
+    const review = await saveReviewFeedback(job, feedback);
+    res.json({ jobId: id, review });
+  } catch (error: any) {
+    if (error instanceof ReviewFeedbackError) {
+      return res.status(400).json({ error: error.code, message: error.message, jobId: id });
+    }
+    log.error(`Error saving review for job ${id}`, { error });
+    res.status(500).json({
+      error: "Ошибка сохранения оценки",
+      message: error?.message || "Неизвестная ошибка",
+      jobId: id,
+    });
   }
+});
 
-  return Array.from(paths);
-}
+/**
+ * POST /api/video-jobs/:id/restore
+ * Восстановить задачу из корзины в статус, в котором она была до удаления
+ * ВАЖНО: Этот маршрут должен быть определён ПЕРЕД общим маршрутом /:id
+ */
+router.post("/:id/restore", async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    const job = await restoreVideoJob(id);
+    const queuePositions = await getQueuePositions();
+    res.json(toJobResponse(job, queuePositions));
+  } catch (error: any) {
+    if (error instanceof JobReviewError) {
+      return res.status(error.code === "JOB_NOT_FOUND" ? 404 : 409).json({
+        error: error.code,
+        message: error.message,
+        jobId: id,
+      });
+    }
+    if (error instanceof InvalidStatusTransitionError) {
+      return res.status(409).json({
+        error: "INVALID_STATUS_TRANSITION",
+        message: error.message,
+        jobId: id,
+        status: error.from,
+      });
+    }
+    log.error(`Error restoring job ${id}`, { error });
+    res.status(500).json({
+      error: "Ошибка при восстановлении задачи",
+      message: error?.message || "Неизвестная ошибка",
+      jobId: id,
+    });
+  }
+});
 
 /**
- * DELETE /api/video-jobs/:id
- * Удалить задачу генерации видео
+ * POST /api/video-jobs/:id/cancel
+ * Отменить задачу: прерывает ожидание видео и скачивание, освобождает слот генерации
+ * ВАЖНО: Этот маршрут должен быть определён ПЕРЕД общим маршрутом /:id
  */
-router.delete("/:id", async (req: Request, res: Response) => {
+router.post("/:id/cancel", async (req: Request, res: Response) => {
   const { id } = req.params;
 
   try {
-    console.log(`[VideoJob] Delete request received for job ${id}`);
+    log.info(`Cancel request received for job ${id}`);
 
     const job = await getJob(id);
-
     if (!job) {
-      console.error(`[VideoJob] Job ${id} not found for deletion`);
       return res.status(404).json({
-        success: false,
-        message: "Video job not found",
+        error: "Job не найден",
+        jobId: id,
       });
     }
 
-    // Удаляем локальные файлы
-    const removedFiles: string[] = [];
-    const fileCandidates = collectAllFilePaths(job);
-    for (const candidate of fileCandidates) {
-      const deleted = deleteLocalFileSafe(candidate);
-      if (deleted) {
-        removedFiles.push(candidate);
-      }
-    }
+    const updatedJob = await cancelVideoJob(job);
 
-    // Удаляем из Firestore (каскадное удаление)
-    const deletedFromDb = await deleteJobCascade(id);
-    if (!deletedFromDb) {
-      console.error(`[VideoJob] ⚠️  deleteJobCascade returned false for job ${id}`);
-      return res.status(404).json({
-        success: false,
-        message: "Job не найден в базе данных",
+    res.json({
+      success: true,
+      jobId: id,
+      status: updatedJob?.status || "cancelled",
+    });
+  } catch (error: any) {
+    if (error instanceof JobNotCancellableError) {
+      return res.status(409).json({
+        error: "JOB_NOT_CANCELLABLE",
+        message: error.message,
+        jobId: id,
+        status: error.status,
+      });
+    }
+    if (error instanceof InvalidStatusTransitionError) {
+      // Статус задачи сменился между чтением и отменой (например, видео уже готово)
+      return res.status(409).json({
+        error: "INVALID_STATUS_TRANSITION",
+        message: error.message,
+        jobId: id,
+        status: error.from,
       });
     }
 
-    console.log(
-      `[VideoJob] ✅ Job ${id} deleted completely (doc + subcollections + files: ${removedFiles.length})`
-    );
+    log.error(`Error cancelling job ${id}`, { error });
+    res.status(500).json({
+      error: "Ошибка при отмене задачи",
+      message: error?.message || "Неизвестная ошибка",
+      jobId: id,
+    });
+  }
+});
+
+/**
+ * DELETE /api/video-jobs/:id
+ * Удалить задачу генерации видео: задача перемещается в корзину (генерация в процессе отменяется)
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  try {
+    log.info(`Delete request received for job ${id}`);
+
+    const job = await deleteVideoJob(id);
 
     res.json({
       success: true,
       jobId: id,
-      deletedFiles: removedFiles,
+      status: "trashed",
+      trashedAt: job.trashedAt,
+      purgeAt: getTrashPurgeAt(job),
     });
   } catch (error: any) {
-    console.error(`[VideoJob] ❌ Error deleting job ${id}:`, error);
-    console.error(`[VideoJob] Error stack:`, error?.stack);
+    if (error instanceof JobReviewError) {
+      return res.status(error.code === "JOB_NOT_FOUND" ? 404 : 409).json({
+        success: false,
+        error: error.code,
+        message: error.message,
+      });
+    }
+    log.error(`Error deleting job ${id}`, { error });
     const errorMessage = error?.message || error?.toString() || "Неизвестная ошибка";
     res.status(500).json({
       success: false,
@@ -482,26 +1184,5 @@ router.delete("/:id", async (req: Request, res: Response) => {
   }
 });
 
-function deleteLocalFileSafe(filePath?: string): boolean {
-  if (!filePath) {
-    return false;
-  }
-
-  try {
-    const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(filePath);
-    if (!fs.existsSync(absolutePath)) {
-      console.log(`[VideoJob] ⚠️  File does not exist, skip delete: ${absolutePath}`);
-      return false;
-    }
-
-    fs.unlinkSync(absolutePath);
-    console.log(`[VideoJob] 🧹 Deleted file: ${absolutePath}`);
-    return true;
-  } catch (error) {
-    console.error(`[VideoJob] ⚠️  Failed to delete file ${filePath}:`, error);
-    return false;
-  }
-}
-
 export default router;
 
@@ -1,4 +1,7 @@
 import * as admin from "firebase-admin";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Firebase");
 
 let firebaseApp: admin.app.App | null = null;
 
@@ -37,10 +40,10 @@ export function initializeFirebase(): admin.app.App {
       credential: admin.credential.cert(serviceAccount as admin.ServiceAccount),
     });
 
-    console.log("[Firebase] ✅ Firebase Admin SDK инициализирован");
+    log.info("Firebase Admin SDK инициализирован");
     return firebaseApp;
   } catch (error: unknown) {
-    console.error("[Firebase] ❌ Ошибка инициализации Firebase:", error);
+    log.error("Ошибка инициализации Firebase", { error });
     throw error;
   }
 }
@@ -55,7 +58,7 @@ export function getFirestore(): admin.firestore.Firestore {
       initializeFirebase();
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error("[Firebase] ❌ Не удалось инициализировать Firebase:", errorMessage);
+      log.error("Не удалось инициализировать Firebase", { error });
       throw new Error(
         `Firebase не инициализирован. Проверьте переменные окружения FIREBASE_*. Ошибка: ${errorMessage}`
       );
@@ -1,5 +1,8 @@
 import { getFirestore } from "./admin";
-import { Channel } from "../models/channel";
+import { Channel, normalizeRetryPolicy, normalizeMaxActiveJobs } from "../models/channel";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Firebase");
 
 const COLLECTION_NAME = "channels";
 
@@ -23,18 +26,20 @@ export async function getAllChannels(): Promise<Channel[]> {
         ideaPromptTemplate: data.ideaPromptTemplate || "",
         videoPromptTemplate: data.videoPromptTemplate || "",
         gdriveFolderId: data.gdriveFolderId || null,
+        retryPolicy: normalizeRetryPolicy(data.retryPolicy),
+        maxActiveJobs: normalizeMaxActiveJobs(data.maxActiveJobs),
       } as Channel);
     });
 
-    console.log(`[Firebase] ✅ Получено ${channels.length} каналов`);
+    log.info(`Получено ${channels.length} каналов`);
     return channels;
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error("[Firebase] ❌ Error getting channels:", errorMessage);
+    log.error("Error getting channels", { error });
     
     // Если Firebase не настроен, возвращаем пустой массив вместо ошибки
     if (errorMessage.includes("Firebase не инициализирован") || errorMessage.includes("FIREBASE_")) {
-      console.warn("[Firebase] ⚠️  Firebase не настроен, возвращаем пустой массив каналов");
+      log.warn("Firebase не настроен, возвращаем пустой массив каналов");
       return [];
     }
     
@@ -59,7 +64,7 @@ export async function getChannelById(id: string): Promise<Channel | undefined> {
       ...doc.data(),
     } as Channel;
   } catch (error: unknown) {
-    console.error(`[Firebase] Error getting channel ${id}:`, error);
+    log.error(`Error getting channel ${id}`, { error });
     throw new Error(`Ошибка получения канала: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -80,12 +85,14 @@ export async function createChannel(channel: Channel): Promise<Channel> {
       ideaPromptTemplate: channel.ideaPromptTemplate,
       videoPromptTemplate: channel.videoPromptTemplate,
       gdriveFolderId: channel.gdriveFolderId || null,
+      retryPolicy: channel.retryPolicy || null,
+      maxActiveJobs: channel.maxActiveJobs || null,
     });
 
-    console.log(`[Firebase] ✅ Channel created: ${channel.id}`);
+    log.info(`Channel created: ${channel.id}`);
     return channel;
   } catch (error: unknown) {
-    console.error(`[Firebase] Error creating channel ${channel.id}:`, error);
+    log.error(`Error creating channel ${channel.id}`, { error });
     throw new Error(`Ошибка создания канала: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -114,7 +121,7 @@ export async function updateChannel(id: string, updates: Partial<Channel>): Prom
       ...updatedDoc.data(),
     } as Channel;
   } catch (error: unknown) {
-    console.error(`[Firebase] Error updating channel ${id}:`, error);
+    log.error(`Error updating channel ${id}`, { error });
     throw new Error(`Ошибка обновления канала: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -133,10 +140,10 @@ export async function deleteChannel(id: string): Promise<boolean> {
     }
 
     await channelRef.delete();
-    console.log(`[Firebase] ✅ Channel deleted: ${id}`);
+    log.info(`Channel deleted: ${id}`);
     return true;
   } catch (error: unknown) {
-    console.error(`[Firebase] Error deleting channel ${id}:`, error);
+    log.error(`Error deleting channel ${id}`, { error });
     throw new Error(`Ошибка удаления канала: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -1,5 +1,8 @@
 import { getFirestore } from "./admin";
 import * as admin from "firebase-admin";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("FCM");
 
 const FCM_TOKENS_COLLECTION = "fcmTokens";
 
@@ -18,9 +21,9 @@ export async function saveFCMToken(token: string, userId?: string): Promise<void
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
     }, { merge: true });
 
-    console.log(`[FCM] ✅ Token saved: ${token.substring(0, 20)}...`);
+    log.info(`Token saved: ${token.substring(0, 20)}...`);
   } catch (error: unknown) {
-    console.error(`[FCM] ❌ Error saving token:`, error);
+    log.error("Error saving token", { error });
     throw new Error(`Ошибка сохранения FCM токена: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -33,9 +36,9 @@ export async function deleteFCMToken(token: string): Promise<void> {
     const db = getFirestore();
     const tokenRef = db.collection(FCM_TOKENS_COLLECTION).doc(token);
     await tokenRef.delete();
-    console.log(`[FCM] ✅ Token deleted: ${token.substring(0, 20)}...`);
+    log.info(`Token deleted: ${token.substring(0, 20)}...`);
   } catch (error: unknown) {
-    console.error(`[FCM] ❌ Error deleting token:`, error);
+    log.error("Error deleting token", { error });
     throw new Error(`Ошибка удаления FCM токена: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -64,7 +67,7 @@ export async function getFCMTokens(userId?: string): Promise<string[]> {
 
     return tokens;
   } catch (error: unknown) {
-    console.error("[FCM] ❌ Error getting tokens:", error);
+    log.error("Error getting tokens", { error });
     throw new Error(`Ошибка получения FCM токенов: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -79,7 +82,7 @@ export async function sendFCMNotification(
   data?: Record<string, string>
 ): Promise<void> {
   if (tokens.length === 0) {
-    console.log("[FCM] No tokens to send notification");
+    log.info("No tokens to send notification");
     return;
   }
 
@@ -103,7 +106,7 @@ export async function sendFCMNotification(
 
     const response = await messaging.sendEachForMulticast(message);
     
-    console.log(`[FCM] ✅ Sent ${response.successCount} notifications, ${response.failureCount} failed`);
+    log.info(`Sent ${response.successCount} notifications, ${response.failureCount} failed`);
     
     // Удаляем невалидные токены
     if (response.failureCount > 0) {
@@ -123,12 +126,12 @@ export async function sendFCMNotification(
       // Удаляем невалидные токены из базы
       for (const token of invalidTokens) {
         await deleteFCMToken(token).catch((err) => {
-          console.error(`[FCM] Error deleting invalid token:`, err);
+          log.error("Error deleting invalid token", { error: err });
         });
       }
     }
   } catch (error: unknown) {
-    console.error("[FCM] ❌ Error sending notification:", error);
+    log.error("Error sending notification", { error });
     throw new Error(`Ошибка отправки FCM уведомления: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -141,7 +144,7 @@ export async function notifyVideoReady(jobId: string, videoTitle: string, userId
     const tokens = await getFCMTokens(userId);
     
     if (tokens.length === 0) {
-      console.log(`[FCM] No tokens found for video ready notification (jobId: ${jobId})`);
+      log.info(`No tokens found for video ready notification (jobId: ${jobId})`);
       return;
     }
 
@@ -154,9 +157,9 @@ export async function notifyVideoReady(jobId: string, videoTitle: string, userId
       link: `/video-jobs/${jobId}`,
     });
 
-    console.log(`[FCM] ✅ Video ready notification sent for job ${jobId}`);
+    log.info(`Video ready notification sent for job ${jobId}`);
   } catch (error: unknown) {
-    console.error(`[FCM] ❌ Error sending video ready notification:`, error);
+    log.error("Error sending video ready notification", { error });
     // Не пробрасываем ошибку, чтобы не ломать основной процесс
   }
 }
@@ -0,0 +1,108 @@
+import { getFirestore } from "./admin";
+import { IdempotencyBeginResult, IdempotencyRecord, resolveIdempotentRequest } from "../models/idempotencyKey";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Firebase");
+
+const COLLECTION_NAME = "idempotencyKeys";
+
+// Сколько документов удаляется за один батч при очистке
+const PURGE_BATCH_SIZE = 400;
+
+/**
+ * Занять ключ идемпотентности в транзакции.
+ * Если ключ уже есть и не истёк - возвращает сохранённый ответ, признак незавершённого запроса
+ * или несовпадение тела запроса (см. resolveIdempotentRequest).
+ */
+export async function beginIdempotentRequest(
+  id: string,
+  record: IdempotencyRecord,
+  inProgressTimeoutMs: number
+): Promise<IdempotencyBeginResult> {
+  const db = getFirestore();
+  const docRef = db.collection(COLLECTION_NAME).doc(id);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      const existing = doc.exists ? (doc.data() as IdempotencyRecord) : undefined;
+      const result = resolveIdempotentRequest(existing, record.requestHash, Date.now(), inProgressTimeoutMs);
+
+      if (result.type === "started") {
+        transaction.set(docRef, record);
+      }
+      return result;
+    });
+  } catch (error: unknown) {
+    log.error(`Error acquiring idempotency key ${record.key}`, { error });
+    throw new Error(`Ошибка проверки ключа идемпотентности: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Сохранить ответ для ключа
+ */
+export async function completeIdempotentRequest(
+  id: string,
+  responseStatus: number,
+  responseBody: string
+): Promise<void> {
+  try {
+    const db = getFirestore();
+    await db.collection(COLLECTION_NAME).doc(id).update({
+      state: "completed",
+      responseStatus,
+      responseBody,
+    });
+  } catch (error: unknown) {
+    log.error(`Error saving idempotent response ${id}`, { error });
+    throw new Error(`Ошибка сохранения ответа: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Освободить ключ, чтобы запрос можно было повторить (например, после ошибки сервера)
+ */
+export async function releaseIdempotentRequest(id: string): Promise<void> {
+  try {
+    const db = getFirestore();
+    await db.collection(COLLECTION_NAME).doc(id).delete();
+  } catch (error: unknown) {
+    log.error(`Error releasing idempotency key ${id}`, { error });
+    throw new Error(`Ошибка освобождения ключа: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Удалить истёкшие ключи. Возвращает количество удалённых документов.
+ */
+export async function purgeExpiredIdempotencyKeys(now: number = Date.now()): Promise<number> {
+  try {
+    const db = getFirestore();
+    let deleted = 0;
+    let lastBatchSize = 0;
+
+    do {
+      const snapshot = await db
+        .collection(COLLECTION_NAME)
+        .where("expiresAt", "<=", now)
+        .limit(PURGE_BATCH_SIZE)
+        .get();
+
+      lastBatchSize = snapshot.size;
+      if (snapshot.empty) {
+        break;
+      }
+
+      const batch = db.batch();
+      snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+      deleted += snapshot.size;
+    } while (lastBatchSize === PURGE_BATCH_SIZE);
+
+    return deleted;
+  } catch (error: unknown) {
+    log.error("Error purging idempotency keys", { error });
+    throw new Error(`Ошибка очистки ключей идемпотентности: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
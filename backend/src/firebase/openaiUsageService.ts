@@ -0,0 +1,48 @@
+import { getFirestore } from "./admin";
+import { OpenAIUsageRecord } from "../models/openaiUsage";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Firebase");
+
+const COLLECTION_NAME = "openaiUsage";
+
+/**
+ * Сохранить запись об одном вызове OpenAI
+ */
+export async function createUsageRecord(record: Omit<OpenAIUsageRecord, "id">): Promise<OpenAIUsageRecord> {
+  try {
+    const db = getFirestore();
+    const docRef = await db.collection(COLLECTION_NAME).add(record);
+    return { id: docRef.id, ...record };
+  } catch (error: unknown) {
+    log.error("Error creating OpenAI usage record", { error });
+    throw new Error(`Ошибка сохранения расхода OpenAI: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Получить все вызовы за месяц (YYYY-MM)
+ */
+export async function getUsageByMonth(month: string): Promise<OpenAIUsageRecord[]> {
+  try {
+    const db = getFirestore();
+    const snapshot = await db.collection(COLLECTION_NAME).where("month", "==", month).get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as OpenAIUsageRecord);
+  } catch (error: unknown) {
+    log.error(`Error getting OpenAI usage for ${month}`, { error });
+    throw new Error(`Ошибка получения расходов OpenAI: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Привязать вызов к задаче, созданной уже после него (промпт пакета генерируется до создания задачи)
+ */
+export async function assignUsageToJob(id: string, jobId: string): Promise<void> {
+  try {
+    const db = getFirestore();
+    await db.collection(COLLECTION_NAME).doc(id).update({ jobId });
+  } catch (error: unknown) {
+    log.error(`Error assigning OpenAI usage ${id} to job`, { error, jobId });
+    throw new Error(`Ошибка привязки расхода OpenAI к задаче: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
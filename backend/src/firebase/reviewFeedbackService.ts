@@ -0,0 +1,36 @@
+import { getFirestore } from "./admin";
+import { ReviewFeedbackRecord } from "../models/reviewFeedback";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Firebase");
+
+const COLLECTION_NAME = "reviewFeedback";
+
+/**
+ * Сохранить оценку задачи (документ перезаписывается при каждом изменении оценки)
+ */
+export async function saveReviewFeedbackRecord(record: ReviewFeedbackRecord): Promise<ReviewFeedbackRecord> {
+  try {
+    const db = getFirestore();
+    const { id, ...data } = record;
+    await db.collection(COLLECTION_NAME).doc(id).set(data);
+    return record;
+  } catch (error: unknown) {
+    log.error(`Error saving review feedback for job ${record.jobId}`, { error, jobId: record.jobId });
+    throw new Error(`Ошибка сохранения оценки видео: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Получить оценки, поставленные начиная с момента since (мс)
+ */
+export async function getReviewFeedbackSince(since: number): Promise<ReviewFeedbackRecord[]> {
+  try {
+    const db = getFirestore();
+    const snapshot = await db.collection(COLLECTION_NAME).where("reviewedAt", ">=", since).get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as ReviewFeedbackRecord);
+  } catch (error: unknown) {
+    log.error("Error getting review feedback", { error });
+    throw new Error(`Ошибка получения оценок видео: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -1,5 +1,8 @@
 import { getFirestore } from "./admin";
 import { MatchingMethod } from "../models/videoJob";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("SyntxAssignments");
 
 const COLLECTION_NAME = "syntaxMessageAssignments";
 
@@ -39,12 +42,10 @@ export async function reserveSyntaxMessageId(
     ) {
       const existing = await docRef.get();
       const existingJob = existing.exists ? existing.data()?.jobId : "unknown";
-      console.warn(
-        `[SyntxAssignments] messageId=${messageId} уже зарезервирован (jobId=${existingJob})`
-      );
+      log.warn(`messageId=${messageId} уже зарезервирован (jobId=${existingJob})`);
       return false;
     }
-    console.error("[SyntxAssignments] Ошибка при резервировании messageId:", error);
+    log.error("Ошибка при резервировании messageId", { error });
     throw error;
   }
 }
@@ -62,7 +63,7 @@ export async function getAllReservedSyntaxMessageIds(): Promise<Set<number>> {
       ids.add(numericId);
     }
   });
-  console.log(`[SyntxAssignments] Загружено ${ids.size} резервов messageId`);
+  log.info(`Загружено ${ids.size} резервов messageId`);
   return ids;
 }
 
@@ -0,0 +1,93 @@
+import { getFirestore } from "./admin";
+import { VideoJobBatch } from "../models/videoJobBatch";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Firebase");
+
+const COLLECTION_NAME = "videoJobBatches";
+
+/**
+ * Создать пакет задач в Firestore
+ */
+export async function createBatch(batch: VideoJobBatch): Promise<VideoJobBatch> {
+  try {
+    const db = getFirestore();
+    await db.collection(COLLECTION_NAME).doc(batch.id).set({
+      channelId: batch.channelId,
+      channelName: batch.channelName,
+      items: batch.items,
+      scheduledAt: batch.scheduledAt || null,
+      createdAt: batch.createdAt,
+      updatedAt: batch.updatedAt,
+    });
+
+    log.info(`VideoJobBatch created: ${batch.id} (${batch.items.length} items)`);
+    return batch;
+  } catch (error: unknown) {
+    log.error(`Error creating batch ${batch.id}`, { error });
+    throw new Error(`Ошибка создания пакета задач: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Получить пакет по ID
+ */
+export async function getBatch(id: string): Promise<VideoJobBatch | undefined> {
+  try {
+    const db = getFirestore();
+    const doc = await db.collection(COLLECTION_NAME).doc(id).get();
+
+    if (!doc.exists) {
+      return undefined;
+    }
+
+    return {
+      id: doc.id,
+      ...doc.data(),
+    } as VideoJobBatch;
+  } catch (error: unknown) {
+    log.error(`Error getting batch ${id}`, { error });
+    throw new Error(`Ошибка получения пакета задач: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Обновить пакет в Firestore
+ */
+export async function updateBatch(id: string, updates: Partial<VideoJobBatch>): Promise<void> {
+  try {
+    const db = getFirestore();
+    const { id: _, ...updateData } = updates as any;
+    updateData.updatedAt = Date.now();
+    await db.collection(COLLECTION_NAME).doc(id).update(updateData);
+  } catch (error: unknown) {
+    log.error(`Error updating batch ${id}`, { error });
+    throw new Error(`Ошибка обновления пакета задач: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Получить пакеты, в которых остались необработанные идеи
+ */
+export async function getUnfinishedBatches(): Promise<VideoJobBatch[]> {
+  try {
+    const db = getFirestore();
+    const snapshot = await db.collection(COLLECTION_NAME).get();
+    const batches: VideoJobBatch[] = [];
+
+    snapshot.forEach((doc) => {
+      const batch = { id: doc.id, ...doc.data() } as VideoJobBatch;
+      const hasUnfinished = (batch.items || []).some(
+        (item) => item.status === "pending" || item.status === "generating_prompt"
+      );
+      if (hasUnfinished) {
+        batches.push(batch);
+      }
+    });
+
+    return batches;
+  } catch (error: unknown) {
+    log.error("Error getting unfinished batches", { error });
+    throw new Error(`Ошибка получения пакетов задач: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
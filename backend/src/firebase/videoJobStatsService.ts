@@ -0,0 +1,102 @@
+import * as admin from "firebase-admin";
+import { getFirestore } from "./admin";
+import {
+  VideoJobDailyStats,
+  JobOutcome,
+  PipelineStage,
+  STAGE_DURATION_BUCKETS_SECONDS,
+  getStatsDay,
+} from "../models/videoJobStats";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Firebase");
+
+const COLLECTION_NAME = "videoJobStats";
+
+/**
+ * Запись в транзакции или батче: счётчики обновляются вместе с задачей
+ */
+interface StatsWriter {
+  set(
+    documentRef: FirebaseFirestore.DocumentReference,
+    data: FirebaseFirestore.DocumentData,
+    options: FirebaseFirestore.SetOptions
+  ): unknown;
+}
+
+export interface JobStatsEntry {
+  channelId: string | null;
+  channelName: string | null;
+  timestamp: number;
+  outcome?: JobOutcome | null;
+  stage?: { name: PipelineStage; durationMs: number } | null;
+}
+
+function getBucketKey(durationMs: number): string | null {
+  const seconds = durationMs / 1000;
+  const bound = STAGE_DURATION_BUCKETS_SECONDS.find((limit) => seconds <= limit);
+  return bound === undefined ? null : String(bound);
+}
+
+/**
+ * Добавить исход и/или длительность этапа в дневные счётчики канала.
+ * Пишется через переданную транзакцию или батч, поэтому счётчики не расходятся со статусом задачи.
+ */
+export function recordJobStats(writer: StatsWriter, entry: JobStatsEntry): void {
+  if (!entry.outcome && !entry.stage) {
+    return;
+  }
+
+  const db = getFirestore();
+  const day = getStatsDay(entry.timestamp);
+  const statsRef = db.collection(COLLECTION_NAME).doc(`${day}_${entry.channelId || "none"}`);
+  const increment = admin.firestore.FieldValue.increment;
+
+  const data: FirebaseFirestore.DocumentData = {
+    day,
+    channelId: entry.channelId,
+    channelName: entry.channelName,
+    updatedAt: entry.timestamp,
+  };
+  if (entry.outcome) {
+    data.counts = { [entry.outcome]: increment(1) };
+  }
+  if (entry.stage) {
+    const durationMs = Math.max(0, Math.round(entry.stage.durationMs));
+    const bucketKey = getBucketKey(durationMs);
+    data.stages = {
+      [entry.stage.name]: {
+        count: increment(1),
+        totalMs: increment(durationMs),
+        // Длительности дольше последней границы попадают только в count
+        ...(bucketKey ? { buckets: { [bucketKey]: increment(1) } } : {}),
+      },
+    };
+  }
+
+  writer.set(statsRef, data, { merge: true });
+}
+
+/**
+ * Получить дневные счётчики за период (дни YYYY-MM-DD включительно; без границ - за всё время)
+ */
+export async function getDailyStats(fromDay?: string, toDay?: string): Promise<VideoJobDailyStats[]> {
+  try {
+    const db = getFirestore();
+    let query: FirebaseFirestore.Query = db.collection(COLLECTION_NAME);
+    if (fromDay) {
+      query = query.where("day", ">=", fromDay);
+    }
+    if (toDay) {
+      query = query.where("day", "<=", toDay);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs
+      .map((doc) => ({ id: doc.id, counts: {}, stages: {}, ...doc.data() }) as VideoJobDailyStats)
+      .sort((a, b) => a.day.localeCompare(b.day));
+  } catch (error: unknown) {
+    log.error("Error getting video job stats", { error });
+    throw new Error(`Ошибка получения статистики задач: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
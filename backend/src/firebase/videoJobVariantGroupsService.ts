@@ -0,0 +1,144 @@
+import { getFirestore } from "./admin";
+import { VideoJobVariantGroup, VariantGroupDecidedError } from "../models/videoJobVariantGroup";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Firebase");
+
+const COLLECTION_NAME = "videoJobVariantGroups";
+
+/**
+ * Создать группу дублей в Firestore
+ */
+export async function createVariantGroup(group: VideoJobVariantGroup): Promise<VideoJobVariantGroup> {
+  try {
+    const db = getFirestore();
+    await db.collection(COLLECTION_NAME).doc(group.id).set({
+      channelId: group.channelId || null,
+      jobIds: group.jobIds,
+      variantCount: group.variantCount,
+      winnerJobId: group.winnerJobId || null,
+      winnerIndex: group.winnerIndex || null,
+      decidedAt: group.decidedAt || null,
+      createdAt: group.createdAt,
+      updatedAt: group.updatedAt,
+    });
+
+    log.info(`VideoJobVariantGroup created: ${group.id} (${group.variantCount} variants)`);
+    return group;
+  } catch (error: unknown) {
+    log.error(`Error creating variant group ${group.id}`, { error });
+    throw new Error(`Ошибка создания группы дублей: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Получить группу дублей по ID
+ */
+export async function getVariantGroup(id: string): Promise<VideoJobVariantGroup | undefined> {
+  try {
+    const db = getFirestore();
+    const doc = await db.collection(COLLECTION_NAME).doc(id).get();
+
+    if (!doc.exists) {
+      return undefined;
+    }
+
+    return {
+      id: doc.id,
+      ...doc.data(),
+    } as VideoJobVariantGroup;
+  } catch (error: unknown) {
+    log.error(`Error getting variant group ${id}`, { error });
+    throw new Error(`Ошибка получения группы дублей: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Отметить дубль победителем группы.
+ * Транзакция не даст одобрить два дубля одной группы одновременно.
+ * Возвращает true, если победитель записан этим вызовом (false - задача уже была победителем).
+ */
+export async function claimVariantWinner(groupId: string, jobId: string, variantIndex: number): Promise<boolean> {
+  const db = getFirestore();
+  const groupRef = db.collection(COLLECTION_NAME).doc(groupId);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(groupRef);
+      if (!doc.exists) {
+        throw new Error(`Группа дублей ${groupId} не найдена`);
+      }
+
+      const winnerJobId = doc.get("winnerJobId") as string | null;
+      if (winnerJobId === jobId) {
+        return false;
+      }
+      if (winnerJobId) {
+        throw new VariantGroupDecidedError(groupId, winnerJobId);
+      }
+
+      const now = Date.now();
+      transaction.update(groupRef, {
+        winnerJobId: jobId,
+        winnerIndex: variantIndex,
+        decidedAt: now,
+        updatedAt: now,
+      });
+      return true;
+    });
+  } catch (error: unknown) {
+    if (error instanceof VariantGroupDecidedError) {
+      log.warn(error.message);
+      throw error;
+    }
+    log.error(`Error claiming winner for variant group ${groupId}`, { error });
+    throw new Error(`Ошибка выбора дубля: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Снять отметку победителя, если одобрение дубля не состоялось
+ */
+export async function releaseVariantWinner(groupId: string, jobId: string): Promise<void> {
+  const db = getFirestore();
+  const groupRef = db.collection(COLLECTION_NAME).doc(groupId);
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(groupRef);
+      if (!doc.exists || doc.get("winnerJobId") !== jobId) {
+        return;
+      }
+      transaction.update(groupRef, {
+        winnerJobId: null,
+        winnerIndex: null,
+        decidedAt: null,
+        updatedAt: Date.now(),
+      });
+    });
+  } catch (error: unknown) {
+    log.error(`Error releasing winner for variant group ${groupId}`, { error });
+    throw new Error(`Ошибка отмены выбора дубля: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Получить группы, в которых уже выбран дубль (по возрастанию времени выбора)
+ */
+export async function getDecidedVariantGroups(channelId?: string): Promise<VideoJobVariantGroup[]> {
+  try {
+    const db = getFirestore();
+    const snapshot = await db
+      .collection(COLLECTION_NAME)
+      .where("decidedAt", ">", 0)
+      .orderBy("decidedAt", "asc")
+      .get();
+
+    const groups = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as VideoJobVariantGroup);
+    // Фильтр по каналу в памяти, чтобы не требовался составной индекс
+    return channelId ? groups.filter((group) => group.channelId === channelId) : groups;
+  } catch (error: unknown) {
+    log.error("Error getting decided variant groups", { error });
+    throw new Error(`Ошибка получения групп дублей: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -1,7 +1,40 @@
+import * as admin from "firebase-admin";
 import { getFirestore } from "./admin";
-import { VideoJob, VideoJobStatus } from "../models/videoJob";
+import {
+  VideoJob,
+  VideoJobStatus,
+  VideoJobEvent,
+  UpdateJobOptions,
+  canTransitionStatus,
+  InvalidStatusTransitionError,
+  InvalidJobsCursorError,
+  ListJobsParams,
+  ListJobsPage,
+  VISIBLE_JOB_STATUSES,
+} from "../models/videoJob";
+import { OUTCOME_BY_STATUS, getCompletedStage } from "../models/videoJobStats";
+import { recordJobStats } from "./videoJobStatsService";
+import { publishVideoJobChange } from "../services/videoJobChanges";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Firebase");
 
 const COLLECTION_NAME = "videoJobs";
+const EVENTS_SUBCOLLECTION = "events";
+
+function buildEventData(
+  previousStatus: VideoJobStatus | null,
+  newStatus: VideoJobStatus,
+  message: string | null | undefined,
+  timestamp: number
+): Omit<VideoJobEvent, "id"> {
+  return {
+    timestamp,
+    previousStatus,
+    newStatus,
+    message: message || null,
+  };
+}
 
 /**
  * Создать задачу в Firestore
@@ -10,8 +43,9 @@ export async function createJob(job: VideoJob): Promise<VideoJob> {
   try {
     const db = getFirestore();
     const jobRef = db.collection(COLLECTION_NAME).doc(job.id);
+    const batch = db.batch();
     
-    await jobRef.set({
+    batch.set(jobRef, {
       prompt: job.prompt,
       channelId: job.channelId || null,
       channelName: job.channelName || null,
@@ -21,7 +55,10 @@ export async function createJob(job: VideoJob): Promise<VideoJob> {
       previewPath: job.previewPath || null,
       thumbnailPath: job.thumbnailPath || null,
       storagePaths: job.storagePaths || null,
+      localFilesPurgedAt: job.localFilesPurgedAt || null,
+      localFileMissingAt: job.localFileMissingAt || null,
       status: job.status,
+      statusChangedAt: job.statusChangedAt || job.createdAt,
       driveFileId: job.driveFileId || null,
       webViewLink: job.webViewLink || null,
       webContentLink: job.webContentLink || null,
@@ -31,14 +68,43 @@ export async function createJob(job: VideoJob): Promise<VideoJob> {
       jobId: job.jobId,
       matchingMethod: job.matchingMethod || null,
       debugLogs: job.debugLogs || null,
+      attempts: job.attempts || [],
+      nextRetryAt: job.nextRetryAt || null,
+      scheduledAt: job.scheduledAt || null,
+      queuedAt: job.queuedAt || null,
+      batchId: job.batchId || null,
+      batchItemIndex: job.batchItemIndex ?? null,
+      requestId: job.requestId || null,
+      parentJobId: job.parentJobId || null,
+      rootJobId: job.rootJobId || null,
+      variantGroupId: job.variantGroupId || null,
+      variantIndex: job.variantIndex || null,
+      variantCount: job.variantCount || null,
+      trashedAt: job.trashedAt || null,
+      trashedFromStatus: job.trashedFromStatus || null,
+      trashReason: job.trashReason || null,
+      review: job.review || null,
       createdAt: job.createdAt,
       updatedAt: job.updatedAt,
     });
+    // Первое событие таймлайна - создание задачи
+    batch.set(
+      jobRef.collection(EVENTS_SUBCOLLECTION).doc(),
+      buildEventData(null, job.status, null, job.createdAt)
+    );
+    recordJobStats(batch, {
+      channelId: job.channelId || null,
+      channelName: job.channelName || null,
+      timestamp: job.createdAt,
+      outcome: "created",
+    });
+    await batch.commit();
 
-    console.log(`[Firebase] ✅ VideoJob created: ${job.id}`);
+    log.info(`VideoJob created: ${job.id}`, { jobId: job.id, channelId: job.channelId });
+    publishVideoJobChange({ type: "created", jobId: job.id, channelId: job.channelId || null, job });
     return job;
   } catch (error: unknown) {
-    console.error(`[Firebase] Error creating job ${job.id}:`, error);
+    log.error(`Error creating job ${job.id}`, { jobId: job.id, error });
     throw new Error(`Ошибка создания задачи: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -62,24 +128,24 @@ export async function getJob(id: string): Promise<VideoJob | undefined> {
     job.jobId = job.jobId || doc.id;
     return job;
   } catch (error: unknown) {
-    console.error(`[Firebase] Error getting job ${id}:`, error);
+    log.error(`Error getting job ${id}`, { jobId: id, error });
     throw new Error(`Ошибка получения задачи: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
 /**
- * Обновить задачу в Firestore
+ * Обновить задачу в Firestore.
+ * Смена статуса проверяется по таблице допустимых переходов и выполняется в транзакции
+ * вместе с записью события в таймлайн; при недопустимом переходе бросается InvalidStatusTransitionError.
  */
-export async function updateJob(id: string, updates: Partial<VideoJob>): Promise<VideoJob | null> {
+export async function updateJob(
+  id: string,
+  updates: Partial<VideoJob>,
+  options: UpdateJobOptions = {}
+): Promise<VideoJob | null> {
   try {
     const db = getFirestore();
     const jobRef = db.collection(COLLECTION_NAME).doc(id);
-    
-    const doc = await jobRef.get();
-    if (!doc.exists) {
-      console.error(`[Firebase] Job ${id} does not exist in Firestore`);
-      return null;
-    }
 
     // Удаляем id из updates, если он там есть
     const { id: _, ...updateData } = updates as any;
@@ -91,11 +157,65 @@ export async function updateJob(id: string, updates: Partial<VideoJob>): Promise
       }
     }
     
-    updateData.updatedAt = Date.now();
-    
-    console.log(`[Firebase] Updating job ${id} with data:`, JSON.stringify(updateData, null, 2));
-    
-    await jobRef.update(updateData);
+    log.debug(`Updating job ${id}`, { jobId: id, updates: updateData });
+
+    const exists = await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(jobRef);
+      if (!doc.exists) {
+        return false;
+      }
+
+      const previousStatus = doc.data()?.status as VideoJobStatus;
+      const nextStatus = (updateData.status as VideoJobStatus | undefined) || previousStatus;
+
+      if (options.expectedStatus && !options.expectedStatus.includes(previousStatus)) {
+        throw new InvalidStatusTransitionError(id, previousStatus, nextStatus);
+      }
+      if (!canTransitionStatus(previousStatus, nextStatus)) {
+        throw new InvalidStatusTransitionError(id, previousStatus, nextStatus);
+      }
+
+      updateData.updatedAt = Date.now();
+      const statusChanged = nextStatus !== previousStatus;
+      if (statusChanged) {
+        updateData.statusChangedAt = updateData.updatedAt;
+      }
+      transaction.update(jobRef, updateData);
+
+      // При смене статуса записываем событие в таймлайн и счётчики статистики в той же транзакции
+      if (statusChanged) {
+        transaction.set(
+          jobRef.collection(EVENTS_SUBCOLLECTION).doc(),
+          buildEventData(
+            previousStatus || null,
+            nextStatus,
+            options.eventMessage || updateData.errorMessage,
+            updateData.updatedAt
+          )
+        );
+
+        // У задач, созданных до появления statusChangedAt, длительность первого этапа неизвестна
+        const stageStartedAt = doc.get("statusChangedAt") as number | null | undefined;
+        const completedStage = getCompletedStage(previousStatus, nextStatus);
+        // Восстановление из корзины возвращает прежний статус, исход уже был учтён
+        const outcome = previousStatus === "trashed" ? null : OUTCOME_BY_STATUS[nextStatus] || null;
+        recordJobStats(transaction, {
+          channelId: (doc.get("channelId") as string | null) || null,
+          channelName: (doc.get("channelName") as string | null) || null,
+          timestamp: updateData.updatedAt,
+          outcome,
+          stage: completedStage && stageStartedAt
+            ? { name: completedStage, durationMs: updateData.updatedAt - stageStartedAt }
+            : null,
+        });
+      }
+      return true;
+    });
+
+    if (!exists) {
+      log.error(`Job ${id} does not exist in Firestore`, { jobId: id });
+      return null;
+    }
 
     const updatedDoc = await jobRef.get();
     const updatedJob = {
@@ -104,18 +224,137 @@ export async function updateJob(id: string, updates: Partial<VideoJob>): Promise
     } as VideoJob;
     updatedJob.jobId = updatedJob.jobId || updatedDoc.id;
     
-    console.log(`[Firebase] ✅ Job ${id} updated successfully, new status: ${updatedJob.status}`);
+    log.info(`Job ${id} updated successfully, new status: ${updatedJob.status}`, {
+      jobId: id,
+      channelId: updatedJob.channelId,
+      status: updatedJob.status,
+    });
+    publishVideoJobChange({ type: "updated", jobId: id, channelId: updatedJob.channelId || null, job: updatedJob });
     return updatedJob;
   } catch (error: unknown) {
-    console.error(`[Firebase] ❌ Error updating job ${id}:`, error);
-    if (error instanceof Error) {
-      console.error(`[Firebase] Error message: ${error.message}`);
-      console.error(`[Firebase] Error stack: ${error.stack}`);
+    if (error instanceof InvalidStatusTransitionError) {
+      log.warn(`Job ${id}: ${error.message}`, { jobId: id });
+      throw error;
     }
+    log.error(`Error updating job ${id}`, { jobId: id, error });
     throw new Error(`Ошибка обновления задачи: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Получить события смены статуса задачи (в хронологическом порядке)
+ */
+export async function getJobEvents(id: string): Promise<VideoJobEvent[]> {
+  try {
+    const db = getFirestore();
+    const snapshot = await db
+      .collection(COLLECTION_NAME)
+      .doc(id)
+      .collection(EVENTS_SUBCOLLECTION)
+      .orderBy("timestamp", "asc")
+      .get();
+
+    return snapshot.docs.map((eventDoc) => ({
+      id: eventDoc.id,
+      ...eventDoc.data(),
+    }) as VideoJobEvent);
+  } catch (error: unknown) {
+    log.error(`Error getting events for job ${id}`, { jobId: id, error });
+    throw new Error(`Ошибка получения событий задачи: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Получить цепочку повторных генераций: первую задачу и все созданные из неё (по возрастанию createdAt).
+ * Удалённые (например, отклонённые) попытки в цепочку не попадают.
+ */
+export async function getJobChain(rootJobId: string): Promise<VideoJob[]> {
+  try {
+    const db = getFirestore();
+    const [rootDoc, snapshot] = await Promise.all([
+      db.collection(COLLECTION_NAME).doc(rootJobId).get(),
+      db.collection(COLLECTION_NAME).where("rootJobId", "==", rootJobId).get(),
+    ]);
+
+    const docs = rootDoc.exists ? [rootDoc, ...snapshot.docs] : snapshot.docs;
+    return docs
+      .map((doc) => {
+        const job = { id: doc.id, ...doc.data() } as VideoJob;
+        job.jobId = job.jobId || doc.id;
+        return job;
+      })
+      .sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error: unknown) {
+    log.error(`Error getting job chain ${rootJobId}`, { error });
+    throw new Error(`Ошибка получения цепочки задач: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Получить дубли одной группы (по возрастанию номера дубля)
+ */
+export async function getJobsByVariantGroup(variantGroupId: string): Promise<VideoJob[]> {
+  try {
+    const db = getFirestore();
+    const snapshot = await db.collection(COLLECTION_NAME).where("variantGroupId", "==", variantGroupId).get();
+
+    return snapshot.docs
+      .map((doc) => {
+        const job = { id: doc.id, ...doc.data() } as VideoJob;
+        job.jobId = job.jobId || doc.id;
+        return job;
+      })
+      .sort((a, b) => (a.variantIndex || 0) - (b.variantIndex || 0));
+  } catch (error: unknown) {
+    log.error(`Error getting jobs for variant group ${variantGroupId}`, { error });
+    throw new Error(`Ошибка получения дублей: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Получить задачи пакета
+ */
+export async function getJobsByBatch(batchId: string): Promise<VideoJob[]> {
+  try {
+    const db = getFirestore();
+    const snapshot = await db.collection(COLLECTION_NAME).where("batchId", "==", batchId).get();
+
+    return snapshot.docs.map((doc) => {
+      const job = { id: doc.id, ...doc.data() } as VideoJob;
+      job.jobId = job.jobId || doc.id;
+      return job;
+    });
+  } catch (error: unknown) {
+    log.error(`Error getting jobs for batch ${batchId}`, { error });
+    throw new Error(`Ошибка получения задач пакета: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Получить задачи в корзине (удалённые раньше всех - первыми)
+ */
+export async function getTrashedJobs(channelId?: string): Promise<VideoJob[]> {
+  try {
+    const db = getFirestore();
+    const snapshot = await db.collection(COLLECTION_NAME).where("status", "==", "trashed").get();
+    return snapshot.docs
+      .map((doc) => {
+        const job = {
+          id: doc.id,
+          ...doc.data(),
+        } as VideoJob;
+        job.jobId = job.jobId || doc.id;
+        return job;
+      })
+      // Фильтр по каналу в памяти, чтобы не требовался составной индекс
+      .filter((job) => !channelId || job.channelId === channelId)
+      .sort((a, b) => (a.trashedAt || a.updatedAt) - (b.trashedAt || b.updatedAt));
+  } catch (error: unknown) {
+    log.error("Error getting trashed jobs", { error });
+    throw new Error(`Ошибка получения корзины: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Удалить задачу из Firestore
  */
@@ -130,10 +369,11 @@ export async function deleteJob(id: string): Promise<boolean> {
     }
 
     await jobRef.delete();
-    console.log(`[Firebase] ✅ VideoJob deleted: ${id}`);
+    log.info(`VideoJob deleted: ${id}`, { jobId: id });
+    publishVideoJobChange({ type: "deleted", jobId: id, channelId: doc.data()?.channelId || null, job: null });
     return true;
   } catch (error: unknown) {
-    console.error(`[Firebase] Error deleting job ${id}:`, error);
+    log.error(`Error deleting job ${id}`, { jobId: id, error });
     throw new Error(`Ошибка удаления задачи: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -159,15 +399,16 @@ export async function deleteJobCascade(id: string): Promise<boolean> {
     const doc = await jobRef.get();
 
     if (!doc.exists) {
-      console.warn(`[Firebase] deleteJobCascade: job ${id} not found`);
+      log.warn(`deleteJobCascade: job ${id} not found`, { jobId: id });
       return false;
     }
 
     await deleteDocumentRecursive(jobRef);
-    console.log(`[Firebase] 🗑️ VideoJob ${id} and all nested data deleted`);
+    publishVideoJobChange({ type: "deleted", jobId: id, channelId: doc.data()?.channelId || null, job: null });
+    log.info(`VideoJob ${id} and all nested data deleted`, { jobId: id });
     return true;
   } catch (error: unknown) {
-    console.error(`[Firebase] Error cascading delete for job ${id}:`, error);
+    log.error(`Error cascading delete for job ${id}`, { jobId: id, error });
     throw new Error(`Ошибка каскадного удаления задачи: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -198,7 +439,83 @@ export async function getAllJobs(channelId?: string): Promise<VideoJob[]> {
 
     return jobs;
   } catch (error: unknown) {
-    console.error("[Firebase] Error getting jobs:", error);
+    log.error("Error getting jobs", { error });
+    throw new Error(`Ошибка получения задач: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Курсор страницы: значение поля сортировки и ID последней задачи (для стабильного порядка при равных значениях)
+ */
+function encodeJobsCursor(sortValue: number, id: string): string {
+  return Buffer.from(JSON.stringify([sortValue, id])).toString("base64url");
+}
+
+function decodeJobsCursor(cursor: string): [number, string] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(decoded) && typeof decoded[0] === "number" && typeof decoded[1] === "string") {
+      return [decoded[0], decoded[1]];
+    }
+  } catch {
+    // обработаем ниже
+  }
+  throw new InvalidJobsCursorError();
+}
+
+/**
+ * Получить страницу задач с фильтрами и сортировкой.
+ * Пагинация курсорная (orderBy + startAfter), поэтому для комбинаций фильтров нужны составные индексы Firestore.
+ */
+export async function listJobs(params: ListJobsParams): Promise<ListJobsPage> {
+  const cursorValues = params.cursor ? decodeJobsCursor(params.cursor) : null;
+
+  try {
+    const db = getFirestore();
+    let query: FirebaseFirestore.Query = db.collection(COLLECTION_NAME);
+
+    if (params.channelId) {
+      query = query.where("channelId", "==", params.channelId);
+    }
+    // Без фильтра по статусу задачи из корзины не показываются
+    const statuses = params.statuses && params.statuses.length > 0 ? params.statuses : VISIBLE_JOB_STATUSES;
+    query = statuses.length === 1
+      ? query.where("status", "==", statuses[0])
+      : query.where("status", "in", statuses);
+    if (params.createdFrom !== undefined) {
+      query = query.where("createdAt", ">=", params.createdFrom);
+    }
+    if (params.createdTo !== undefined) {
+      query = query.where("createdAt", "<=", params.createdTo);
+    }
+
+    query = query
+      .orderBy(params.sortBy, params.sortOrder)
+      .orderBy(admin.firestore.FieldPath.documentId(), params.sortOrder);
+
+    if (cursorValues) {
+      query = query.startAfter(cursorValues[0], cursorValues[1]);
+    }
+
+    // Берём на одну задачу больше, чтобы понять, есть ли следующая страница
+    const snapshot = await query.limit(params.limit + 1).get();
+    const jobs = snapshot.docs.slice(0, params.limit).map((doc) => {
+      const job = {
+        id: doc.id,
+        ...doc.data(),
+      } as VideoJob;
+      job.jobId = job.jobId || doc.id;
+      return job;
+    });
+
+    const lastJob = jobs[jobs.length - 1];
+    const nextCursor = snapshot.docs.length > params.limit && lastJob
+      ? encodeJobsCursor(lastJob[params.sortBy], lastJob.id)
+      : null;
+
+    return { jobs, nextCursor };
+  } catch (error: unknown) {
+    log.error("Error listing jobs", { error });
     throw new Error(`Ошибка получения задач: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -212,6 +529,88 @@ export async function getActiveJobs(channelId?: string): Promise<VideoJob[]> {
   return jobs.filter(job => activeStatuses.includes(job.status));
 }
 
+/**
+ * Получить задачи, ожидающие автоматического повтора
+ */
+export async function getPendingRetryJobs(): Promise<VideoJob[]> {
+  const retryableStatuses: VideoJobStatus[] = ["syntax_timeout", "error"];
+  const jobs = await getAllJobs();
+  return jobs.filter(job => !!job.nextRetryAt && retryableStatuses.includes(job.status));
+}
+
+/**
+ * Получить запланированные задачи, время запуска которых уже наступило (самые ранние первыми)
+ */
+export async function getDueScheduledJobs(now: number = Date.now()): Promise<VideoJob[]> {
+  const jobs = await getJobsByStatuses(["scheduled"]);
+  // Время запуска проверяем в памяти, чтобы не требовался составной индекс status + scheduledAt
+  return jobs
+    .filter(job => !!job.scheduledAt && job.scheduledAt <= now)
+    .sort((a, b) => (a.scheduledAt || 0) - (b.scheduledAt || 0));
+}
+
+/**
+ * Получить задачи в указанных статусах. Запрос только по полю status использует автоматический индекс Firestore,
+ * поэтому читаются лишь эти задачи, а не вся коллекция. Канал проверяется в памяти, чтобы не требовался составной индекс.
+ */
+export async function getJobsByStatuses(statuses: VideoJobStatus[], channelId?: string): Promise<VideoJob[]> {
+  try {
+    const db = getFirestore();
+    const collection = db.collection(COLLECTION_NAME);
+    const query = statuses.length === 1
+      ? collection.where("status", "==", statuses[0])
+      : collection.where("status", "in", statuses);
+    const snapshot = await query.get();
+    const jobs = snapshot.docs.map((doc) => {
+      const job = {
+        id: doc.id,
+        ...doc.data(),
+      } as VideoJob;
+      job.jobId = job.jobId || doc.id;
+      return job;
+    });
+    return channelId ? jobs.filter((job) => job.channelId === channelId) : jobs;
+  } catch (error: unknown) {
+    log.error(`Error getting jobs with status ${statuses.join(", ")}`, { error });
+    throw new Error(`Ошибка получения задач: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Получить задачи в очереди в порядке постановки (FIFO)
+ */
+export async function getQueuedJobs(): Promise<VideoJob[]> {
+  const jobs = await getJobsByStatuses(["queued"]);
+  // Сортировка в памяти, чтобы не требовался составной индекс status + queuedAt
+  return jobs.sort((a, b) => (a.queuedAt || a.createdAt) - (b.queuedAt || b.createdAt));
+}
+
+/**
+ * Получить задачи, которые сейчас занимают слот генерации (отправка, ожидание, скачивание)
+ */
+export async function getRunningJobs(): Promise<VideoJob[]> {
+  return getJobsByStatuses(["sending", "waiting_video", "downloading"]);
+}
+
+/**
+ * Получить ID видеосообщений Telegram, уже привязанных к задачам.
+ * Запрос читает только задачи с telegramVideoMessageId (у остальных поле null) и только это поле.
+ */
+export async function getUsedVideoMessageIds(): Promise<number[]> {
+  try {
+    const db = getFirestore();
+    const snapshot = await db
+      .collection(COLLECTION_NAME)
+      .where("telegramVideoMessageId", ">", 0)
+      .select("telegramVideoMessageId")
+      .get();
+    return snapshot.docs.map((doc) => doc.get("telegramVideoMessageId") as number);
+  } catch (error: unknown) {
+    log.error("Error getting used video message IDs", { error });
+    throw new Error(`Ошибка получения использованных видео: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Подсчитать количество активных задач
  */
@@ -2,6 +2,9 @@ import { google } from "googleapis";
 import { OAuth2Client } from "google-auth-library";
 import * as fs from "fs";
 import * as path from "path";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Drive");
 
 export interface DriveUploadResult {
   fileId: string;
@@ -17,10 +20,11 @@ function getDriveAuth(): OAuth2Client {
   const clientSecret = process.env.GDRIVE_CLIENT_SECRET;
   const refreshToken = process.env.GDRIVE_REFRESH_TOKEN;
 
-  console.log("[Drive] Initializing OAuth2 client...");
-  console.log("[Drive] Env GDRIVE_CLIENT_ID =", clientId ? "SET" : "NOT SET");
-  console.log("[Drive] Env GDRIVE_CLIENT_SECRET =", clientSecret ? "SET" : "NOT SET");
-  console.log("[Drive] Env GDRIVE_REFRESH_TOKEN =", refreshToken ? "SET" : "NOT SET");
+  log.debug("Initializing OAuth2 client...", {
+    clientIdSet: !!clientId,
+    clientSecretSet: !!clientSecret,
+    refreshTokenSet: !!refreshToken,
+  });
 
   if (!clientId || !clientSecret || !refreshToken) {
     throw new Error(
@@ -49,9 +53,6 @@ export async function uploadFileToDrive(
   // Определяем папку: сначала используем переданный folderId, затем из .env
   const targetFolderId = folderId || process.env.GDRIVE_FOLDER_ID;
 
-  console.log("[Drive] Target folder ID =", targetFolderId);
-  console.log("[Drive] Source:", folderId ? "channel.gdriveFolderId" : "GDRIVE_FOLDER_ID from .env");
-
   if (!targetFolderId) {
     throw new Error("GDRIVE_FOLDER_ID должен быть задан в .env или в настройках канала");
   }
@@ -63,21 +64,22 @@ export async function uploadFileToDrive(
   // Определяем имя файла
   const finalFileName = fileName || path.basename(localPath);
 
-  console.log("[Drive] Uploading to folder:", targetFolderId, "file:", finalFileName);
-  console.log("[Drive] Local file path:", localPath);
-
   // Проверяем, что файл существует
   if (!fs.existsSync(localPath)) {
     throw new Error(`Файл не найден: ${localPath}`);
   }
 
   const fileStats = fs.statSync(localPath);
-  console.log("[Drive] File size:", fileStats.size, "bytes");
+  log.info(`Uploading ${finalFileName} to folder ${targetFolderId}`, {
+    folderId: targetFolderId,
+    folderSource: folderId ? "channel.gdriveFolderId" : "GDRIVE_FOLDER_ID",
+    fileName: finalFileName,
+    localPath,
+    size: fileStats.size,
+  });
 
   // Загружаем файл
   try {
-    console.log("[Drive] Creating file with parents:", [targetFolderId]);
-    
     const res = await drive.files.create({
       requestBody: {
         name: finalFileName,
@@ -91,9 +93,9 @@ export async function uploadFileToDrive(
       supportsAllDrives: true, // Для поддержки Shared Drives
     });
 
-    console.log("[Drive] Uploaded file info:", {
-      id: res.data.id,
-      name: res.data.name,
+    log.info(`Uploaded file ${res.data.id}`, {
+      fileId: res.data.id,
+      fileName: res.data.name,
       parents: res.data.parents,
       webViewLink: res.data.webViewLink,
     });
@@ -110,10 +112,12 @@ export async function uploadFileToDrive(
   } catch (error: unknown) {
     const err = error as { response?: { status?: number; data?: unknown }; message?: string };
     
-    console.error("[Drive] Upload error status:", err.response?.status);
-    console.error("[Drive] Upload error data:", JSON.stringify(err.response?.data, null, 2));
-    console.error("[Drive] Used folderId:", targetFolderId);
-    console.error("[Drive] Error message:", err.message || String(error));
+    log.error("Upload failed", {
+      error,
+      status: err.response?.status,
+      responseData: err.response?.data,
+      folderId: targetFolderId,
+    });
 
     throw error;
   }
@@ -0,0 +1,64 @@
+import { describe, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { Request, Response } from "express";
+import { idempotencyMiddleware } from "./idempotency";
+
+function makeRequest(method: string, key?: string, contentType = "application/json"): Request {
+  return {
+    method,
+    originalUrl: "/api/video-jobs",
+    body: {},
+    get: (name: string) => (name.toLowerCase() === "idempotency-key" ? key : undefined),
+    is: (type: string) => (type === contentType ? type : false),
+  } as unknown as Request;
+}
+
+function makeResponse() {
+  const sent: { status?: number; body?: unknown } = {};
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+}
+
+describe("idempotencyMiddleware", () => {
+  test("пропускает запрос без заголовка Idempotency-Key", async () => {
+    const { res, sent } = makeResponse();
+    let nextCalls = 0;
+    await idempotencyMiddleware(makeRequest("POST"), res, () => nextCalls++);
+    assert.equal(nextCalls, 1);
+    assert.equal(sent.status, undefined);
+  });
+
+  test("не обрабатывает ключ у неизменяющих запросов", async () => {
+    const { res, sent } = makeResponse();
+    let nextCalls = 0;
+    await idempotencyMiddleware(makeRequest("GET", "key-1"), res, () => nextCalls++);
+    assert.equal(nextCalls, 1);
+    assert.equal(sent.status, undefined);
+  });
+
+  test("не обрабатывает ключ у multipart-запросов, тело которых ещё не разобрано", async () => {
+    const { res, sent } = makeResponse();
+    let nextCalls = 0;
+    await idempotencyMiddleware(makeRequest("POST", "k".repeat(256), "multipart/form-data"), res, () => nextCalls++);
+    assert.equal(nextCalls, 1);
+    assert.equal(sent.status, undefined);
+  });
+
+  test("отклоняет слишком длинный ключ с 400", async () => {
+    const { res, sent } = makeResponse();
+    let nextCalls = 0;
+    await idempotencyMiddleware(makeRequest("POST", "k".repeat(256)), res, () => nextCalls++);
+    assert.equal(nextCalls, 0);
+    assert.equal(sent.status, 400);
+    assert.equal((sent.body as Record<string, unknown>).error, "INVALID_IDEMPOTENCY_KEY");
+  });
+});
@@ -0,0 +1,160 @@
+import { Request, Response, NextFunction } from "express";
+import * as crypto from "crypto";
+import {
+  IdempotencyRecord,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  releaseIdempotentRequest,
+  purgeExpiredIdempotencyKeys,
+} from "../models/idempotencyKey";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Idempotency");
+
+const IDEMPOTENCY_HEADER = "Idempotency-Key";
+const REPLAYED_HEADER = "Idempotent-Replayed";
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+const MAX_KEY_LENGTH = 255;
+
+const DEFAULT_TTL_HOURS = 24;
+// Запрос с ключом, который обрабатывается дольше этого времени, считается брошенным (например, при падении процесса)
+const IN_PROGRESS_TIMEOUT_MS = 10 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+function getTtlMs(): number {
+  const hours = parseFloat(process.env.IDEMPOTENCY_KEY_TTL_HOURS || "");
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Поддержка заголовка Idempotency-Key для изменяющих запросов (POST/PUT/PATCH/DELETE).
+ * Первый запрос с ключом выполняется как обычно, его JSON-ответ сохраняется на IDEMPOTENCY_KEY_TTL_HOURS.
+ * Повтор с тем же ключом получает сохранённый ответ (с заголовком Idempotent-Replayed: true) без повторного выполнения.
+ * Ответы 5xx не сохраняются, чтобы запрос можно было повторить. Запросы без заголовка обрабатываются как раньше.
+ * Multipart-запросы (загрузка файлов) ключом не защищаются.
+ */
+export async function idempotencyMiddleware(req: Request, res: Response, next: NextFunction) {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  if (!key || !MUTATING_METHODS.has(req.method)) {
+    return next();
+  }
+
+  // Тело multipart-запроса разбирает multer уже после этого middleware: хеш пустого тела не отличил бы
+  // повтор от запроса с другим файлом, поэтому такие запросы не защищаются ключом
+  if (req.is("multipart/form-data")) {
+    log.debug(`Ignoring ${IDEMPOTENCY_HEADER} for multipart ${req.method} ${req.originalUrl}`);
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      error: "INVALID_IDEMPOTENCY_KEY",
+      message: `${IDEMPOTENCY_HEADER} не должен быть длиннее ${MAX_KEY_LENGTH} символов`,
+    });
+  }
+
+  const now = Date.now();
+  const path = req.originalUrl;
+  const recordId = sha256(`${req.method} ${path} ${key}`);
+  const record: IdempotencyRecord = {
+    key,
+    method: req.method,
+    path,
+    requestHash: sha256(JSON.stringify(req.body ?? null)),
+    state: "in_progress",
+    responseStatus: null,
+    responseBody: null,
+    createdAt: now,
+    expiresAt: now + getTtlMs(),
+  };
+
+  let result;
+  try {
+    result = await beginIdempotentRequest(recordId, record, IN_PROGRESS_TIMEOUT_MS);
+  } catch (error: unknown) {
+    // Хранилище ключей недоступно - не блокируем запрос, но повтор уже не будет защищён
+    log.warn(`Key check failed, processing ${req.method} ${path} without it`, { error });
+    return next();
+  }
+
+  if (result.type === "mismatch") {
+    return res.status(422).json({
+      error: "IDEMPOTENCY_KEY_REUSED",
+      message: `${IDEMPOTENCY_HEADER} уже использован для запроса с другим телом`,
+    });
+  }
+
+  if (result.type === "in_progress") {
+    return res.status(409).json({
+      error: "IDEMPOTENCY_REQUEST_IN_PROGRESS",
+      message: "Запрос с этим ключом ещё выполняется, повторите позже",
+    });
+  }
+
+  if (result.type === "replay") {
+    log.info(`Replaying ${req.method} ${path} for key ${key}`);
+    res.setHeader(REPLAYED_HEADER, "true");
+    return res
+      .status(result.record.responseStatus || 200)
+      .type("application/json")
+      .send(result.record.responseBody || "null");
+  }
+
+  // Перехватываем JSON-ответ, чтобы сохранить его после отправки
+  let responseBody: string | undefined;
+  const originalJson = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    responseBody = JSON.stringify(body ?? null);
+    return originalJson(body);
+  };
+
+  let settled = false;
+  const settle = (finished: boolean) => {
+    if (settled) {
+      return;
+    }
+    settled = true;
+
+    const shouldStore = finished && responseBody !== undefined && res.statusCode < 500;
+    const operation = shouldStore
+      ? completeIdempotentRequest(recordId, res.statusCode, responseBody!)
+      : releaseIdempotentRequest(recordId);
+    operation.catch((error: unknown) => {
+      log.error(`Failed to ${shouldStore ? "store" : "release"} key ${key}`, { error });
+    });
+  };
+
+  res.on("finish", () => settle(true));
+  res.on("close", () => settle(false));
+  next();
+}
+
+/**
+ * Запускает периодическое удаление истёкших ключей идемпотентности
+ */
+export function startIdempotencyKeyCleanup(): void {
+  if (cleanupTimer) {
+    return;
+  }
+
+  const purge = () => {
+    purgeExpiredIdempotencyKeys()
+      .then((deleted) => {
+        if (deleted > 0) {
+          log.info(`Purged ${deleted} expired key(s)`);
+        }
+      })
+      .catch((error: unknown) => {
+        log.error("Failed to purge expired keys", { error });
+      });
+  };
+
+  purge();
+  cleanupTimer = setInterval(purge, CLEANUP_INTERVAL_MS);
+}
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from "express";
+import * as crypto from "crypto";
+import { createLogger, runWithLogContext } from "../utils/logger";
+
+const REQUEST_ID_HEADER = "X-Request-Id";
+const MAX_REQUEST_ID_LENGTH = 128;
+
+const log = createLogger("HTTP");
+
+/**
+ * Присваивает запросу requestId (из заголовка X-Request-Id или новый) и выполняет обработку в его контексте:
+ * все записи лога, в том числе из задач, запущенных этим запросом, получают поле requestId.
+ * requestId возвращается клиенту в заголовке X-Request-Id.
+ */
+export function requestContextMiddleware(req: Request, res: Response, next: NextFunction) {
+  const incomingId = req.get(REQUEST_ID_HEADER);
+  const requestId =
+    incomingId && incomingId.length <= MAX_REQUEST_ID_LENGTH ? incomingId : crypto.randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  runWithLogContext({ requestId }, () => {
+    const startedAt = Date.now();
+    res.on("finish", () => {
+      log.debug(`${req.method} ${req.originalUrl} ${res.statusCode}`, {
+        method: req.method,
+        path: req.originalUrl,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+    next();
+  });
+}
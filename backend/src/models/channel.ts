@@ -1,5 +1,35 @@
+import { VideoJobStatus } from "./videoJob";
+
 export type Language = "ru" | "kk" | "en";
 
+/**
+ * Статусы задачи, после которых возможен автоматический повтор
+ */
+export type RetryableStatus = Extract<VideoJobStatus, "syntax_timeout" | "error">;
+
+/**
+ * Политика автоматических повторов для задач канала.
+ * Задержка перед попыткой N+1: initialDelayMs * backoffMultiplier^(N-1), но не более maxDelayMs
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // Максимум попыток, включая первую (1 = без повторов)
+  initialDelayMs: number; // Задержка перед первым повтором
+  backoffMultiplier: number; // Множитель экспоненциальной задержки
+  maxDelayMs: number; // Верхняя граница задержки
+  retryableStatuses: RetryableStatus[]; // Какие итоговые статусы повторяем
+}
+
+// По умолчанию повторов нет: повтор заново отправляет промпт и тратит кредиты Syntx, поэтому канал включает их сам
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  initialDelayMs: 60 * 1000, // 1 минута
+  backoffMultiplier: 2,
+  maxDelayMs: 15 * 60 * 1000, // 15 минут
+  retryableStatuses: ["syntax_timeout", "error"],
+};
+
+const RETRYABLE_STATUSES: RetryableStatus[] = ["syntax_timeout", "error"];
+
 export interface Channel {
   id: string;
   name: string;
@@ -9,6 +39,57 @@ export interface Channel {
   ideaPromptTemplate: string; // Шаблон промпта для генерации идей
   videoPromptTemplate: string; // Шаблон промпта для генерации финального промпта Veo
   gdriveFolderId?: string | null; // ID папки Google Drive для этого канала (если null, используется GDRIVE_FOLDER_ID из .env)
+  retryPolicy?: RetryPolicy | null; // Политика повторов (если null, используется DEFAULT_RETRY_POLICY)
+  maxActiveJobs?: number | null; // Лимит одновременных генераций канала (если null, действует только глобальный лимит)
+}
+
+/**
+ * Приводит лимит одновременных генераций канала к целому числу >= 1 или null
+ */
+export function normalizeMaxActiveJobs(input: unknown): number | null {
+  if (input === null || input === undefined || input === "") {
+    return null;
+  }
+  const num = typeof input === "number" ? input : Number(input);
+  return Number.isFinite(num) && num >= 1 ? Math.floor(num) : null;
+}
+
+/**
+ * Приводит политику повторов из запроса/Firestore к корректному виду.
+ * Недостающие или некорректные поля заменяются значениями по умолчанию.
+ */
+export function normalizeRetryPolicy(input: unknown): RetryPolicy | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+
+  const raw = input as Record<string, unknown>;
+  const toNumber = (value: unknown, fallback: number, min: number): number => {
+    const num = typeof value === "number" ? value : Number(value);
+    return Number.isFinite(num) && num >= min ? num : fallback;
+  };
+
+  const retryableStatuses = Array.isArray(raw.retryableStatuses)
+    ? RETRYABLE_STATUSES.filter((status) => (raw.retryableStatuses as unknown[]).includes(status))
+    : DEFAULT_RETRY_POLICY.retryableStatuses;
+
+  return {
+    maxAttempts: Math.floor(toNumber(raw.maxAttempts, DEFAULT_RETRY_POLICY.maxAttempts, 1)),
+    initialDelayMs: toNumber(raw.initialDelayMs, DEFAULT_RETRY_POLICY.initialDelayMs, 0),
+    backoffMultiplier: toNumber(raw.backoffMultiplier, DEFAULT_RETRY_POLICY.backoffMultiplier, 1),
+    maxDelayMs: toNumber(raw.maxDelayMs, DEFAULT_RETRY_POLICY.maxDelayMs, 0),
+    retryableStatuses,
+  };
+}
+
+/**
+ * Вычисляет задержку перед следующей попыткой
+ * @param policy - Политика повторов
+ * @param attemptNumber - Номер только что завершившейся попытки (начиная с 1)
+ */
+export function getRetryDelayMs(policy: RetryPolicy, attemptNumber: number): number {
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, Math.max(0, attemptNumber - 1));
+  return Math.min(delay, policy.maxDelayMs);
 }
 
 // Экспортируем функции из Firebase сервиса
@@ -0,0 +1,66 @@
+import { describe, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { IdempotencyRecord, resolveIdempotentRequest } from "./idempotencyKey";
+
+const NOW = 1_700_000_000_000;
+const IN_PROGRESS_TIMEOUT_MS = 10 * 60 * 1000;
+
+function makeRecord(overrides: Partial<IdempotencyRecord> = {}): IdempotencyRecord {
+  return {
+    key: "key-1",
+    method: "POST",
+    path: "/api/video-jobs",
+    requestHash: "hash-1",
+    state: "completed",
+    responseStatus: 201,
+    responseBody: '{"id":"job_1"}',
+    createdAt: NOW - 1000,
+    expiresAt: NOW + 60 * 60 * 1000,
+    ...overrides,
+  };
+}
+
+describe("resolveIdempotentRequest", () => {
+  test("без сохранённой записи запрос выполняется", () => {
+    assert.deepEqual(resolveIdempotentRequest(undefined, "hash-1", NOW, IN_PROGRESS_TIMEOUT_MS), { type: "started" });
+  });
+
+  test("повтор завершённого запроса получает сохранённый ответ", () => {
+    const existing = makeRecord();
+    assert.deepEqual(resolveIdempotentRequest(existing, "hash-1", NOW, IN_PROGRESS_TIMEOUT_MS), {
+      type: "replay",
+      record: existing,
+    });
+  });
+
+  test("тот же ключ с другим телом запроса отклоняется", () => {
+    assert.deepEqual(resolveIdempotentRequest(makeRecord(), "hash-2", NOW, IN_PROGRESS_TIMEOUT_MS), {
+      type: "mismatch",
+    });
+  });
+
+  test("повтор во время выполнения получает in_progress", () => {
+    const existing = makeRecord({ state: "in_progress", responseStatus: null, responseBody: null });
+    assert.deepEqual(resolveIdempotentRequest(existing, "hash-1", NOW, IN_PROGRESS_TIMEOUT_MS), { type: "in_progress" });
+  });
+
+  test("несовпадение тела проверяется раньше незавершённости", () => {
+    const existing = makeRecord({ state: "in_progress" });
+    assert.deepEqual(resolveIdempotentRequest(existing, "hash-2", NOW, IN_PROGRESS_TIMEOUT_MS), { type: "mismatch" });
+  });
+
+  test("истёкший ключ занимается заново, даже с другим телом", () => {
+    const existing = makeRecord({ expiresAt: NOW });
+    assert.deepEqual(resolveIdempotentRequest(existing, "hash-2", NOW, IN_PROGRESS_TIMEOUT_MS), { type: "started" });
+  });
+
+  test("брошенный незавершённый запрос занимается заново", () => {
+    const existing = makeRecord({ state: "in_progress", createdAt: NOW - IN_PROGRESS_TIMEOUT_MS });
+    assert.deepEqual(resolveIdempotentRequest(existing, "hash-1", NOW, IN_PROGRESS_TIMEOUT_MS), { type: "started" });
+  });
+
+  test("завершённый запрос не считается брошенным по таймауту", () => {
+    const existing = makeRecord({ createdAt: NOW - 2 * IN_PROGRESS_TIMEOUT_MS });
+    assert.equal(resolveIdempotentRequest(existing, "hash-1", NOW, IN_PROGRESS_TIMEOUT_MS).type, "replay");
+  });
+});
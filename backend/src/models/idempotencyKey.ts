@@ -0,0 +1,62 @@
+/**
+ * Сохранённый результат запроса с заголовком Idempotency-Key.
+ * Повтор запроса с тем же ключом получает сохранённый ответ вместо повторного выполнения.
+ */
+export interface IdempotencyRecord {
+  key: string;
+  method: string;
+  path: string;
+  requestHash: string; // Хеш тела запроса: один ключ нельзя использовать с другим телом
+  state: "in_progress" | "completed";
+  responseStatus: number | null;
+  responseBody: string | null; // JSON ответа строкой (Firestore не хранит undefined внутри объектов)
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Результат попытки занять ключ
+ */
+export type IdempotencyBeginResult =
+  | { type: "started" }
+  | { type: "replay"; record: IdempotencyRecord }
+  | { type: "in_progress" }
+  | { type: "mismatch" };
+
+/**
+ * Решает, что делать с запросом по уже сохранённой записи ключа.
+ * Истёкшая запись и незавершённая запись старше inProgressTimeoutMs (процесс упал посреди обработки)
+ * не мешают занять ключ заново - в этих случаях, как и без записи, возвращается started.
+ */
+export function resolveIdempotentRequest(
+  existing: IdempotencyRecord | undefined,
+  requestHash: string,
+  now: number,
+  inProgressTimeoutMs: number
+): IdempotencyBeginResult {
+  if (!existing) {
+    return { type: "started" };
+  }
+
+  const isExpired = existing.expiresAt <= now;
+  const isAbandoned = existing.state === "in_progress" && existing.createdAt + inProgressTimeoutMs <= now;
+  if (isExpired || isAbandoned) {
+    return { type: "started" };
+  }
+
+  if (existing.requestHash !== requestHash) {
+    return { type: "mismatch" };
+  }
+  if (existing.state === "in_progress") {
+    return { type: "in_progress" };
+  }
+  return { type: "replay", record: existing };
+}
+
+// Экспортируем функции из Firebase сервиса
+export {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  releaseIdempotentRequest,
+  purgeExpiredIdempotencyKeys,
+} from "../firebase/idempotencyKeysService";
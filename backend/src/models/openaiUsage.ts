@@ -0,0 +1,119 @@
+/**
+ * Операции, для которых вызывается OpenAI
+ */
+export type OpenAIOperation = "ideas" | "veo_prompt" | "title" | "transcription";
+
+export const OPENAI_OPERATIONS: OpenAIOperation[] = ["ideas", "veo_prompt", "title", "transcription"];
+
+/**
+ * Цены модели в долларах: за 1M входных/выходных токенов или за минуту аудио
+ */
+export interface OpenAIModelPrice {
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+  perMinute?: number;
+}
+
+/**
+ * Таблица цен по умолчанию (USD). Переопределяется через OPENAI_PRICES (JSON с теми же ключами).
+ */
+export const DEFAULT_OPENAI_PRICES: Record<string, OpenAIModelPrice> = {
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "whisper-1": { perMinute: 0.006 },
+};
+
+/**
+ * К чему относится вызов. Незаданные поля берутся из контекста логирования (запрос, задача, пакет).
+ */
+export interface OpenAIUsageAttribution {
+  channelId?: string | null;
+  channelName?: string | null;
+  jobId?: string | null;
+  batchId?: string | null;
+}
+
+/**
+ * Объём одного вызова: токены для чата, секунды аудио для транскрипции
+ */
+export interface OpenAIUsageAmount {
+  promptTokens?: number;
+  completionTokens?: number;
+  audioSeconds?: number;
+}
+
+/**
+ * Один вызов OpenAI (коллекция openaiUsage).
+ * Стоимость считается по цене на момент вызова и хранится вместе с ней, чтобы смена цен не меняла прошлые месяцы.
+ */
+export interface OpenAIUsageRecord {
+  id: string;
+  month: string; // YYYY-MM по локальному времени сервера
+  operation: OpenAIOperation;
+  model: string;
+  channelId: string | null;
+  channelName: string | null;
+  jobId: string | null;
+  batchId: string | null;
+  requestId: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  audioSeconds: number;
+  price: OpenAIModelPrice | null; // null - модели нет в таблице цен, costUsd = 0
+  costUsd: number;
+  createdAt: number;
+}
+
+export interface OpenAIUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  audioSeconds: number;
+  costUsd: number;
+}
+
+export interface OpenAIUsageMonthlyReport {
+  month: string;
+  totals: OpenAIUsageTotals;
+  byOperation: Record<OpenAIOperation, OpenAIUsageTotals>;
+  byModel: Array<OpenAIUsageTotals & { model: string }>;
+  byChannel: Array<
+    OpenAIUsageTotals & {
+      channelId: string | null;
+      channelName: string | null;
+      byOperation: Record<OpenAIOperation, OpenAIUsageTotals>;
+    }
+  >;
+  byJob: Array<OpenAIUsageTotals & { jobId: string; channelId: string | null }>; // Самые дорогие задачи месяца
+}
+
+/**
+ * Месяц учёта (YYYY-MM) по локальному времени сервера
+ */
+export function getUsageMonth(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Стоимость вызова в долларах по цене модели
+ */
+export function calculateUsageCost(price: OpenAIModelPrice | null, amount: OpenAIUsageAmount): number {
+  if (!price) {
+    return 0;
+  }
+  const cost =
+    ((amount.promptTokens || 0) * (price.inputPerMillion || 0)) / 1_000_000 +
+    ((amount.completionTokens || 0) * (price.outputPerMillion || 0)) / 1_000_000 +
+    ((amount.audioSeconds || 0) / 60) * (price.perMinute || 0);
+  // Хранить больше знаков бессмысленно, а сумма дробей накапливает ошибку округления
+  return Math.round(cost * 1e8) / 1e8;
+}
+
+// Экспортируем функции из Firebase сервиса
+export {
+  createUsageRecord,
+  getUsageByMonth,
+  assignUsageToJob,
+} from "../firebase/openaiUsageService";
@@ -0,0 +1,84 @@
+/**
+ * Причина отклонения видео из настраиваемого списка
+ */
+export interface RejectReason {
+  code: string;
+  label: string;
+}
+
+/**
+ * Список причин по умолчанию. Переопределяется через REJECT_REASONS (JSON-массив { code, label }).
+ */
+export const DEFAULT_REJECT_REASONS: RejectReason[] = [
+  { code: "bad_faces", label: "Искажённые лица" },
+  { code: "wrong_language", label: "Не тот язык" },
+  { code: "off_brand", label: "Не в стиле канала" },
+  { code: "visual_artifacts", label: "Артефакты изображения" },
+  { code: "bad_audio", label: "Плохой звук" },
+  { code: "off_prompt", label: "Не соответствует идее" },
+  { code: "other", label: "Другое" },
+];
+
+export const MIN_REVIEW_RATING = 1;
+export const MAX_REVIEW_RATING = 5;
+export const MAX_REVIEW_NOTES_LENGTH = 2000;
+
+export type ReviewDecision = "approved" | "rejected";
+
+/**
+ * Оценка видео проверяющим: хранится в задаче (поле review) и в коллекции reviewFeedback
+ */
+export interface ReviewFeedback {
+  rating: number | null; // 1-5
+  notes: string | null;
+  rejectReasons: string[]; // Коды из списка причин, только для отклонённых видео
+  decision: ReviewDecision | null; // null - видео ещё не одобрено и не отклонено
+  reviewedAt: number;
+}
+
+/**
+ * Изменение оценки из запроса: незаданные поля не меняются, null очищает значение
+ */
+export interface ReviewFeedbackInput {
+  rating?: number | null;
+  notes?: string | null;
+  rejectReasons?: string[];
+}
+
+/**
+ * Оценка одной задачи (коллекция reviewFeedback, ID документа = ID задачи).
+ * Хранится отдельно от задач, потому что отклонённые задачи удаляются при очистке корзины.
+ */
+export interface ReviewFeedbackRecord extends ReviewFeedback {
+  id: string;
+  jobId: string;
+  channelId: string | null;
+  channelName: string | null;
+  variantGroupId: string | null;
+  createdAt: number; // Создание задачи
+}
+
+export interface RejectReasonCount extends RejectReason {
+  count: number;
+  share: number; // Доля от отклонённых видео
+}
+
+export interface ReviewFeedbackSummary {
+  reviewed: number;
+  approved: number;
+  rejected: number;
+  rejectRate: number | null; // От одобренных и отклонённых; null, если таких нет
+  rated: number;
+  averageRating: number | null;
+  reasons: RejectReasonCount[]; // Частые причины первыми
+}
+
+export interface ReviewFeedbackReport {
+  from: string; // YYYY-MM-DD включительно
+  to: string;
+  totals: ReviewFeedbackSummary;
+  byChannel: Array<ReviewFeedbackSummary & { channelId: string | null; channelName: string | null }>;
+}
+
+// Экспортируем функции из Firebase сервиса
+export { saveReviewFeedbackRecord, getReviewFeedbackSince } from "../firebase/reviewFeedbackService";
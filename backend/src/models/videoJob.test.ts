@@ -0,0 +1,61 @@
+import { describe, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { canTransitionStatus, VIDEO_JOB_TRANSITIONS, VideoJobStatus } from "./videoJob";
+
+const ALL_STATUSES = Object.keys(VIDEO_JOB_TRANSITIONS) as VideoJobStatus[];
+
+describe("canTransitionStatus", () => {
+  test("повторная запись того же статуса допустима для любого статуса", () => {
+    for (const status of ALL_STATUSES) {
+      assert.equal(canTransitionStatus(status, status), true, status);
+    }
+  });
+
+  test("разрешает переходы основного конвейера", () => {
+    assert.equal(canTransitionStatus("scheduled", "queued"), true);
+    assert.equal(canTransitionStatus("queued", "sending"), true);
+    assert.equal(canTransitionStatus("sending", "waiting_video"), true);
+    assert.equal(canTransitionStatus("waiting_video", "downloading"), true);
+    assert.equal(canTransitionStatus("downloading", "ready"), true);
+    assert.equal(canTransitionStatus("ready", "uploading"), true);
+    assert.equal(canTransitionStatus("uploading", "uploaded"), true);
+  });
+
+  test("не позволяет перезаписать решение по готовому видео", () => {
+    assert.equal(canTransitionStatus("uploading", "rejected"), false);
+    assert.equal(canTransitionStatus("rejected", "uploading"), false);
+    assert.equal(canTransitionStatus("uploaded", "rejected"), false);
+  });
+
+  test("из конечных статусов задачу можно только переместить в корзину", () => {
+    for (const from of ["uploaded", "rejected", "cancelled"] as VideoJobStatus[]) {
+      for (const to of ALL_STATUSES) {
+        if (to !== from) {
+          assert.equal(canTransitionStatus(from, to), to === "trashed", `${from} -> ${to}`);
+        }
+      }
+    }
+  });
+
+  test("отмена возможна до появления видео, но не после", () => {
+    for (const from of ["scheduled", "queued", "sending", "waiting_video", "downloading"] as VideoJobStatus[]) {
+      assert.equal(canTransitionStatus(from, "cancelled"), true, from);
+    }
+    for (const from of ["ready", "uploading", "uploaded", "upload_failed"] as VideoJobStatus[]) {
+      assert.equal(canTransitionStatus(from, "cancelled"), false, from);
+    }
+  });
+
+  test("задачу с ошибкой или таймаутом можно вернуть в очередь", () => {
+    assert.equal(canTransitionStatus("error", "queued"), true);
+    assert.equal(canTransitionStatus("syntax_timeout", "queued"), true);
+    assert.equal(canTransitionStatus("ready", "queued"), false);
+  });
+
+  test("из корзины задача восстанавливается, но не возвращается в очередь", () => {
+    assert.equal(canTransitionStatus("trashed", "ready"), true);
+    assert.equal(canTransitionStatus("trashed", "uploaded"), true);
+    assert.equal(canTransitionStatus("trashed", "queued"), false);
+    assert.equal(canTransitionStatus("trashed", "uploading"), false);
+  });
+});
@@ -1,4 +1,8 @@
+import { ReviewFeedback } from "./reviewFeedback";
+import { getLogContext } from "../utils/logger";
+
 export type VideoJobStatus =
+  | "scheduled"        // Запланирована на время scheduledAt
   | "queued"           // Задача в очереди
   | "sending"          // Отправка промпта в Syntx
   | "waiting_video"    // Ожидание видео от Syntx
@@ -6,9 +10,83 @@ export type VideoJobStatus =
   | "ready"            // Видео готово
   | "uploading"        // Загрузка в Google Drive
   | "uploaded"         // Загружено в Google Drive
+  | "upload_failed"    // Не удалось загрузить в Google Drive (можно одобрить повторно)
   | "rejected"         // Отклонено пользователем
   | "syntax_timeout"   // Таймаут ожидания видео от Syntax
-  | "error";           // Ошибка
+  | "cancelled"        // Отменено пользователем
+  | "error"            // Ошибка
+  | "trashed";         // В корзине: документ и файлы хранятся до окончания срока, затем удаляются навсегда
+
+/**
+ * Допустимые переходы между статусами задачи.
+ * Любое обновление статуса проверяется по этой таблице в транзакции (см. updateJob),
+ * поэтому одновременные действия (например, одобрение и отклонение) не могут перезаписать друг друга.
+ * uploaded, rejected и cancelled - конечные статусы: из них задачу можно только переместить в корзину.
+ * Из корзины задача восстанавливается в статус, в котором была до удаления (trashedFromStatus).
+ */
+export const VIDEO_JOB_TRANSITIONS: Record<VideoJobStatus, readonly VideoJobStatus[]> = {
+  scheduled: ["queued", "cancelled"],
+  queued: ["sending", "waiting_video", "error", "cancelled"],
+  sending: ["waiting_video", "error", "syntax_timeout", "cancelled"],
+  waiting_video: ["downloading", "error", "syntax_timeout", "cancelled"],
+  // downloading -> waiting_video: переподключение к запросу после рестарта сервера
+  downloading: ["ready", "waiting_video", "error", "syntax_timeout", "cancelled"],
+  ready: ["uploading", "rejected", "trashed"],
+  uploading: ["uploaded", "upload_failed"],
+  upload_failed: ["uploading", "rejected", "trashed"],
+  syntax_timeout: ["queued", "cancelled", "trashed"],
+  error: ["queued", "cancelled", "trashed"],
+  uploaded: ["trashed"],
+  rejected: ["trashed"],
+  cancelled: ["trashed"],
+  trashed: ["ready", "upload_failed", "uploaded", "syntax_timeout", "error", "cancelled"],
+};
+
+/**
+ * Статусы, которые показываются в списках по умолчанию (всё, кроме корзины)
+ */
+export const VISIBLE_JOB_STATUSES = (Object.keys(VIDEO_JOB_TRANSITIONS) as VideoJobStatus[]).filter(
+  (status) => status !== "trashed"
+);
+
+/**
+ * Почему задача попала в корзину
+ */
+export type TrashReason = "rejected" | "deleted";
+
+/**
+ * Проверяет, допустим ли переход статуса (повторная запись того же статуса допустима всегда)
+ */
+export function canTransitionStatus(from: VideoJobStatus, to: VideoJobStatus): boolean {
+  if (from === to) {
+    return true;
+  }
+  return (VIDEO_JOB_TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Ошибка недопустимой смены статуса задачи
+ */
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public readonly jobId: string,
+    public readonly from: VideoJobStatus,
+    public readonly to: VideoJobStatus
+  ) {
+    super(`Недопустимая смена статуса задачи ${jobId}: ${from} -> ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+/**
+ * Ошибка разбора курсора пагинации списка задач
+ */
+export class InvalidJobsCursorError extends Error {
+  constructor() {
+    super("Некорректный курсор пагинации");
+    this.name = "InvalidJobsCursorError";
+  }
+}
 
 export type MatchingMethod = "jobId" | "timestamp";
 
@@ -19,6 +97,60 @@ export interface VideoJobDebugLogs {
   last_method?: MatchingMethod;
 }
 
+/**
+ * Запись об одной попытке генерации видео
+ */
+export interface VideoJobAttempt {
+  attempt: number; // Номер попытки, начиная с 1
+  startedAt: number;
+  finishedAt?: number;
+  status?: VideoJobStatus; // Итоговый статус попытки
+  errorMessage?: string;
+  telegramRequestMessageId?: number; // Запрос в Telegram, использованный в этой попытке
+  reusedRequest?: boolean; // true, если попытка переиспользовала ранее отправленный запрос
+}
+
+/**
+ * Событие смены статуса задачи (подколлекция events документа videoJobs)
+ */
+export interface VideoJobEvent {
+  id: string;
+  timestamp: number;
+  previousStatus: VideoJobStatus | null; // null для события создания задачи
+  newStatus: VideoJobStatus;
+  message: string | null;
+}
+
+/**
+ * Дополнительные параметры обновления задачи
+ */
+export interface UpdateJobOptions {
+  eventMessage?: string; // Пояснение к смене статуса (по умолчанию errorMessage из обновления)
+  expectedStatus?: VideoJobStatus[]; // Обновить, только если текущий статус один из перечисленных
+}
+
+export type VideoJobsSortField = "createdAt" | "updatedAt";
+export type SortOrder = "asc" | "desc";
+
+/**
+ * Параметры постраничной выборки задач (GET /api/video-jobs)
+ */
+export interface ListJobsParams {
+  channelId?: string;
+  statuses?: VideoJobStatus[];
+  createdFrom?: number; // Включительно, мс
+  createdTo?: number; // Включительно, мс
+  sortBy: VideoJobsSortField;
+  sortOrder: SortOrder;
+  limit: number;
+  cursor?: string; // Непрозрачный курсор из nextCursor предыдущей страницы
+}
+
+export interface ListJobsPage {
+  jobs: VideoJob[];
+  nextCursor: string | null; // null - больше страниц нет
+}
+
 export interface VideoJob {
   id: string;
   jobId: string;
@@ -31,7 +163,10 @@ export interface VideoJob {
   previewPath?: string; // Путь к превью (если генерируется отдельно)
   thumbnailPath?: string; // Путь к обложке/thumbnail
   storagePaths?: string[]; // Дополнительные пути файлов (например, промежуточные версии)
+  localFilesPurgedAt?: number | null; // Когда локальные файлы удалены по политике хранения
+  localFileMissingAt?: number | null; // Когда сверка с DOWNLOAD_DIR обнаружила, что файла задачи нет на диске
   status: VideoJobStatus;
+  statusChangedAt?: number | null; // Время последней смены статуса (для длительности этапов конвейера)
   driveFileId?: string;
   webViewLink?: string;
   webContentLink?: string;
@@ -40,6 +175,22 @@ export interface VideoJob {
   telegramVideoMessageId?: number; // ID сообщения с видео от бота (для предотвращения дубликатов)
   matchingMethod?: MatchingMethod; // Каким способом найдено видео
   debugLogs?: VideoJobDebugLogs; // Отладочная информация по воркеру
+  attempts?: VideoJobAttempt[]; // История попыток генерации
+  nextRetryAt?: number | null; // Время запланированного автоматического повтора
+  scheduledAt?: number | null; // Время, на которое запланирован запуск генерации
+  queuedAt?: number | null; // Время постановки в очередь (порядок FIFO для диспетчера)
+  batchId?: string | null; // ID пакета, если задача создана через POST /api/video-jobs/batch
+  batchItemIndex?: number | null; // Номер идеи в пакете (с 0)
+  requestId?: string | null; // ID HTTP-запроса, создавшего задачу (для связи записей лога)
+  parentJobId?: string | null; // Задача, из которой создана повторная генерация
+  rootJobId?: string | null; // Первая задача цепочки повторных генераций (у самой первой - null)
+  variantGroupId?: string | null; // Группа дублей одного промпта
+  variantIndex?: number | null; // Номер дубля в группе (с 1)
+  variantCount?: number | null; // Сколько дублей в группе
+  trashedAt?: number | null; // Когда задача перемещена в корзину
+  trashedFromStatus?: VideoJobStatus | null; // Статус до корзины, в него задача восстанавливается
+  trashReason?: TrashReason | null;
+  review?: ReviewFeedback | null; // Оценка, заметки и причины отклонения от проверяющего
   createdAt: number;
   updatedAt: number; // Время последнего обновления
 }
@@ -64,10 +215,29 @@ import {
   deleteJob as deleteJobFromFirestore,
   deleteJobCascade as deleteJobCascadeFromFirestore,
   getAllJobs as getAllJobsFromFirestore,
+  listJobs as listJobsFromFirestore,
   getActiveJobs as getActiveJobsFromFirestore,
+  getPendingRetryJobs as getPendingRetryJobsFromFirestore,
+  getDueScheduledJobs as getDueScheduledJobsFromFirestore,
+  getQueuedJobs as getQueuedJobsFromFirestore,
+  getJobsByStatuses as getJobsByStatusesFromFirestore,
+  getRunningJobs as getRunningJobsFromFirestore,
+  getJobEvents as getJobEventsFromFirestore,
+  getJobChain as getJobChainFromFirestore,
+  getJobsByVariantGroup as getJobsByVariantGroupFromFirestore,
+  getJobsByBatch as getJobsByBatchFromFirestore,
+  getTrashedJobs as getTrashedJobsFromFirestore,
   countActiveJobs as countActiveJobsFromFirestore,
 } from "../firebase/videoJobsService";
 
+export interface CreateJobOptions {
+  scheduledAt?: number; // Если задано и в будущем, задача создаётся в статусе scheduled
+  batchId?: string; // Пакет, к которому относится задача
+  batchItemIndex?: number; // Номер идеи в пакете
+  parentJob?: VideoJob; // Задача, которую генерируем повторно
+  variant?: { groupId: string; index: number; count: number }; // Дубль в группе дублей
+}
+
 /**
  * Создать задачу (обёртка для совместимости)
  */
@@ -76,10 +246,12 @@ export async function createJob(
   channelId?: string,
   channelName?: string,
   ideaText?: string,
-  videoTitle?: string
+  videoTitle?: string,
+  options: CreateJobOptions = {}
 ): Promise<VideoJob> {
   const now = Date.now();
   const id = generateJobId();
+  const isScheduled = !!options.scheduledAt && options.scheduledAt > now;
   const job: VideoJob = {
     id,
     jobId: id,
@@ -88,7 +260,41 @@ export async function createJob(
     channelName,
     ideaText,
     videoTitle,
-    status: "queued",
+    status: isScheduled ? "scheduled" : "queued",
+    scheduledAt: isScheduled ? options.scheduledAt : null,
+    queuedAt: isScheduled ? null : now,
+    batchId: options.batchId || null,
+    batchItemIndex: options.batchItemIndex ?? null,
+    requestId: getLogContext().requestId || null,
+    parentJobId: options.parentJob ? options.parentJob.id : null,
+    rootJobId: options.parentJob ? options.parentJob.rootJobId || options.parentJob.id : null,
+    variantGroupId: options.variant ? options.variant.groupId : null,
+    variantIndex: options.variant ? options.variant.index : null,
+    variantCount: options.variant ? options.variant.count : null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  return await createJobInFirestore(job);
+}
+
+/**
+ * Создать задачу для видеофайла без задачи (найден при сверке DOWNLOAD_DIR).
+ * Задача сразу получает статус ready, чтобы видео можно было просмотреть, одобрить или отклонить.
+ */
+export async function createAdoptedJob(localPath: string, videoTitle: string): Promise<VideoJob> {
+  const now = Date.now();
+  const id = generateJobId();
+  const job: VideoJob = {
+    id,
+    jobId: id,
+    prompt: `Видео восстановлено из файла ${localPath}`,
+    videoTitle,
+    localPath,
+    status: "ready",
+    scheduledAt: null,
+    queuedAt: null,
+    batchId: null,
+    requestId: getLogContext().requestId || null,
     createdAt: now,
     updatedAt: now,
   };
@@ -101,6 +307,17 @@ export { updateJobInFirestore as updateJob };
 export { deleteJobFromFirestore as deleteJob };
 export { deleteJobCascadeFromFirestore as deleteJobCascade };
 export { getAllJobsFromFirestore as getAllJobs };
+export { listJobsFromFirestore as listJobs };
 export { getActiveJobsFromFirestore as getActiveJobs };
+export { getPendingRetryJobsFromFirestore as getPendingRetryJobs };
+export { getDueScheduledJobsFromFirestore as getDueScheduledJobs };
+export { getQueuedJobsFromFirestore as getQueuedJobs };
+export { getRunningJobsFromFirestore as getRunningJobs };
+export { getJobsByStatusesFromFirestore as getJobsByStatuses };
+export { getJobEventsFromFirestore as getJobEvents };
+export { getJobChainFromFirestore as getJobChain };
+export { getJobsByVariantGroupFromFirestore as getJobsByVariantGroup };
+export { getJobsByBatchFromFirestore as getJobsByBatch };
+export { getTrashedJobsFromFirestore as getTrashedJobs };
 export { countActiveJobsFromFirestore as countActiveJobs };
 
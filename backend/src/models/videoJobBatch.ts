@@ -0,0 +1,59 @@
+import { VideoJobStatus } from "./videoJob";
+
+export type VideoJobBatchItemStatus =
+  | "pending"            // Ожидает генерации промпта
+  | "generating_prompt"  // Генерируется промпт Veo и название
+  | "job_created"        // Задача генерации видео создана
+  | "failed";            // Не удалось сгенерировать промпт или создать задачу
+
+/**
+ * Элемент пакета: одна идея и созданная по ней задача.
+ * Необязательные поля хранятся как null, так как Firestore не принимает undefined внутри массивов.
+ */
+export interface VideoJobBatchItem {
+  index: number;
+  ideaTitle: string;
+  ideaDescription: string;
+  status: VideoJobBatchItemStatus;
+  jobId: string | null;
+  videoTitle: string | null;
+  errorMessage: string | null;
+}
+
+export interface VideoJobBatch {
+  id: string;
+  channelId: string;
+  channelName: string;
+  items: VideoJobBatchItem[];
+  scheduledAt?: number | null; // Время запуска для всех задач пакета (если отложенный запуск)
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Сводка прогресса пакета для API
+ */
+export interface VideoJobBatchProgress {
+  total: number;
+  pending: number; // Ещё не созданы задачи (ожидают или генерируется промпт)
+  failed: number;
+  jobsCreated: number;
+  completed: number; // Видео готово или загружено
+  jobStatuses: Partial<Record<VideoJobStatus, number>>;
+}
+
+/**
+ * Генерирует уникальный ID пакета
+ * Формат: batch_<timestamp>_<random>
+ */
+export function generateBatchId(): string {
+  return `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Экспортируем функции из Firebase сервиса
+export {
+  createBatch,
+  getBatch,
+  updateBatch,
+  getUnfinishedBatches,
+} from "../firebase/videoJobBatchesService";
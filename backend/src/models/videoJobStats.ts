@@ -0,0 +1,134 @@
+import { VideoJobStatus } from "./videoJob";
+
+/**
+ * Этапы конвейера, длительность которых измеряется
+ */
+export type PipelineStage = "send" | "wait" | "download" | "upload";
+
+/**
+ * Статус задачи на этапе и статус успешного завершения этапа.
+ * Длительность этапа - время от входа в status до перехода в next; неудачные выходы (ошибка, таймаут) учитываются только в счётчиках.
+ */
+export const PIPELINE_STAGES: Record<PipelineStage, { status: VideoJobStatus; next: VideoJobStatus }> = {
+  send: { status: "sending", next: "waiting_video" },
+  wait: { status: "waiting_video", next: "downloading" },
+  download: { status: "downloading", next: "ready" },
+  upload: { status: "uploading", next: "uploaded" },
+};
+
+/**
+ * Верхние границы интервалов гистограммы длительностей этапов (секунды)
+ */
+export const STAGE_DURATION_BUCKETS_SECONDS = [5, 15, 30, 60, 120, 300, 600, 900, 1800, 3600];
+
+/**
+ * Счётчики исходов: created - создание задачи, остальные - переход в соответствующий статус
+ */
+export type JobOutcome =
+  | "created"
+  | "generated"
+  | "timeout"
+  | "error"
+  | "cancelled"
+  | "uploaded"
+  | "upload_failed"
+  | "rejected";
+
+export const JOB_OUTCOMES: JobOutcome[] = [
+  "created",
+  "generated",
+  "timeout",
+  "error",
+  "cancelled",
+  "uploaded",
+  "upload_failed",
+  "rejected",
+];
+
+export const OUTCOME_BY_STATUS: Partial<Record<VideoJobStatus, JobOutcome>> = {
+  ready: "generated",
+  syntax_timeout: "timeout",
+  error: "error",
+  cancelled: "cancelled",
+  uploaded: "uploaded",
+  upload_failed: "upload_failed",
+  rejected: "rejected",
+};
+
+/**
+ * Накопленные длительности одного этапа
+ */
+export interface StageDurationStats {
+  count: number;
+  totalMs: number;
+  buckets: Record<string, number>; // верхняя граница интервала (сек) -> сколько раз этап уложился в него, но не в предыдущий
+}
+
+/**
+ * Счётчики задач одного канала за один день (коллекция videoJobStats).
+ * Хранятся отдельно от задач, потому что отклонённые и удалённые задачи удаляются вместе с таймлайном.
+ */
+export interface VideoJobDailyStats {
+  id: string; // <day>_<channelId или none>
+  day: string; // YYYY-MM-DD по локальному времени сервера
+  channelId: string | null;
+  channelName: string | null;
+  counts: Partial<Record<JobOutcome, number>>;
+  stages: Partial<Record<PipelineStage, StageDurationStats>>;
+  updatedAt: number;
+}
+
+/**
+ * Доли исходов: успех и таймаут - от завершённых генераций (generated + timeout + error),
+ * отклонение - от просмотренных видео (uploaded + rejected). null, если знаменатель равен нулю.
+ */
+export interface PipelineOutcomeSummary {
+  counts: Record<JobOutcome, number>;
+  successRate: number | null;
+  timeoutRate: number | null;
+  errorRate: number | null;
+  rejectRate: number | null;
+}
+
+export interface StageDurationSummary {
+  count: number;
+  avgMs: number | null;
+  p50Ms: number | null; // Оценка по гистограмме: верхняя граница интервала (null - дольше последней границы)
+  p95Ms: number | null;
+}
+
+export interface PipelineStatsReport {
+  from: string; // YYYY-MM-DD включительно
+  to: string;
+  stages: Record<PipelineStage, StageDurationSummary>;
+  totals: PipelineOutcomeSummary;
+  byChannel: Array<
+    PipelineOutcomeSummary & {
+      channelId: string | null;
+      channelName: string | null;
+      stages: Record<PipelineStage, StageDurationSummary>;
+    }
+  >;
+  byDay: Array<PipelineOutcomeSummary & { day: string }>;
+}
+
+/**
+ * День статистики (YYYY-MM-DD) по локальному времени сервера
+ */
+export function getStatsDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Этап, успешно завершившийся переходом from -> to
+ */
+export function getCompletedStage(from: VideoJobStatus, to: VideoJobStatus): PipelineStage | null {
+  const stage = (Object.keys(PIPELINE_STAGES) as PipelineStage[]).find(
+    (key) => PIPELINE_STAGES[key].status === from && PIPELINE_STAGES[key].next === to
+  );
+  return stage || null;
+}
+
+// Экспортируем функции из Firebase сервиса
+export { getDailyStats } from "../firebase/videoJobStatsService";
@@ -0,0 +1,54 @@
+/**
+ * Группа дублей: несколько задач с одним промптом, из которых при ревью выбирается лучшая
+ */
+export interface VideoJobVariantGroup {
+  id: string;
+  channelId: string | null;
+  jobIds: string[]; // Задачи группы в порядке номеров дублей
+  variantCount: number;
+  winnerJobId: string | null; // Одобренный дубль (null, пока выбор не сделан)
+  winnerIndex: number | null; // Номер одобренного дубля (с 1)
+  decidedAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Статистика выбора дублей: какой по номеру дубль побеждает чаще
+ */
+export interface VariantWinStats {
+  decidedGroups: number;
+  wins: Record<number, number>; // номер дубля -> сколько раз он был выбран
+  byMonth: Array<{
+    month: string; // YYYY-MM
+    decidedGroups: number;
+    wins: Record<number, number>;
+  }>;
+}
+
+/**
+ * Ошибка: в группе уже одобрен другой дубль
+ */
+export class VariantGroupDecidedError extends Error {
+  constructor(public readonly groupId: string, public readonly winnerJobId: string) {
+    super(`В группе дублей ${groupId} уже выбран дубль ${winnerJobId}`);
+    this.name = "VariantGroupDecidedError";
+  }
+}
+
+/**
+ * Генерирует уникальный ID группы дублей
+ * Формат: variants_<timestamp>_<random>
+ */
+export function generateVariantGroupId(): string {
+  return `variants_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Экспортируем функции из Firebase сервиса
+export {
+  createVariantGroup,
+  getVariantGroup,
+  claimVariantWinner,
+  releaseVariantWinner,
+  getDecidedVariantGroups,
+} from "../firebase/videoJobVariantGroupsService";
@@ -9,8 +9,21 @@ import videoJobsRouter from "./api/videoJobs";
 import transcribeRouter from "./api/transcribe";
 import titleRouter from "./api/title";
 import fcmRouter from "./api/fcm";
+import adminRouter from "./api/admin";
+import statsRouter from "./api/stats";
+import usageRouter from "./api/usage";
 import { getTelegramClient } from "./telegram/client";
 import { initializeFirebase } from "./firebase/admin";
+import { resumeActiveJobs } from "./services/videoJobProcessor";
+import { startJobScheduler } from "./services/jobScheduler";
+import { resumeVideoJobBatches } from "./services/videoJobBatchProcessor";
+import { initVideoJobSearchIndex } from "./services/videoJobSearch";
+import { idempotencyMiddleware, startIdempotencyKeyCleanup } from "./middleware/idempotency";
+import { startRetentionJanitor } from "./services/fileRetentionJanitor";
+import { startTrashPurger } from "./services/trashPurger";
+import { getPrometheusMetrics } from "./services/pipelineMetrics";
+import { requestContextMiddleware } from "./middleware/requestContext";
+import { createLogger } from "./utils/logger";
 
 // Загружаем переменные окружения
 // Пытаемся загрузить из разных возможных мест
@@ -20,12 +33,18 @@ dotenv.config({ path: envPath });
 // Также пробуем загрузить из корня проекта
 dotenv.config();
 
+const log = createLogger("Server");
+
 const app = express();
 const PORT = process.env.PORT || 4000;
 
 // Middleware
 app.use(cors());
 app.use(express.json());
+// requestId для каждого запроса: попадает во все записи лога, в том числе из запущенных запросом задач
+app.use(requestContextMiddleware);
+// Повтор изменяющего запроса с тем же Idempotency-Key получает сохранённый ответ
+app.use("/api", idempotencyMiddleware);
 
 // API Routes
 app.use("/api/channels", channelsRouter);
@@ -36,23 +55,47 @@ app.use("/api/video-jobs", videoJobsRouter);
 app.use("/api/transcribe-idea", transcribeRouter);
 app.use("/api/generate-title", titleRouter);
 app.use("/api/fcm", fcmRouter);
+app.use("/api/admin", adminRouter);
+app.use("/api/stats", statsRouter);
+app.use("/api/usage", usageRouter);
 
 // Health check
 app.get("/health", (req, res) => {
   res.json({ status: "ok" });
 });
 
+// Метрики для Prometheus
+app.get("/metrics", async (req, res) => {
+  try {
+    const metrics = await getPrometheusMetrics();
+    res.type("text/plain; version=0.0.4").send(metrics);
+  } catch (error: any) {
+    log.error("Error building metrics", { error });
+    res.status(500).type("text/plain").send(`# error: ${error?.message || "unknown"}\n`);
+  }
+});
+
 // Инициализация Firebase (неблокирующая)
 if (process.env.FIREBASE_PROJECT_ID) {
   try {
     initializeFirebase();
-    console.log("🔥 Firebase инициализирован");
+    log.info("Firebase инициализирован");
+
+    // Строим индекс поиска заранее, чтобы первый поиск не ждал загрузки всех задач
+    initVideoJobSearchIndex().catch((indexError) => {
+      log.error("Ошибка построения поискового индекса", { error: indexError });
+    });
+    startIdempotencyKeyCleanup();
+    startRetentionJanitor();
+    startTrashPurger();
+    // Планировщик не зависит от авторизации Telegram: запланированные задачи переходят в очередь в любом случае.
+    // Прерванные рестартом задачи сохраняют рабочие статусы до восстановления и занимают слоты, поэтому лимит не превышается
+    startJobScheduler();
   } catch (error: any) {
-    console.error("⚠️  Ошибка инициализации Firebase:", error.message);
-    console.log("💡 Убедитесь, что все FIREBASE_* переменные установлены в .env");
+    log.error("Ошибка инициализации Firebase. Убедитесь, что все FIREBASE_* переменные установлены в .env", { error });
   }
 } else {
-  console.warn("⚠️  Firebase не настроен (FIREBASE_PROJECT_ID не установлен)");
+  log.warn("Firebase не настроен (FIREBASE_PROJECT_ID не установлен)");
 }
 
 // Инициализация Telegram клиента и проверка бота при старте (неблокирующая)
@@ -60,13 +103,13 @@ if (process.env.FIREBASE_PROJECT_ID) {
 if (process.env.TELEGRAM_API_ID && process.env.TELEGRAM_API_HASH) {
   (async () => {
     try {
-      console.log("🔐 Инициализация Telegram клиента...");
+      log.info("Инициализация Telegram клиента...");
       const client = await getTelegramClient();
       
       // Проверяем авторизацию еще раз
       const isAuthorized = await client.checkAuthorization();
       if (!isAuthorized) {
-        console.warn("⚠️  Telegram клиент не авторизован. Выполните авторизацию.");
+        log.warn("Telegram клиент не авторизован. Выполните авторизацию.");
         return;
       }
 
@@ -75,24 +118,39 @@ if (process.env.TELEGRAM_API_ID && process.env.TELEGRAM_API_HASH) {
       // Проверяем, что бот существует
       try {
         await client.getEntity(botUsername);
-        console.log(`✅ Бот ${botUsername} найден и готов к работе`);
+        log.info(`Бот ${botUsername} найден и готов к работе`);
+
+        // Восстанавливаем задачи, прерванные предыдущим рестартом
+        if (process.env.FIREBASE_PROJECT_ID) {
+          resumeActiveJobs()
+            .catch((recoveryError) => {
+              log.error("Ошибка восстановления прерванных задач", { error: recoveryError });
+            })
+            .finally(() => {
+              resumeVideoJobBatches().catch((batchError) => {
+                log.error("Ошибка возобновления пакетов задач", { error: batchError });
+              });
+            });
+        }
       } catch (error: any) {
         // Если ошибка авторизации, не критично - пользователь еще не авторизован
         if (error.errorMessage === 'AUTH_KEY_UNREGISTERED') {
-          console.log("⏳ Ожидание авторизации в Telegram...");
+          log.info("Ожидание авторизации в Telegram...");
         } else {
-          console.error(`[ERROR] Bot username ${botUsername} not found. Проверь SYNTX_BOT_USERNAME.`);
-          console.error(`Ошибка: ${error.message}`);
-          console.log("💡 Убедитесь, что бот существует и вы подписаны на него в Telegram");
+          log.error(
+            `Bot username ${botUsername} not found. Проверь SYNTX_BOT_USERNAME и убедитесь, что вы подписаны на бота в Telegram`,
+            { error }
+          );
         }
       }
     } catch (error: any) {
       // Если это ошибка авторизации, это нормально при первом запуске
       if (error.message?.includes('AUTH_KEY_UNREGISTERED') || error.errorMessage === 'AUTH_KEY_UNREGISTERED') {
-        console.log("⏳ Ожидание авторизации в Telegram...");
+        log.info("Ожидание авторизации в Telegram...");
       } else {
-        console.error("⚠️  Ошибка инициализации Telegram клиента:", error.message);
-        console.log("💡 Убедитесь, что TELEGRAM_STRING_SESSION установлен или выполните авторизацию");
+        log.error("Ошибка инициализации Telegram клиента. Убедитесь, что TELEGRAM_STRING_SESSION установлен или выполните авторизацию", {
+          error,
+        });
       }
     }
   })();
@@ -100,7 +158,6 @@ if (process.env.TELEGRAM_API_ID && process.env.TELEGRAM_API_HASH) {
 
 // Запуск сервера
 app.listen(PORT, () => {
-  console.log(`🚀 Сервер запущен на порту ${PORT}`);
-  console.log(`📡 API доступен по адресу http://localhost:${PORT}/api`);
+  log.info(`Сервер запущен на порту ${PORT}, API: http://localhost:${PORT}/api`);
 });
 
@@ -0,0 +1,231 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  getAllJobs,
+  updateJob,
+  createAdoptedJob,
+  InvalidStatusTransitionError,
+  VideoJob,
+  VideoJobStatus,
+} from "../models/videoJob";
+import { collectAllFilePaths, deleteLocalFileSafe } from "../utils/jobFiles";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Reconcile");
+
+// Файлы моложе этого возраста не считаются сиротами: их может прямо сейчас скачивать конвейер
+const MIN_ORPHAN_AGE_MS = 30 * 60 * 1000;
+
+// Задачи в этих статусах ещё пишут файлы, поэтому не проверяются
+const IN_FLIGHT_STATUSES: VideoJobStatus[] = ["sending", "waiting_video", "downloading"];
+
+/**
+ * Файл в DOWNLOAD_DIR, на который не ссылается ни одна задача
+ */
+export interface OrphanFile {
+  path: string;
+  size: number;
+  modifiedAt: number;
+  matchedJobId: string | null; // Задача с отсутствующим файлом с тем же именем (например, после смены DOWNLOAD_DIR)
+}
+
+/**
+ * Задача, файлы которой отсутствуют на диске
+ */
+export interface BrokenJob {
+  jobId: string;
+  status: VideoJobStatus;
+  missingPaths: string[];
+}
+
+export interface ReconciliationReport {
+  downloadDir: string;
+  scannedFiles: number;
+  scannedJobs: number;
+  skippedRecentFiles: number;
+  orphanFiles: OrphanFile[];
+  brokenJobs: BrokenJob[];
+}
+
+export interface ReconciliationActions {
+  deleteOrphans?: boolean; // Удалить файлы-сироты
+  adoptOrphans?: boolean; // Привязать сирот к задачам с тем же именем файла или создать для них задачи
+  markBrokenJobs?: boolean; // Отметить задачи без файлов и убрать с них несуществующие пути
+}
+
+export interface ReconciliationResult {
+  report: ReconciliationReport;
+  deletedFiles: string[];
+  adoptedFiles: Array<{ path: string; jobId: string; relinked: boolean }>;
+  markedJobs: string[];
+  errors: Array<{ target: string; message: string }>;
+}
+
+function getDownloadDir(): string {
+  return path.resolve(process.env.DOWNLOAD_DIR || "./downloads");
+}
+
+function listFilesRecursive(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listFilesRecursive(entryPath);
+    }
+    return entry.isFile() ? [entryPath] : [];
+  });
+}
+
+/**
+ * Сверяет файлы в DOWNLOAD_DIR с задачами в videoJobs. Ничего не изменяет.
+ */
+export async function scanDownloads(now: number = Date.now()): Promise<ReconciliationReport> {
+  const downloadDir = getDownloadDir();
+  const jobs = await getAllJobs();
+
+  const referencedPaths = new Set<string>();
+  const brokenJobs: BrokenJob[] = [];
+  // Имя отсутствующего файла -> задача, чтобы найти файл, который переехал в другую папку
+  const missingByFileName = new Map<string, string>();
+
+  for (const job of jobs) {
+    const filePaths = collectAllFilePaths(job).map((filePath) => path.resolve(filePath));
+    filePaths.forEach((filePath) => referencedPaths.add(filePath));
+
+    if (IN_FLIGHT_STATUSES.includes(job.status)) {
+      continue;
+    }
+
+    const missingPaths = filePaths.filter((filePath) => !fs.existsSync(filePath));
+    if (missingPaths.length > 0) {
+      brokenJobs.push({ jobId: job.id, status: job.status, missingPaths });
+      if (job.localPath && missingPaths.includes(path.resolve(job.localPath))) {
+        missingByFileName.set(path.basename(job.localPath), job.id);
+      }
+    }
+  }
+
+  const files = listFilesRecursive(downloadDir);
+  const orphanFiles: OrphanFile[] = [];
+  let skippedRecentFiles = 0;
+
+  for (const filePath of files) {
+    if (referencedPaths.has(filePath)) {
+      continue;
+    }
+    const stat = fs.statSync(filePath);
+    if (now - stat.mtimeMs < MIN_ORPHAN_AGE_MS) {
+      skippedRecentFiles++;
+      continue;
+    }
+    orphanFiles.push({
+      path: filePath,
+      size: stat.size,
+      modifiedAt: Math.round(stat.mtimeMs),
+      matchedJobId: missingByFileName.get(path.basename(filePath)) || null,
+    });
+  }
+
+  return {
+    downloadDir,
+    scannedFiles: files.length,
+    scannedJobs: jobs.length,
+    skippedRecentFiles,
+    orphanFiles,
+    brokenJobs,
+  };
+}
+
+async function adoptOrphan(orphan: OrphanFile): Promise<{ jobId: string; relinked: boolean }> {
+  if (orphan.matchedJobId) {
+    // Файл задачи нашёлся под другим путём - возвращаем его задаче
+    await updateJob(orphan.matchedJobId, { localPath: orphan.path, localFileMissingAt: undefined });
+    return { jobId: orphan.matchedJobId, relinked: true };
+  }
+
+  const videoTitle = path.basename(orphan.path, path.extname(orphan.path)).replace(/_/g, " ");
+  const job = await createAdoptedJob(orphan.path, videoTitle);
+  return { jobId: job.id, relinked: false };
+}
+
+async function markBrokenJob(job: VideoJob, missingPaths: string[], now: number): Promise<void> {
+  const isMissing = (filePath?: string) => !!filePath && missingPaths.includes(path.resolve(filePath));
+  const needsFile = job.status === "ready" || job.status === "upload_failed";
+
+  await updateJob(
+    job.id,
+    {
+      localPath: isMissing(job.localPath) ? undefined : job.localPath,
+      previewPath: isMissing(job.previewPath) ? undefined : job.previewPath,
+      thumbnailPath: isMissing(job.thumbnailPath) ? undefined : job.thumbnailPath,
+      storagePaths: job.storagePaths?.filter((filePath) => !isMissing(filePath)),
+      localFileMissingAt: now,
+      errorMessage: needsFile && isMissing(job.localPath) ? "Файл видео не найден на диске" : job.errorMessage,
+    },
+    { expectedStatus: [job.status] }
+  );
+}
+
+/**
+ * Сверяет DOWNLOAD_DIR с задачами и применяет выбранные действия.
+ * Сначала сироты привязываются к задачам (adoptOrphans), затем оставшиеся задачи без файлов отмечаются.
+ */
+export async function reconcileDownloads(actions: ReconciliationActions): Promise<ReconciliationResult> {
+  if (actions.deleteOrphans && actions.adoptOrphans) {
+    throw new Error("Нельзя одновременно удалять и привязывать файлы-сироты");
+  }
+
+  const now = Date.now();
+  const report = await scanDownloads(now);
+  const result: ReconciliationResult = { report, deletedFiles: [], adoptedFiles: [], markedJobs: [], errors: [] };
+  const relinkedJobIds = new Set<string>();
+
+  for (const orphan of report.orphanFiles) {
+    try {
+      if (actions.adoptOrphans) {
+        const adopted = await adoptOrphan(orphan);
+        result.adoptedFiles.push({ path: orphan.path, ...adopted });
+        if (adopted.relinked) {
+          relinkedJobIds.add(adopted.jobId);
+        }
+        log.info(`Adopted ${orphan.path} -> job ${adopted.jobId}${adopted.relinked ? " (relinked)" : ""}`, {
+          jobId: adopted.jobId,
+        });
+      } else if (actions.deleteOrphans && deleteLocalFileSafe(orphan.path)) {
+        result.deletedFiles.push(orphan.path);
+      }
+    } catch (error: unknown) {
+      log.error(`Failed to process orphan ${orphan.path}`, { error });
+      result.errors.push({ target: orphan.path, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (actions.markBrokenJobs) {
+    const jobsById = new Map((await getAllJobs()).map((job) => [job.id, job]));
+    for (const broken of report.brokenJobs) {
+      const job = jobsById.get(broken.jobId);
+      if (!job || relinkedJobIds.has(broken.jobId)) {
+        continue;
+      }
+      try {
+        await markBrokenJob(job, broken.missingPaths, now);
+        result.markedJobs.push(broken.jobId);
+        log.info(`Job ${broken.jobId} marked: ${broken.missingPaths.length} missing file(s)`, { jobId: broken.jobId });
+      } catch (error: unknown) {
+        // Задача могла сменить статус после сверки - пропускаем её
+        if (!(error instanceof InvalidStatusTransitionError)) {
+          log.error(`Failed to mark job ${broken.jobId}`, { jobId: broken.jobId, error });
+        }
+        result.errors.push({ target: broken.jobId, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  log.info(
+    `Done: ${report.orphanFiles.length} orphan file(s), ${report.brokenJobs.length} broken job(s); ` +
+      `deleted ${result.deletedFiles.length}, adopted ${result.adoptedFiles.length}, marked ${result.markedJobs.length}`
+  );
+  return result;
+}
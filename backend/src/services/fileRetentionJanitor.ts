@@ -0,0 +1,151 @@
+import { getAllJobs, updateJob, InvalidStatusTransitionError, VideoJob, VideoJobStatus } from "../models/videoJob";
+import { collectAllFilePaths, deleteLocalFileSafe } from "../utils/jobFiles";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Retention");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_UPLOADED_RETENTION_DAYS = 7;
+const DEFAULT_ERROR_RETENTION_DAYS = 3;
+const DEFAULT_JANITOR_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Сколько дней хранить локальные файлы задач по статусу (null - не удалять)
+ */
+export interface RetentionPolicy {
+  uploadedDays: number | null;
+  errorDays: number | null;
+}
+
+export interface RetentionSweepResult {
+  purgedJobs: string[];
+  deletedFiles: number;
+}
+
+let janitorTimer: NodeJS.Timeout | null = null;
+let isSweepRunning = false;
+
+function parseRetentionDays(value: string | undefined, defaultDays: number): number | null {
+  if (value === undefined || value.trim() === "") {
+    return defaultDays;
+  }
+  const days = parseFloat(value);
+  // 0 или некорректное значение отключают удаление для этого статуса
+  return Number.isFinite(days) && days > 0 ? days : null;
+}
+
+/**
+ * Политика хранения из переменных окружения:
+ * RETENTION_UPLOADED_DAYS - для задач, загруженных в Google Drive (по умолчанию 7 дней),
+ * RETENTION_ERROR_DAYS - для задач с ошибкой или таймаутом (по умолчанию 3 дня)
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  return {
+    uploadedDays: parseRetentionDays(process.env.RETENTION_UPLOADED_DAYS, DEFAULT_UPLOADED_RETENTION_DAYS),
+    errorDays: parseRetentionDays(process.env.RETENTION_ERROR_DAYS, DEFAULT_ERROR_RETENTION_DAYS),
+  };
+}
+
+function getRetentionDays(job: VideoJob, policy: RetentionPolicy): number | null {
+  if (job.status === "uploaded") {
+    return policy.uploadedDays;
+  }
+  // Задачу с запланированным автоповтором не трогаем: она ещё может завершиться
+  if ((job.status === "error" || job.status === "syntax_timeout") && !job.nextRetryAt) {
+    return policy.errorDays;
+  }
+  return null;
+}
+
+/**
+ * Один проход очистки: удаляет локальные файлы задач, которые дольше срока хранения
+ * находятся в uploaded / error / syntax_timeout, и отмечает на задаче время очистки.
+ * Возраст считается от statusChangedAt - времени перехода в текущий статус, поэтому оценка, заметки и другие
+ * записи в задачу не откладывают очистку. У задач без statusChangedAt берётся updatedAt.
+ */
+export async function runRetentionSweep(now: number = Date.now()): Promise<RetentionSweepResult> {
+  const result: RetentionSweepResult = { purgedJobs: [], deletedFiles: 0 };
+  if (isSweepRunning) {
+    return result;
+  }
+
+  isSweepRunning = true;
+  try {
+    const policy = getRetentionPolicy();
+    const jobs = await getAllJobs();
+
+    for (const job of jobs) {
+      const retentionDays = getRetentionDays(job, policy);
+      const statusSince = job.statusChangedAt || job.updatedAt;
+      if (retentionDays === null || statusSince > now - retentionDays * DAY_MS) {
+        continue;
+      }
+
+      const filePaths = collectAllFilePaths(job);
+      if (filePaths.length === 0) {
+        continue;
+      }
+
+      try {
+        // Сначала снимаем пути с задачи: если её успели перезапустить, транзакция отклонит запись
+        // и файлы нового запуска не будут удалены
+        await updateJob(
+          job.id,
+          {
+            localPath: undefined,
+            previewPath: undefined,
+            thumbnailPath: undefined,
+            storagePaths: undefined,
+            localFilesPurgedAt: now,
+          },
+          { expectedStatus: [job.status] }
+        );
+      } catch (error: unknown) {
+        if (error instanceof InvalidStatusTransitionError) {
+          log.info(`Job ${job.id}: skipped, ${error.message}`, { jobId: job.id });
+          continue;
+        }
+        throw error;
+      }
+
+      const deleted = filePaths.filter((filePath) => deleteLocalFileSafe(filePath)).length;
+      result.purgedJobs.push(job.id);
+      result.deletedFiles += deleted;
+      log.info(`Job ${job.id} (${job.status}): purged ${deleted} local file(s) after ${retentionDays} day(s)`, {
+        jobId: job.id,
+        channelId: job.channelId,
+      });
+    }
+
+    if (result.purgedJobs.length > 0) {
+      log.info(`Sweep finished: ${result.purgedJobs.length} job(s), ${result.deletedFiles} file(s)`);
+    }
+    return result;
+  } finally {
+    isSweepRunning = false;
+  }
+}
+
+/**
+ * Запускает периодическую очистку локальных файлов по политике хранения
+ */
+export function startRetentionJanitor(): void {
+  if (janitorTimer) {
+    return;
+  }
+
+  const intervalMs = parseInt(process.env.RETENTION_JANITOR_INTERVAL_MS || "", 10) || DEFAULT_JANITOR_INTERVAL_MS;
+  const policy = getRetentionPolicy();
+  log.info(
+    `Started, interval: ${intervalMs / 1000}s, uploaded: ${policy.uploadedDays ?? "keep"} day(s), error: ${policy.errorDays ?? "keep"} day(s)`
+  );
+
+  const sweep = () => {
+    runRetentionSweep().catch((error: unknown) => {
+      log.error("Sweep failed", { error });
+    });
+  };
+
+  sweep();
+  janitorTimer = setInterval(sweep, intervalMs);
+}
@@ -0,0 +1,49 @@
+import { describe, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { selectJobsToStart } from "./jobDispatcher";
+import { VideoJob } from "../models/videoJob";
+
+function makeJob(id: string, channelId?: string): VideoJob {
+  return { id, jobId: id, prompt: "prompt", channelId, status: "queued", createdAt: 0, updatedAt: 0 };
+}
+
+function ids(jobs: VideoJob[]): string[] {
+  return jobs.map((job) => job.id);
+}
+
+describe("selectJobsToStart", () => {
+  test("запускает задачи в порядке очереди до глобального лимита", () => {
+    const waiting = [makeJob("a", "c1"), makeJob("b", "c2"), makeJob("c", "c3")];
+    assert.deepEqual(ids(selectJobsToStart(waiting, [], 2, new Map())), ["a", "b"]);
+  });
+
+  test("учитывает слоты, уже занятые работающими задачами", () => {
+    const waiting = [makeJob("a", "c1"), makeJob("b", "c2")];
+    assert.deepEqual(ids(selectJobsToStart(waiting, ["c3"], 2, new Map())), ["a"]);
+    assert.deepEqual(ids(selectJobsToStart(waiting, ["c3", "c4"], 2, new Map())), []);
+  });
+
+  test("пропускает задачи канала, исчерпавшего свой лимит, и отдаёт слот следующей", () => {
+    const waiting = [makeJob("a", "c1"), makeJob("b", "c1"), makeJob("c", "c2")];
+    const limits = new Map<string, number | null>([["c1", 1]]);
+    assert.deepEqual(ids(selectJobsToStart(waiting, [], 3, limits)), ["a", "c"]);
+  });
+
+  test("считает уже работающие задачи канала в его лимите", () => {
+    const waiting = [makeJob("a", "c1"), makeJob("b", "c2")];
+    const limits = new Map<string, number | null>([["c1", 1]]);
+    assert.deepEqual(ids(selectJobsToStart(waiting, ["c1"], 3, limits)), ["b"]);
+  });
+
+  test("канал без собственного лимита ограничен только глобальным", () => {
+    const waiting = [makeJob("a", "c1"), makeJob("b", "c1"), makeJob("c", "c1")];
+    const limits = new Map<string, number | null>([["c1", null]]);
+    assert.deepEqual(ids(selectJobsToStart(waiting, ["c1"], 3, limits)), ["a", "b"]);
+  });
+
+  test("задачи без канала не подпадают под лимиты каналов", () => {
+    const waiting = [makeJob("a"), makeJob("b")];
+    const limits = new Map<string, number | null>([["", 1]]);
+    assert.deepEqual(ids(selectJobsToStart(waiting, [""], 3, limits)), ["a", "b"]);
+  });
+});
@@ -0,0 +1,163 @@
+import { getQueuedJobs, getRunningJobs, VideoJob } from "../models/videoJob";
+import { getAllChannels } from "../models/channel";
+import { processVideoGeneration, getProcessingJobIds } from "./videoJobProcessor";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Dispatcher");
+
+const DEFAULT_MAX_ACTIVE_JOBS = 2;
+
+let isDispatching = false;
+let dispatchRequested = false;
+
+/**
+ * Глобальный лимит одновременных генераций (MAX_ACTIVE_JOBS из .env, по умолчанию 2).
+ * Читается при каждом вызове, так как .env загружается уже после импорта модулей.
+ */
+export function getMaxActiveJobs(): number {
+  const value = parseInt(process.env.MAX_ACTIVE_JOBS || "", 10);
+  return Number.isFinite(value) && value >= 1 ? value : DEFAULT_MAX_ACTIVE_JOBS;
+}
+
+/**
+ * Очередь без задач, которые уже подхвачены конвейером, но ещё не сменили статус в Firestore
+ */
+async function getWaitingJobs(): Promise<VideoJob[]> {
+  const processingIds = getProcessingJobIds();
+  const queuedJobs = await getQueuedJobs();
+  return queuedJobs.filter((job) => !processingIds.has(job.id));
+}
+
+/**
+ * Позиции задач в очереди (jobId -> позиция, начиная с 1)
+ */
+export async function getQueuePositions(): Promise<Map<string, number>> {
+  const waitingJobs = await getWaitingJobs();
+  return new Map(waitingJobs.map((job, index) => [job.id, index + 1]));
+}
+
+/**
+ * Состояние очереди: занятые слоты, лимит и позиции ожидающих задач
+ */
+export interface QueueState {
+  activeCount: number;
+  maxActiveJobs: number;
+  queuePositions: Map<string, number>;
+}
+
+/**
+ * Состояние очереди по двум запросам с фильтром по статусу (очередь и рабочие статусы), без чтения всех задач
+ */
+export async function getQueueState(): Promise<QueueState> {
+  const [queuePositions, runningJobs] = await Promise.all([getQueuePositions(), getRunningJobs()]);
+  return {
+    activeCount: runningJobs.length,
+    maxActiveJobs: getMaxActiveJobs(),
+    queuePositions,
+  };
+}
+
+/**
+ * Запускает задачи из очереди, пока есть свободные слоты.
+ *
+ * Слот занимают задачи в статусах sending/waiting_video/downloading.
+ * Задачи берутся в порядке постановки в очередь; если канал задачи исчерпал
+ * собственный лимит (channel.maxActiveJobs), она пропускается, и слот достаётся следующей.
+ * Параллельные вызовы не запускаются: если диспетчер уже работает, он сделает ещё один проход.
+ */
+export async function dispatchQueuedJobs(): Promise<void> {
+  if (isDispatching) {
+    dispatchRequested = true;
+    return;
+  }
+
+  isDispatching = true;
+  try {
+    do {
+      dispatchRequested = false;
+      await dispatchOnce();
+    } while (dispatchRequested);
+  } catch (error: unknown) {
+    log.error("Error while dispatching queued jobs", { error });
+  } finally {
+    isDispatching = false;
+  }
+}
+
+/**
+ * Выбирает задачи для запуска в порядке очереди.
+ * occupiedChannelIds - каналы задач, уже занимающих слоты (по одному элементу на задачу, "" - задача без канала).
+ * Задача канала, исчерпавшего channel.maxActiveJobs, пропускается, и слот достаётся следующей.
+ */
+export function selectJobsToStart(
+  waitingJobs: VideoJob[],
+  occupiedChannelIds: string[],
+  maxActiveJobs: number,
+  channelLimits: Map<string, number | null>
+): VideoJob[] {
+  let totalCount = occupiedChannelIds.length;
+  const channelCounts = new Map<string, number>();
+  for (const channelId of occupiedChannelIds) {
+    channelCounts.set(channelId, (channelCounts.get(channelId) || 0) + 1);
+  }
+
+  const selected: VideoJob[] = [];
+  for (const job of waitingJobs) {
+    if (totalCount >= maxActiveJobs) {
+      break;
+    }
+
+    const channelKey = job.channelId || "";
+    const channelCount = channelCounts.get(channelKey) || 0;
+    const channelLimit = job.channelId ? channelLimits.get(job.channelId) : null;
+    if (channelLimit && channelCount >= channelLimit) {
+      continue;
+    }
+
+    totalCount++;
+    channelCounts.set(channelKey, channelCount + 1);
+    selected.push(job);
+  }
+  return selected;
+}
+
+async function dispatchOnce(): Promise<void> {
+  const processingIds = getProcessingJobIds();
+  const queuedJobs = await getQueuedJobs();
+  const waitingJobs = queuedJobs.filter((job) => !processingIds.has(job.id));
+  if (waitingJobs.length === 0) {
+    return;
+  }
+
+  const maxActiveJobs = getMaxActiveJobs();
+  const runningJobs = await getRunningJobs();
+
+  // Слоты: задачи в рабочих статусах + подхваченные конвейером, но ещё не обновлённые в Firestore
+  const occupiedChannels = new Map<string, string>();
+  for (const job of runningJobs) {
+    occupiedChannels.set(job.id, job.channelId || "");
+  }
+  for (const job of queuedJobs) {
+    if (processingIds.has(job.id)) {
+      occupiedChannels.set(job.id, job.channelId || "");
+    }
+  }
+
+  if (occupiedChannels.size >= maxActiveJobs) {
+    return;
+  }
+
+  const channels = await getAllChannels();
+  const channelLimits = new Map(channels.map((channel) => [channel.id, channel.maxActiveJobs || null]));
+
+  const jobsToStart = selectJobsToStart(waitingJobs, Array.from(occupiedChannels.values()), maxActiveJobs, channelLimits);
+  let totalCount = occupiedChannels.size;
+  for (const job of jobsToStart) {
+    totalCount++;
+    log.info(`Job ${job.id}: starting (slots ${totalCount}/${maxActiveJobs})`, { jobId: job.id, channelId: job.channelId });
+
+    processVideoGeneration(job.id).catch((error) => {
+      log.error(`Unhandled error in processVideoGeneration for job ${job.id}`, { jobId: job.id, error });
+    });
+  }
+}
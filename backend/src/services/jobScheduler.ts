@@ -0,0 +1,69 @@
+import { getDueScheduledJobs, updateJob, InvalidStatusTransitionError } from "../models/videoJob";
+import { dispatchQueuedJobs } from "./jobDispatcher";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Scheduler");
+
+const DEFAULT_SCHEDULER_INTERVAL_MS = 30 * 1000;
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let isTickRunning = false;
+
+/**
+ * Один проход планировщика: переводит наступившие запланированные задачи в очередь
+ * и передаёт очередь диспетчеру, который запускает их по мере освобождения слотов.
+ * Проход заодно служит страховкой: если диспетчер не был вызван после ошибки, очередь не застрянет.
+ */
+export async function runSchedulerTick(): Promise<void> {
+  if (isTickRunning) {
+    return;
+  }
+
+  isTickRunning = true;
+  try {
+    const dueJobs = await getDueScheduledJobs();
+    if (dueJobs.length > 0) {
+      log.info(`${dueJobs.length} scheduled job(s) are due`);
+    }
+
+    for (const job of dueJobs) {
+      try {
+        await updateJob(
+          job.id,
+          { status: "queued", queuedAt: Date.now() },
+          { eventMessage: "Наступило запланированное время запуска" }
+        );
+        log.info(`Job ${job.id}: promoted to queue (scheduled for ${new Date(job.scheduledAt || 0).toISOString()})`, {
+          jobId: job.id,
+          channelId: job.channelId,
+        });
+      } catch (error: unknown) {
+        // Задачу могли отменить между выборкой и обновлением
+        if (!(error instanceof InvalidStatusTransitionError)) {
+          throw error;
+        }
+        log.info(`Job ${job.id}: skipped, ${error.message}`, { jobId: job.id });
+      }
+    }
+
+    await dispatchQueuedJobs();
+  } catch (error: unknown) {
+    log.error("Error while processing scheduled jobs", { error });
+  } finally {
+    isTickRunning = false;
+  }
+}
+
+/**
+ * Запускает периодический планировщик задач
+ */
+export function startJobScheduler(): void {
+  if (schedulerTimer) {
+    return;
+  }
+
+  const intervalMs = parseInt(process.env.JOB_SCHEDULER_INTERVAL_MS || "", 10) || DEFAULT_SCHEDULER_INTERVAL_MS;
+  log.info(`Started, interval: ${intervalMs / 1000}s`);
+  runSchedulerTick();
+  schedulerTimer = setInterval(runSchedulerTick, intervalMs);
+}
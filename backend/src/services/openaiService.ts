@@ -1,5 +1,13 @@
 import OpenAI from "openai";
 import { Channel } from "../models/channel";
+import { OpenAIOperation, OpenAIUsageAttribution } from "../models/openaiUsage";
+import { trackOpenAIUsage } from "./openaiUsage";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("OpenAI");
+
+// Недорогая модель для всех текстовых запросов
+const CHAT_MODEL = "gpt-4o-mini";
 
 // Инициализация OpenAI клиента (ленивая инициализация)
 let openai: OpenAI | null = null;
@@ -17,6 +25,26 @@ function getOpenAIClient(): OpenAI {
   return openai;
 }
 
+/**
+ * Записывает токены ответа в учёт расходов. Цена берётся по запрошенной модели:
+ * в ответе приходит версия с датой (gpt-4o-mini-2024-07-18), которой нет в таблице цен.
+ */
+function trackCompletionUsage(
+  operation: OpenAIOperation,
+  response: OpenAI.Chat.Completions.ChatCompletion,
+  attribution: OpenAIUsageAttribution
+): Promise<string | null> {
+  return trackOpenAIUsage(
+    operation,
+    CHAT_MODEL,
+    {
+      promptTokens: response.usage?.prompt_tokens || 0,
+      completionTokens: response.usage?.completion_tokens || 0,
+    },
+    attribution
+  );
+}
+
 export interface Idea {
   id: string;
   title: string;
@@ -26,6 +54,7 @@ export interface Idea {
 export interface VeoPromptResult {
   veoPrompt: string;
   videoTitle: string;
+  usageId: string | null; // Запись расхода OpenAI, чтобы привязать её к задаче, созданной по этому промпту
 }
 
 /**
@@ -33,11 +62,13 @@ export interface VeoPromptResult {
  * @param channel - Канал с шаблоном промпта
  * @param theme - Дополнительная тема (опционально)
  * @param count - Количество идей (по умолчанию 5)
+ * @param attribution - Задача или пакет для учёта расходов (по умолчанию из контекста)
  */
 export async function generateIdeas(
   channel: Channel,
   theme: string | null,
-  count: number = 5
+  count: number = 5,
+  attribution: OpenAIUsageAttribution = {}
 ): Promise<Idea[]> {
   try {
     // Формируем промпт для генерации идей
@@ -58,11 +89,11 @@ export async function generateIdeas(
       prompt += "\n\nВерни ответ строго в формате JSON: массив объектов с полями title и description.";
     }
 
-    console.log("[OpenAI] Generating ideas with prompt:", prompt.substring(0, 200) + "...");
+    log.debug("Generating ideas", { prompt: prompt.substring(0, 200) });
 
     const client = getOpenAIClient();
     const response = await client.chat.completions.create({
-      model: "gpt-4o-mini", // Используем недорогую модель
+      model: CHAT_MODEL,
       messages: [
         {
           role: "system",
@@ -78,13 +109,14 @@ export async function generateIdeas(
       max_tokens: 2000,
       response_format: { type: "json_object" }, // Принудительный JSON режим
     });
+    await trackCompletionUsage("ideas", response, { channelId: channel.id, channelName: channel.name, ...attribution });
 
     const content = response.choices[0]?.message?.content;
     if (!content) {
       throw new Error("OpenAI вернул пустой ответ");
     }
 
-    console.log("[OpenAI] Raw response:", content.substring(0, 200) + "...");
+    log.debug("Raw response", { content: content.substring(0, 200) });
 
     // Парсим JSON ответ
     let parsed: any;
@@ -129,10 +161,10 @@ export async function generateIdeas(
       throw new Error("Не удалось сгенерировать идеи");
     }
 
-    console.log(`[OpenAI] Generated ${ideas.length} ideas`);
+    log.info(`Generated ${ideas.length} ideas`);
     return ideas;
   } catch (error: unknown) {
-    console.error("[OpenAI] Error generating ideas:", error);
+    log.error("Error generating ideas", { error });
     if (error instanceof Error) {
       throw new Error(`Ошибка генерации идей: ${error.message}`);
     }
@@ -144,10 +176,12 @@ export async function generateIdeas(
  * Генерирует финальный промпт для Veo и название видео на основе идеи
  * @param channel - Канал с шаблоном промпта
  * @param idea - Выбранная идея (title и description)
+ * @param attribution - Задача или пакет для учёта расходов (по умолчанию из контекста)
  */
 export async function generateVeoPrompt(
   channel: Channel,
-  idea: { title: string; description: string }
+  idea: { title: string; description: string },
+  attribution: OpenAIUsageAttribution = {}
 ): Promise<VeoPromptResult> {
   try {
     // Формируем текст идеи
@@ -180,11 +214,11 @@ export async function generateVeoPrompt(
     const promptLangName = langInfo.prompt;
     const titleLangName = langInfo.title;
 
-    console.log(`[OpenAI] Generating Veo prompt with template (language: ${channel.language}):`, prompt.substring(0, 200) + "...");
+    log.debug(`Generating Veo prompt with template (language: ${channel.language})`, { prompt: prompt.substring(0, 200) });
 
     const client = getOpenAIClient();
     const response = await client.chat.completions.create({
-      model: "gpt-4o-mini",
+      model: CHAT_MODEL,
       messages: [
         {
           role: "system",
@@ -200,13 +234,18 @@ export async function generateVeoPrompt(
       max_tokens: 1000,
       response_format: { type: "json_object" },
     });
+    const usageId = await trackCompletionUsage("veo_prompt", response, {
+      channelId: channel.id,
+      channelName: channel.name,
+      ...attribution,
+    });
 
     const content = response.choices[0]?.message?.content;
     if (!content) {
       throw new Error("OpenAI вернул пустой ответ");
     }
 
-    console.log("[OpenAI] Raw response:", content.substring(0, 200) + "...");
+    log.debug("Raw response", { content: content.substring(0, 200) });
 
     // Парсим JSON ответ
     let parsed: any;
@@ -236,13 +275,14 @@ export async function generateVeoPrompt(
       throw new Error("Не удалось получить промпт для Veo из ответа OpenAI");
     }
 
-    console.log("[OpenAI] Generated Veo prompt and title");
+    log.info("Generated Veo prompt and title");
     return {
       veoPrompt: veoPrompt.trim(),
       videoTitle: videoTitle.trim(),
+      usageId,
     };
   } catch (error: unknown) {
-    console.error("[OpenAI] Error generating Veo prompt:", error);
+    log.error("Error generating Veo prompt", { error });
     if (error instanceof Error) {
       throw new Error(`Ошибка генерации промпта: ${error.message}`);
     }
@@ -255,11 +295,13 @@ export async function generateVeoPrompt(
  * @param prompt - Финальный промпт для Veo 3.1 Fast
  * @param channelName - Название канала (опционально, для контекста)
  * @param language - Язык названия (по умолчанию "ru")
+ * @param attribution - Канал и задача для учёта расходов (по умолчанию из контекста)
  */
 export async function generateTitle(
   prompt: string,
   channelName?: string,
-  language: string = "ru"
+  language: string = "ru",
+  attribution: OpenAIUsageAttribution = {}
 ): Promise<string> {
   try {
     const client = getOpenAIClient();
@@ -282,10 +324,10 @@ export async function generateTitle(
     // Формируем user prompt
     let userPrompt = `Описание видео:\n${prompt}`;
 
-    console.log("[OpenAI] Generating title for prompt:", prompt.substring(0, 100) + "...");
+    log.debug("Generating title", { prompt: prompt.substring(0, 100) });
 
     const response = await client.chat.completions.create({
-      model: "gpt-4o-mini",
+      model: CHAT_MODEL,
       messages: [
         {
           role: "system",
@@ -299,6 +341,7 @@ export async function generateTitle(
       temperature: 0.8, // Креативность для названий
       max_tokens: 100,
     });
+    await trackCompletionUsage("title", response, { channelName: channelName || null, ...attribution });
 
     const content = response.choices[0]?.message?.content;
     if (!content) {
@@ -325,10 +368,10 @@ export async function generateTitle(
       }
     }
 
-    console.log(`[OpenAI] Generated title: ${title}`);
+    log.info(`Generated title: ${title}`);
     return title;
   } catch (error: unknown) {
-    console.error("[OpenAI] Error generating title:", error);
+    log.error("Error generating title", { error });
     if (error instanceof Error) {
       throw new Error(`Ошибка генерации названия: ${error.message}`);
     }
@@ -0,0 +1,194 @@
+import {
+  assignUsageToJob,
+  calculateUsageCost,
+  createUsageRecord,
+  DEFAULT_OPENAI_PRICES,
+  getUsageByMonth,
+  getUsageMonth,
+  OPENAI_OPERATIONS,
+  OpenAIModelPrice,
+  OpenAIOperation,
+  OpenAIUsageAmount,
+  OpenAIUsageAttribution,
+  OpenAIUsageMonthlyReport,
+  OpenAIUsageRecord,
+  OpenAIUsageTotals,
+} from "../models/openaiUsage";
+import { createLogger, getLogContext } from "../utils/logger";
+
+const log = createLogger("OpenAIUsage");
+
+const MAX_REPORT_JOBS = 50;
+
+/**
+ * Таблица цен: значения по умолчанию, поверх которых накладывается OPENAI_PRICES.
+ * Читается при каждом вызове, так как .env загружается уже после импорта модулей.
+ */
+export function getOpenAIPrices(): Record<string, OpenAIModelPrice> {
+  const raw = process.env.OPENAI_PRICES;
+  if (!raw) {
+    return DEFAULT_OPENAI_PRICES;
+  }
+  try {
+    const overrides = JSON.parse(raw) as Record<string, OpenAIModelPrice>;
+    const prices = { ...DEFAULT_OPENAI_PRICES };
+    for (const [model, price] of Object.entries(overrides)) {
+      prices[model] = { ...prices[model], ...price };
+    }
+    return prices;
+  } catch (error: unknown) {
+    log.warn("OPENAI_PRICES is not valid JSON, using default prices", { error });
+    return DEFAULT_OPENAI_PRICES;
+  }
+}
+
+/**
+ * Записать расход одного вызова OpenAI с привязкой к каналу и задаче.
+ * Ошибки только логируются: учёт расходов не должен ломать генерацию. Возвращает ID записи или null.
+ */
+export async function trackOpenAIUsage(
+  operation: OpenAIOperation,
+  model: string,
+  amount: OpenAIUsageAmount,
+  attribution: OpenAIUsageAttribution = {}
+): Promise<string | null> {
+  try {
+    const context = getLogContext();
+    const price = getOpenAIPrices()[model] || null;
+    const promptTokens = amount.promptTokens || 0;
+    const completionTokens = amount.completionTokens || 0;
+    const now = Date.now();
+
+    if (!price) {
+      log.warn(`No price for OpenAI model ${model}, cost is recorded as 0`);
+    }
+
+    const record = await createUsageRecord({
+      month: getUsageMonth(now),
+      operation,
+      model,
+      channelId: attribution.channelId || context.channelId || null,
+      channelName: attribution.channelName || null,
+      jobId: attribution.jobId || context.jobId || null,
+      batchId: attribution.batchId || context.batchId || null,
+      requestId: context.requestId || null,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      audioSeconds: amount.audioSeconds || 0,
+      price,
+      costUsd: calculateUsageCost(price, amount),
+      createdAt: now,
+    });
+
+    log.debug(`OpenAI usage recorded: ${operation}`, {
+      model,
+      promptTokens,
+      completionTokens,
+      audioSeconds: record.audioSeconds,
+      costUsd: record.costUsd,
+    });
+    return record.id;
+  } catch (error: unknown) {
+    log.error(`Failed to record OpenAI usage for ${operation}`, { error });
+    return null;
+  }
+}
+
+/**
+ * Привязать ранее записанный вызов к задаче. Ошибки только логируются.
+ */
+export async function attachUsageToJob(usageId: string | null | undefined, jobId: string): Promise<void> {
+  if (!usageId) {
+    return;
+  }
+  try {
+    await assignUsageToJob(usageId, jobId);
+  } catch (error: unknown) {
+    log.error(`Failed to attach OpenAI usage ${usageId} to job`, { error, jobId });
+  }
+}
+
+function emptyTotals(): OpenAIUsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, audioSeconds: 0, costUsd: 0 };
+}
+
+function sumTotals(records: OpenAIUsageRecord[]): OpenAIUsageTotals {
+  const totals = emptyTotals();
+  for (const record of records) {
+    totals.calls += 1;
+    totals.promptTokens += record.promptTokens || 0;
+    totals.completionTokens += record.completionTokens || 0;
+    totals.totalTokens += record.totalTokens || 0;
+    totals.audioSeconds += record.audioSeconds || 0;
+    totals.costUsd += record.costUsd || 0;
+  }
+  totals.audioSeconds = Math.round(totals.audioSeconds * 10) / 10;
+  totals.costUsd = Math.round(totals.costUsd * 1e6) / 1e6;
+  return totals;
+}
+
+function sumByOperation(records: OpenAIUsageRecord[]): Record<OpenAIOperation, OpenAIUsageTotals> {
+  return Object.fromEntries(
+    OPENAI_OPERATIONS.map((operation) => [
+      operation,
+      sumTotals(records.filter((record) => record.operation === operation)),
+    ])
+  ) as Record<OpenAIOperation, OpenAIUsageTotals>;
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getKey(item);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+  return groups;
+}
+
+/**
+ * Расходы OpenAI за месяц: итого, по операциям, моделям, каналам и самым дорогим задачам
+ */
+export async function getMonthlyUsageReport(month: string, channelId?: string): Promise<OpenAIUsageMonthlyReport> {
+  const allRecords = await getUsageByMonth(month);
+  // Фильтр по каналу в памяти, чтобы не требовался составной индекс
+  const records = channelId ? allRecords.filter((record) => record.channelId === channelId) : allRecords;
+
+  const byModel = Array.from(groupBy(records, (record) => record.model)).map(([model, modelRecords]) => ({
+    model,
+    ...sumTotals(modelRecords),
+  }));
+
+  const byChannel = Array.from(groupBy(records, (record) => record.channelId || ""))
+    .map(([, channelRecords]) => {
+      // Название канала есть не у всех вызовов (например, транскрипция), берём последнее известное
+      const named = channelRecords
+        .filter((record) => record.channelName)
+        .sort((a, b) => b.createdAt - a.createdAt)[0];
+      return {
+        channelId: channelRecords[0].channelId || null,
+        channelName: named?.channelName || null,
+        ...sumTotals(channelRecords),
+        byOperation: sumByOperation(channelRecords),
+      };
+    })
+    .sort((a, b) => b.costUsd - a.costUsd);
+
+  const byJob = Array.from(groupBy(records.filter((record) => record.jobId), (record) => record.jobId as string))
+    .map(([jobId, jobRecords]) => ({
+      jobId,
+      channelId: jobRecords[0].channelId || null,
+      ...sumTotals(jobRecords),
+    }))
+    .sort((a, b) => b.costUsd - a.costUsd)
+    .slice(0, MAX_REPORT_JOBS);
+
+  return {
+    month,
+    totals: sumTotals(records),
+    byOperation: sumByOperation(records),
+    byModel,
+    byChannel,
+    byJob,
+  };
+}
@@ -0,0 +1,230 @@
+import { getAllJobs, VideoJobStatus, VIDEO_JOB_TRANSITIONS } from "../models/videoJob";
+import {
+  getDailyStats,
+  getStatsDay,
+  JOB_OUTCOMES,
+  JobOutcome,
+  PIPELINE_STAGES,
+  PipelineOutcomeSummary,
+  PipelineStage,
+  PipelineStatsReport,
+  STAGE_DURATION_BUCKETS_SECONDS,
+  StageDurationStats,
+  StageDurationSummary,
+  VideoJobDailyStats,
+} from "../models/videoJobStats";
+import { getMaxActiveJobs } from "./jobDispatcher";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_STATS_DAYS = 30;
+export const MAX_STATS_DAYS = 365;
+
+// Prometheus опрашивает /metrics часто, поэтому ответ кэшируется, чтобы не читать Firestore на каждый запрос
+const METRICS_CACHE_MS = 30 * 1000;
+
+let metricsCache: { body: string; expiresAt: number } | null = null;
+
+const STAGES = Object.keys(PIPELINE_STAGES) as PipelineStage[];
+
+function emptyStageStats(): StageDurationStats {
+  return { count: 0, totalMs: 0, buckets: {} };
+}
+
+function addStageStats(target: StageDurationStats, source: StageDurationStats | undefined): void {
+  if (!source) {
+    return;
+  }
+  target.count += source.count || 0;
+  target.totalMs += source.totalMs || 0;
+  for (const [bound, count] of Object.entries(source.buckets || {})) {
+    target.buckets[bound] = (target.buckets[bound] || 0) + count;
+  }
+}
+
+function mergeStages(rows: VideoJobDailyStats[]): Record<PipelineStage, StageDurationStats> {
+  const merged = Object.fromEntries(STAGES.map((stage) => [stage, emptyStageStats()])) as Record<
+    PipelineStage,
+    StageDurationStats
+  >;
+  for (const row of rows) {
+    for (const stage of STAGES) {
+      addStageStats(merged[stage], row.stages?.[stage]);
+    }
+  }
+  return merged;
+}
+
+function mergeCounts(rows: VideoJobDailyStats[]): Record<JobOutcome, number> {
+  const counts = Object.fromEntries(JOB_OUTCOMES.map((outcome) => [outcome, 0])) as Record<JobOutcome, number>;
+  for (const row of rows) {
+    for (const outcome of JOB_OUTCOMES) {
+      counts[outcome] += row.counts?.[outcome] || 0;
+    }
+  }
+  return counts;
+}
+
+function rate(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 1000) / 1000 : null;
+}
+
+function summarizeOutcomes(rows: VideoJobDailyStats[]): PipelineOutcomeSummary {
+  const counts = mergeCounts(rows);
+  const finishedGenerations = counts.generated + counts.timeout + counts.error;
+  const reviewed = counts.uploaded + counts.rejected;
+  return {
+    counts,
+    successRate: rate(counts.generated, finishedGenerations),
+    timeoutRate: rate(counts.timeout, finishedGenerations),
+    errorRate: rate(counts.error, finishedGenerations),
+    rejectRate: rate(counts.rejected, reviewed),
+  };
+}
+
+/**
+ * Оценка перцентиля по гистограмме: верхняя граница интервала, в который попадает перцентиль
+ */
+function estimatePercentileMs(stats: StageDurationStats, percentile: number): number | null {
+  if (stats.count === 0) {
+    return null;
+  }
+  const target = stats.count * percentile;
+  let cumulative = 0;
+  for (const bound of STAGE_DURATION_BUCKETS_SECONDS) {
+    cumulative += stats.buckets[String(bound)] || 0;
+    if (cumulative >= target) {
+      return bound * 1000;
+    }
+  }
+  return null;
+}
+
+function summarizeStages(rows: VideoJobDailyStats[]): Record<PipelineStage, StageDurationSummary> {
+  const merged = mergeStages(rows);
+  return Object.fromEntries(
+    STAGES.map((stage) => {
+      const stats = merged[stage];
+      return [
+        stage,
+        {
+          count: stats.count,
+          avgMs: stats.count > 0 ? Math.round(stats.totalMs / stats.count) : null,
+          p50Ms: estimatePercentileMs(stats, 0.5),
+          p95Ms: estimatePercentileMs(stats, 0.95),
+        },
+      ];
+    })
+  ) as Record<PipelineStage, StageDurationSummary>;
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getKey(item);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+  return groups;
+}
+
+/**
+ * Статистика конвейера за последние days дней (включая сегодня): длительности этапов,
+ * доли успехов, таймаутов и отклонений в целом, по каналам и по дням
+ */
+export async function getPipelineStats(
+  days: number = DEFAULT_STATS_DAYS,
+  channelId?: string,
+  now: number = Date.now()
+): Promise<PipelineStatsReport> {
+  const from = getStatsDay(now - (days - 1) * DAY_MS);
+  const to = getStatsDay(now);
+  const allRows = await getDailyStats(from, to);
+  // Фильтр по каналу в памяти, чтобы не требовался составной индекс
+  const rows = channelId ? allRows.filter((row) => row.channelId === channelId) : allRows;
+
+  const byChannel = Array.from(groupBy(rows, (row) => row.channelId || "")).map(([, channelRows]) => {
+    const latest = channelRows[channelRows.length - 1];
+    return {
+      channelId: latest.channelId,
+      channelName: latest.channelName,
+      ...summarizeOutcomes(channelRows),
+      stages: summarizeStages(channelRows),
+    };
+  });
+
+  const byDay = Array.from(groupBy(rows, (row) => row.day)).map(([day, dayRows]) => ({
+    day,
+    ...summarizeOutcomes(dayRows),
+  }));
+
+  return {
+    from,
+    to,
+    stages: summarizeStages(rows),
+    totals: summarizeOutcomes(rows),
+    byChannel,
+    byDay,
+  };
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+async function buildPrometheusMetrics(): Promise<string> {
+  const [rows, jobs] = await Promise.all([getDailyStats(), getAllJobs()]);
+  const lines: string[] = [];
+
+  lines.push("# HELP video_jobs_outcomes_total Job creations and status outcomes by channel.");
+  lines.push("# TYPE video_jobs_outcomes_total counter");
+  for (const [channelKey, channelRows] of groupBy(rows, (row) => row.channelId || "")) {
+    const counts = mergeCounts(channelRows);
+    for (const outcome of JOB_OUTCOMES) {
+      lines.push(`video_jobs_outcomes_total${formatLabels({ channel: channelKey, outcome })} ${counts[outcome]}`);
+    }
+  }
+
+  lines.push("# HELP video_job_stage_duration_seconds Duration of successfully completed pipeline stages.");
+  lines.push("# TYPE video_job_stage_duration_seconds histogram");
+  const stages = mergeStages(rows);
+  for (const stage of STAGES) {
+    const stats = stages[stage];
+    let cumulative = 0;
+    for (const bound of STAGE_DURATION_BUCKETS_SECONDS) {
+      cumulative += stats.buckets[String(bound)] || 0;
+      lines.push(`video_job_stage_duration_seconds_bucket${formatLabels({ stage, le: String(bound) })} ${cumulative}`);
+    }
+    lines.push(`video_job_stage_duration_seconds_bucket${formatLabels({ stage, le: "+Inf" })} ${stats.count}`);
+    lines.push(`video_job_stage_duration_seconds_sum${formatLabels({ stage })} ${stats.totalMs / 1000}`);
+    lines.push(`video_job_stage_duration_seconds_count${formatLabels({ stage })} ${stats.count}`);
+  }
+
+  lines.push("# HELP video_jobs_current Current number of jobs by status.");
+  lines.push("# TYPE video_jobs_current gauge");
+  const byStatus = groupBy(jobs, (job) => job.status);
+  for (const status of Object.keys(VIDEO_JOB_TRANSITIONS) as VideoJobStatus[]) {
+    lines.push(`video_jobs_current${formatLabels({ status })} ${byStatus.get(status)?.length || 0}`);
+  }
+
+  lines.push("# HELP video_jobs_max_active Generation slot limit (MAX_ACTIVE_JOBS).");
+  lines.push("# TYPE video_jobs_max_active gauge");
+  lines.push(`video_jobs_max_active ${getMaxActiveJobs()}`);
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Метрики в текстовом формате Prometheus (счётчики за всё время и текущее состояние очереди)
+ */
+export async function getPrometheusMetrics(now: number = Date.now()): Promise<string> {
+  if (metricsCache && metricsCache.expiresAt > now) {
+    return metricsCache.body;
+  }
+  const body = await buildPrometheusMetrics();
+  metricsCache = { body, expiresAt: now + METRICS_CACHE_MS };
+  return body;
+}
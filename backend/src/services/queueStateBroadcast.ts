@@ -0,0 +1,109 @@
+import { getQueueState, QueueState } from "./jobDispatcher";
+import { subscribeToVideoJobChanges } from "./videoJobChanges";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("QueueState");
+
+// Задержка пересчёта очереди после серии изменений задач
+const QUEUE_STATE_DEBOUNCE_MS = 1000;
+
+type QueueStateListener = (state: QueueState) => void;
+
+const listeners = new Set<QueueStateListener>();
+let latestState: QueueState | null = null;
+let unsubscribeFromChanges: (() => void) | null = null;
+let refreshTimer: NodeJS.Timeout | null = null;
+let refreshInFlight: Promise<QueueState> | null = null;
+let refreshRequested = false;
+
+function broadcast(state: QueueState): void {
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(state);
+    } catch (error: unknown) {
+      log.error("Queue state listener failed", { error });
+    }
+  }
+}
+
+/**
+ * Пересчитывает состояние очереди. Параллельные вызовы используют один запрос;
+ * если изменения пришли во время пересчёта, он повторяется сразу после завершения.
+ */
+function refreshQueueState(notify: boolean): Promise<QueueState> {
+  if (refreshInFlight) {
+    refreshRequested = refreshRequested || notify;
+    return refreshInFlight;
+  }
+
+  refreshInFlight = getQueueState()
+    .then((state) => {
+      latestState = state;
+      if (notify) {
+        broadcast(state);
+      }
+      return state;
+    })
+    .catch((error: unknown) => {
+      log.error("Failed to load queue state", { error });
+      throw error;
+    })
+    .finally(() => {
+      refreshInFlight = null;
+      if (refreshRequested && listeners.size > 0) {
+        refreshRequested = false;
+        refreshQueueState(true).catch(() => undefined);
+      }
+    });
+  return refreshInFlight;
+}
+
+/**
+ * Позиции в очереди общие для всех каналов, поэтому пересчитываем их при любом изменении задачи,
+ * но не чаще раза в QUEUE_STATE_DEBOUNCE_MS на все подключения сразу
+ */
+function scheduleRefresh(): void {
+  if (refreshTimer) {
+    return;
+  }
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    refreshQueueState(true).catch(() => undefined);
+  }, QUEUE_STATE_DEBOUNCE_MS);
+}
+
+/**
+ * Подписывает на состояние очереди: один пересчёт после серии изменений рассылается всем подписчикам.
+ * Возвращает функцию отписки.
+ */
+export function subscribeToQueueState(listener: QueueStateListener): () => void {
+  listeners.add(listener);
+  if (!unsubscribeFromChanges) {
+    unsubscribeFromChanges = subscribeToVideoJobChanges(scheduleRefresh);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) {
+      return;
+    }
+    unsubscribeFromChanges?.();
+    unsubscribeFromChanges = null;
+    if (refreshTimer) {
+      clearTimeout(refreshTimer);
+      refreshTimer = null;
+    }
+    // Без подписки на изменения сохранённое состояние устареет
+    latestState = null;
+  };
+}
+
+/**
+ * Текущее состояние очереди: сохранённое, пока есть подписчики, иначе свежий пересчёт
+ */
+export function getCurrentQueueState(): Promise<QueueState> {
+  if (latestState && unsubscribeFromChanges) {
+    return Promise.resolve(latestState);
+  }
+  return refreshQueueState(false);
+}
@@ -0,0 +1,255 @@
+import {
+  DEFAULT_REJECT_REASONS,
+  getReviewFeedbackSince,
+  MAX_REVIEW_NOTES_LENGTH,
+  MAX_REVIEW_RATING,
+  MIN_REVIEW_RATING,
+  RejectReason,
+  RejectReasonCount,
+  ReviewDecision,
+  ReviewFeedback,
+  ReviewFeedbackInput,
+  ReviewFeedbackRecord,
+  ReviewFeedbackReport,
+  ReviewFeedbackSummary,
+  saveReviewFeedbackRecord,
+} from "../models/reviewFeedback";
+import { getStatsDay } from "../models/videoJobStats";
+import { updateJob, VideoJob } from "../models/videoJob";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Review");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_REVIEW_STATS_DAYS = 30;
+export const MAX_REVIEW_STATS_DAYS = 365;
+
+export type ReviewFeedbackErrorCode = "INVALID_RATING" | "INVALID_NOTES" | "INVALID_REJECT_REASON" | "REASONS_NOT_ALLOWED";
+
+/**
+ * Оценка из запроса некорректна: рейтинг вне 1-5, слишком длинные заметки, неизвестная причина
+ * или причины отклонения у видео, которое не отклонено
+ */
+export class ReviewFeedbackError extends Error {
+  constructor(
+    public readonly code: ReviewFeedbackErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "ReviewFeedbackError";
+  }
+}
+
+/**
+ * Список причин отклонения: REJECT_REASONS или значения по умолчанию.
+ * Читается при каждом вызове, так как .env загружается уже после импорта модулей.
+ */
+export function getRejectReasons(): RejectReason[] {
+  const raw = process.env.REJECT_REASONS;
+  if (!raw) {
+    return DEFAULT_REJECT_REASONS;
+  }
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    const reasons = Array.isArray(parsed)
+      ? parsed.filter(
+          (item): item is RejectReason =>
+            !!item && typeof item.code === "string" && item.code.trim() !== "" && typeof item.label === "string"
+        )
+      : [];
+    if (reasons.length === 0) {
+      log.warn("REJECT_REASONS has no valid reasons, using default list");
+      return DEFAULT_REJECT_REASONS;
+    }
+    return reasons.map((reason) => ({ code: reason.code.trim(), label: reason.label.trim() || reason.code.trim() }));
+  } catch (error: unknown) {
+    log.warn("REJECT_REASONS is not valid JSON, using default list", { error });
+    return DEFAULT_REJECT_REASONS;
+  }
+}
+
+/**
+ * Разбирает оценку из тела запроса (rating, notes, rejectReasons). Отсутствующие поля не возвращаются.
+ */
+export function parseReviewFeedbackInput(body: unknown): ReviewFeedbackInput {
+  const raw = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const input: ReviewFeedbackInput = {};
+
+  if (raw.rating !== undefined) {
+    if (raw.rating === null || raw.rating === "") {
+      input.rating = null;
+    } else {
+      const rating = typeof raw.rating === "number" ? raw.rating : Number(raw.rating);
+      if (!Number.isInteger(rating) || rating < MIN_REVIEW_RATING || rating > MAX_REVIEW_RATING) {
+        throw new ReviewFeedbackError(
+          "INVALID_RATING",
+          `rating должен быть целым числом от ${MIN_REVIEW_RATING} до ${MAX_REVIEW_RATING}`
+        );
+      }
+      input.rating = rating;
+    }
+  }
+
+  if (raw.notes !== undefined) {
+    if (raw.notes !== null && typeof raw.notes !== "string") {
+      throw new ReviewFeedbackError("INVALID_NOTES", "notes должен быть строкой");
+    }
+    const notes = raw.notes ? raw.notes.trim() : "";
+    if (notes.length > MAX_REVIEW_NOTES_LENGTH) {
+      throw new ReviewFeedbackError("INVALID_NOTES", `notes не длиннее ${MAX_REVIEW_NOTES_LENGTH} символов`);
+    }
+    input.notes = notes || null;
+  }
+
+  if (raw.rejectReasons !== undefined) {
+    if (!Array.isArray(raw.rejectReasons) || raw.rejectReasons.some((code) => typeof code !== "string")) {
+      throw new ReviewFeedbackError("INVALID_REJECT_REASON", "rejectReasons должен быть массивом кодов причин");
+    }
+    const knownCodes = new Set(getRejectReasons().map((reason) => reason.code));
+    const unknown = (raw.rejectReasons as string[]).filter((code) => !knownCodes.has(code));
+    if (unknown.length > 0) {
+      throw new ReviewFeedbackError("INVALID_REJECT_REASON", `Неизвестные причины отклонения: ${unknown.join(", ")}`);
+    }
+    input.rejectReasons = Array.from(new Set(raw.rejectReasons as string[]));
+  }
+
+  return input;
+}
+
+/**
+ * Решение по видео, которое следует из статуса задачи
+ */
+export function getReviewDecision(job: VideoJob): ReviewDecision | null {
+  if (job.status === "uploaded") {
+    return "approved";
+  }
+  if (job.status === "rejected" || (job.status === "trashed" && job.trashReason === "rejected")) {
+    return "rejected";
+  }
+  return null;
+}
+
+/**
+ * Проверяет, что причины отклонения передаются только вместе с отклонением
+ */
+export function assertRejectReasonsAllowed(input: ReviewFeedbackInput, decision: ReviewDecision | null): void {
+  if (decision !== "rejected" && input.rejectReasons && input.rejectReasons.length > 0) {
+    throw new ReviewFeedbackError("REASONS_NOT_ALLOWED", "Причины отклонения можно указать только для отклонённого видео");
+  }
+}
+
+/**
+ * Сохранить оценку задачи: изменения накладываются на текущую оценку (job.review),
+ * результат пишется в задачу и в коллекцию reviewFeedback
+ */
+export async function saveReviewFeedback(
+  job: VideoJob,
+  input: ReviewFeedbackInput,
+  decision: ReviewDecision | null = getReviewDecision(job)
+): Promise<ReviewFeedback> {
+  assertRejectReasonsAllowed(input, decision);
+
+  const previous = job.review;
+  const review: ReviewFeedback = {
+    rating: input.rating !== undefined ? input.rating : previous?.rating ?? null,
+    notes: input.notes !== undefined ? input.notes : previous?.notes ?? null,
+    // Причины имеют смысл только у отклонённого видео; при восстановлении из корзины они сохраняются до нового решения
+    rejectReasons: decision === "approved" ? [] : input.rejectReasons || previous?.rejectReasons || [],
+    decision,
+    reviewedAt: Date.now(),
+  };
+
+  await updateJob(job.id, { review });
+  await saveReviewFeedbackRecord({
+    ...review,
+    id: job.id,
+    jobId: job.id,
+    channelId: job.channelId || null,
+    channelName: job.channelName || null,
+    variantGroupId: job.variantGroupId || null,
+    createdAt: job.createdAt,
+  });
+
+  log.info(`Review saved for job ${job.id}`, {
+    jobId: job.id,
+    decision,
+    rating: review.rating,
+    rejectReasons: review.rejectReasons,
+  });
+  return review;
+}
+
+function summarize(records: ReviewFeedbackRecord[], labels: Map<string, string>): ReviewFeedbackSummary {
+  const approved = records.filter((record) => record.decision === "approved").length;
+  const rejected = records.filter((record) => record.decision === "rejected");
+  const rated = records.filter((record) => record.rating !== null);
+
+  const reasonCounts = new Map<string, number>();
+  for (const record of rejected) {
+    for (const code of record.rejectReasons || []) {
+      reasonCounts.set(code, (reasonCounts.get(code) || 0) + 1);
+    }
+  }
+  const reasons: RejectReasonCount[] = Array.from(reasonCounts.entries())
+    .map(([code, count]) => ({
+      code,
+      // Причина могла быть убрана из REJECT_REASONS после отклонения
+      label: labels.get(code) || code,
+      count,
+      share: count / rejected.length,
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    reviewed: records.length,
+    approved,
+    rejected: rejected.length,
+    rejectRate: approved + rejected.length > 0 ? rejected.length / (approved + rejected.length) : null,
+    rated: rated.length,
+    averageRating: rated.length > 0 ? rated.reduce((sum, record) => sum + (record.rating || 0), 0) / rated.length : null,
+    reasons,
+  };
+}
+
+/**
+ * Отчёт по оценкам за последние days дней: рейтинг, доля отклонений и частые причины в целом и по каналам.
+ * Каналы с наибольшим числом отклонений идут первыми.
+ */
+export async function getReviewFeedbackReport(
+  days: number,
+  channelId?: string,
+  now: number = Date.now()
+): Promise<ReviewFeedbackReport> {
+  const fromDate = new Date(now - (days - 1) * DAY_MS);
+  fromDate.setHours(0, 0, 0, 0);
+
+  const records = (await getReviewFeedbackSince(fromDate.getTime())).filter(
+    (record) => !channelId || record.channelId === channelId
+  );
+  const labels = new Map(getRejectReasons().map((reason) => [reason.code, reason.label]));
+
+  const byChannelRecords = new Map<string, ReviewFeedbackRecord[]>();
+  for (const record of records) {
+    const key = record.channelId || "none";
+    byChannelRecords.set(key, [...(byChannelRecords.get(key) || []), record]);
+  }
+
+  const byChannel = Array.from(byChannelRecords.values())
+    .map((channelRecords) => {
+      // Название берём из самой свежей оценки: канал могли переименовать
+      const latest = channelRecords.reduce((a, b) => (b.reviewedAt > a.reviewedAt ? b : a));
+      return {
+        channelId: latest.channelId,
+        channelName: latest.channelName,
+        ...summarize(channelRecords, labels),
+      };
+    })
+    .sort((a, b) => b.rejected - a.rejected || b.reviewed - a.reviewed);
+
+  return {
+    from: getStatsDay(fromDate.getTime()),
+    to: getStatsDay(now),
+    totals: summarize(records, labels),
+    byChannel,
+  };
+}
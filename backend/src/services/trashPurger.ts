@@ -0,0 +1,98 @@
+import { getTrashedJobs, VideoJob } from "../models/videoJob";
+import { purgeTrashedJob } from "./videoJobReview";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Trash");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TRASH_RETENTION_DAYS = 7;
+const DEFAULT_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface TrashPurgeResult {
+  purgedJobs: string[];
+  deletedFiles: number;
+}
+
+let purgeTimer: NodeJS.Timeout | null = null;
+let isPurgeRunning = false;
+
+/**
+ * Сколько дней задача хранится в корзине (TRASH_RETENTION_DAYS, по умолчанию 7)
+ */
+export function getTrashRetentionDays(): number {
+  const days = parseFloat(process.env.TRASH_RETENTION_DAYS || "");
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Когда задача из корзины будет удалена навсегда (null - задача не в корзине)
+ */
+export function getTrashPurgeAt(job: VideoJob): number | null {
+  if (job.status !== "trashed") {
+    return null;
+  }
+  return (job.trashedAt || job.updatedAt) + getTrashRetentionDays() * DAY_MS;
+}
+
+/**
+ * Один проход: навсегда удаляет задачи (документ, таймлайн и локальные файлы), срок хранения которых в корзине истёк
+ */
+export async function runTrashPurge(now: number = Date.now()): Promise<TrashPurgeResult> {
+  const result: TrashPurgeResult = { purgedJobs: [], deletedFiles: 0 };
+  if (isPurgeRunning) {
+    return result;
+  }
+
+  isPurgeRunning = true;
+  try {
+    const jobs = await getTrashedJobs();
+
+    for (const job of jobs) {
+      const purgeAt = getTrashPurgeAt(job);
+      if (purgeAt === null || purgeAt > now) {
+        continue;
+      }
+
+      try {
+        const deletedFiles = await purgeTrashedJob(job);
+        result.purgedJobs.push(job.id);
+        result.deletedFiles += deletedFiles.length;
+        log.info(`Job ${job.id} purged from trash (${job.trashReason || "deleted"})`, {
+          jobId: job.id,
+          channelId: job.channelId,
+        });
+      } catch (error: unknown) {
+        // Одна задача не должна останавливать очистку остальных
+        log.error(`Failed to purge job ${job.id}`, { error, jobId: job.id });
+      }
+    }
+
+    if (result.purgedJobs.length > 0) {
+      log.info(`Purge finished: ${result.purgedJobs.length} job(s), ${result.deletedFiles} file(s)`);
+    }
+    return result;
+  } finally {
+    isPurgeRunning = false;
+  }
+}
+
+/**
+ * Запускает периодическую очистку корзины
+ */
+export function startTrashPurger(): void {
+  if (purgeTimer) {
+    return;
+  }
+
+  const intervalMs = parseInt(process.env.TRASH_PURGE_INTERVAL_MS || "", 10) || DEFAULT_PURGE_INTERVAL_MS;
+  log.info(`Started, interval: ${intervalMs / 1000}s, retention: ${getTrashRetentionDays()} day(s)`);
+
+  const purge = () => {
+    runTrashPurge().catch((error: unknown) => {
+      log.error("Purge failed", { error });
+    });
+  };
+
+  purge();
+  purgeTimer = setInterval(purge, intervalMs);
+}
@@ -0,0 +1,220 @@
+import { Channel, getChannelById } from "../models/channel";
+import { createJob, getJob, getJobsByBatch, VideoJobStatus } from "../models/videoJob";
+import {
+  VideoJobBatch,
+  VideoJobBatchItem,
+  VideoJobBatchProgress,
+  generateBatchId,
+  createBatch,
+  getBatch,
+  updateBatch,
+  getUnfinishedBatches,
+} from "../models/videoJobBatch";
+import { generateVeoPrompt } from "./openaiService";
+import { attachUsageToJob } from "./openaiUsage";
+import { dispatchQueuedJobs } from "./jobDispatcher";
+import { createLogger, runWithLogContext } from "../utils/logger";
+
+const log = createLogger("Batch");
+
+export interface BatchIdea {
+  title: string;
+  description: string;
+}
+
+/**
+ * ID пакетов, которые сейчас обрабатываются в этом процессе
+ */
+const runningBatches = new Set<string>();
+
+/**
+ * Создаёт пакет и запускает фоновую обработку идей.
+ * Промпты генерируются по очереди, чтобы не упираться в лимиты OpenAI;
+ * каждая задача встаёт в общую очередь сразу после генерации своего промпта.
+ */
+export async function startVideoJobBatch(
+  channel: Channel,
+  ideas: BatchIdea[],
+  scheduledAt?: number
+): Promise<VideoJobBatch> {
+  const now = Date.now();
+  const items: VideoJobBatchItem[] = ideas.map((idea, index) => ({
+    index,
+    ideaTitle: idea.title,
+    ideaDescription: idea.description,
+    status: "pending",
+    jobId: null,
+    videoTitle: null,
+    errorMessage: null,
+  }));
+
+  const batch = await createBatch({
+    id: generateBatchId(),
+    channelId: channel.id,
+    channelName: channel.name,
+    items,
+    scheduledAt: scheduledAt || null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  startBatchProcessing(batch.id);
+  return batch;
+}
+
+async function processBatch(batchId: string): Promise<void> {
+  if (runningBatches.has(batchId)) {
+    return;
+  }
+
+  runningBatches.add(batchId);
+  try {
+    const batch = await getBatch(batchId);
+    if (!batch) {
+      log.error(`Batch ${batchId} not found for processing`);
+      return;
+    }
+
+    const channel = await getChannelById(batch.channelId);
+    const items = batch.items;
+
+    // Элемент в generating_prompt - обработка прервалась; задача могла успеть создаться до сохранения пакета
+    const interruptedJobs = items.some((item) => item.status === "generating_prompt")
+      ? await getJobsByBatch(batchId)
+      : [];
+
+    for (const item of items) {
+      if (item.status !== "pending" && item.status !== "generating_prompt") {
+        continue;
+      }
+
+      const existingJob = interruptedJobs.find((job) => job.batchItemIndex === item.index);
+      if (existingJob) {
+        item.status = "job_created";
+        item.jobId = existingJob.id;
+        item.videoTitle = existingJob.videoTitle || null;
+        log.info(`Batch ${batchId}: item ${item.index + 1} already has job ${existingJob.id}`, { jobId: existingJob.id });
+        await updateBatch(batchId, { items });
+        continue;
+      }
+
+      if (!channel) {
+        item.status = "failed";
+        item.errorMessage = "Канал не найден";
+        continue;
+      }
+
+      item.status = "generating_prompt";
+      await updateBatch(batchId, { items });
+
+      try {
+        const result = await generateVeoPrompt(channel, {
+          title: item.ideaTitle,
+          description: item.ideaDescription,
+        });
+
+        const job = await createJob(
+          result.veoPrompt,
+          channel.id,
+          channel.name,
+          `${item.ideaTitle}. ${item.ideaDescription}`,
+          result.videoTitle,
+          { scheduledAt: batch.scheduledAt || undefined, batchId, batchItemIndex: item.index }
+        );
+
+        // Промпт генерируется до создания задачи, поэтому его расход привязываем к задаче отдельно
+        await attachUsageToJob(result.usageId, job.id);
+
+        item.status = "job_created";
+        item.jobId = job.id;
+        item.videoTitle = result.videoTitle;
+        log.info(`Batch ${batchId}: item ${item.index + 1}/${items.length} -> job ${job.id}`, { jobId: job.id });
+
+        if (job.status === "queued") {
+          await dispatchQueuedJobs();
+        }
+      } catch (error: any) {
+        log.error(`Batch ${batchId}: item ${item.index + 1} failed`, { error });
+        item.status = "failed";
+        item.errorMessage = error?.message || "Неизвестная ошибка";
+      }
+
+      await updateBatch(batchId, { items });
+    }
+
+    await updateBatch(batchId, { items });
+    log.info(`Batch ${batchId} processed`);
+  } finally {
+    runningBatches.delete(batchId);
+  }
+}
+
+function startBatchProcessing(batchId: string): void {
+  runWithLogContext({ batchId }, () =>
+    processBatch(batchId).catch((error) => {
+      log.error(`Unhandled error in processBatch for batch ${batchId}`, { error });
+    })
+  );
+}
+
+/**
+ * Продолжает обработку пакетов, прерванных рестартом сервера
+ */
+export async function resumeVideoJobBatches(): Promise<void> {
+  const batches = await getUnfinishedBatches();
+  for (const batch of batches) {
+    log.info(`Resuming batch ${batch.id}`);
+    startBatchProcessing(batch.id);
+  }
+}
+
+/**
+ * Возвращает пакет с текущим статусом задачи у каждого элемента и сводкой прогресса
+ */
+export async function getBatchWithProgress(batchId: string): Promise<
+  | (VideoJobBatch & {
+      items: (VideoJobBatchItem & { jobStatus: VideoJobStatus | null })[];
+      progress: VideoJobBatchProgress;
+    })
+  | undefined
+> {
+  const batch = await getBatch(batchId);
+  if (!batch) {
+    return undefined;
+  }
+
+  const progress: VideoJobBatchProgress = {
+    total: batch.items.length,
+    pending: 0,
+    failed: 0,
+    jobsCreated: 0,
+    completed: 0,
+    jobStatuses: {},
+  };
+
+  const items = await Promise.all(
+    batch.items.map(async (item) => {
+      const job = item.jobId ? await getJob(item.jobId) : undefined;
+      const jobStatus = job ? job.status : null;
+
+      if (item.status === "pending" || item.status === "generating_prompt") {
+        progress.pending++;
+      } else if (item.status === "failed") {
+        progress.failed++;
+      } else {
+        progress.jobsCreated++;
+      }
+
+      if (jobStatus) {
+        progress.jobStatuses[jobStatus] = (progress.jobStatuses[jobStatus] || 0) + 1;
+        if (jobStatus === "ready" || jobStatus === "uploaded") {
+          progress.completed++;
+        }
+      }
+
+      return { ...item, jobStatus };
+    })
+  );
+
+  return { ...batch, items, progress };
+}
@@ -0,0 +1,47 @@
+import { EventEmitter } from "events";
+import { VideoJob } from "../models/videoJob";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("VideoJobChanges");
+
+export type VideoJobChangeType = "created" | "updated" | "deleted";
+
+/**
+ * Изменение задачи, публикуемое при каждой записи в videoJobs
+ */
+export interface VideoJobChange {
+  type: VideoJobChangeType;
+  jobId: string;
+  channelId: string | null;
+  job: VideoJob | null; // null для удалённых задач
+}
+
+type VideoJobChangeListener = (change: VideoJobChange) => void;
+
+const CHANGE_EVENT = "change";
+
+const emitter = new EventEmitter();
+// Каждый SSE-клиент - отдельный подписчик, поэтому лимит по умолчанию (10) снимаем
+emitter.setMaxListeners(0);
+
+/**
+ * Публикует изменение задачи для подписчиков (SSE-поток /api/video-jobs/stream).
+ * Ошибки подписчиков не должны ломать запись задачи, поэтому перехватываются здесь.
+ */
+export function publishVideoJobChange(change: VideoJobChange): void {
+  try {
+    emitter.emit(CHANGE_EVENT, change);
+  } catch (error: unknown) {
+    log.error(`Listener failed for job ${change.jobId}`, { jobId: change.jobId, error });
+  }
+}
+
+/**
+ * Подписывает на изменения задач. Возвращает функцию отписки.
+ */
+export function subscribeToVideoJobChanges(listener: VideoJobChangeListener): () => void {
+  emitter.on(CHANGE_EVENT, listener);
+  return () => {
+    emitter.off(CHANGE_EVENT, listener);
+  };
+}
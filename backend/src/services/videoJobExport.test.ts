@@ -0,0 +1,36 @@
+import { describe, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { toCsvCell, toCsvRow } from "./videoJobExport";
+
+describe("toCsvCell", () => {
+  test("пустое значение - пустая ячейка, числа без изменений", () => {
+    assert.equal(toCsvCell(null), "");
+    assert.equal(toCsvCell(3), "3");
+    assert.equal(toCsvCell(-1), "-1");
+  });
+
+  test("простой текст не берётся в кавычки", () => {
+    assert.equal(toCsvCell("Кот на скейте"), "Кот на скейте");
+  });
+
+  test("запятые, кавычки и переводы строк берутся в кавычки, кавычки удваиваются", () => {
+    assert.equal(toCsvCell("a,b"), '"a,b"');
+    assert.equal(toCsvCell('say "hi"'), '"say ""hi"""');
+    assert.equal(toCsvCell("line1\nline2"), '"line1\nline2"');
+    assert.equal(toCsvCell("line1\r\nline2"), '"line1\r\nline2"');
+  });
+
+  test("строки, похожие на формулы, экранируются апострофом", () => {
+    assert.equal(toCsvCell("=SUM(A1:A2)"), "'=SUM(A1:A2)");
+    assert.equal(toCsvCell("+1"), "'+1");
+    assert.equal(toCsvCell("-5"), "'-5");
+    assert.equal(toCsvCell("@cmd"), "'@cmd");
+    assert.equal(toCsvCell('=HYPERLINK("x","y")'), `"'=HYPERLINK(""x"",""y"")"`);
+  });
+});
+
+describe("toCsvRow", () => {
+  test("соединяет ячейки запятой и завершает строку CRLF", () => {
+    assert.equal(toCsvRow(["job_1", null, 2, "a,b"]), 'job_1,,2,"a,b"\r\n');
+  });
+});
@@ -0,0 +1,152 @@
+import { Writable } from "stream";
+import { listJobs, ListJobsParams, VideoJob } from "../models/videoJob";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Export");
+
+// Задач за один запрос к Firestore: в памяти держится только текущая страница
+const EXPORT_PAGE_SIZE = 200;
+
+export type ExportFormat = "csv" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json"];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+export type ExportValue = string | number | null;
+
+const toIsoDate = (timestamp?: number | null): string | null =>
+  timestamp ? new Date(timestamp).toISOString() : null;
+
+/**
+ * Колонки выгрузки: одинаковые для CSV (заголовок) и JSON (ключи объекта)
+ */
+const EXPORT_COLUMNS: Array<{ key: string; value: (job: VideoJob) => ExportValue }> = [
+  { key: "id", value: (job) => job.id },
+  { key: "channelId", value: (job) => job.channelId || null },
+  { key: "channelName", value: (job) => job.channelName || null },
+  { key: "status", value: (job) => job.status },
+  { key: "videoTitle", value: (job) => job.videoTitle || null },
+  { key: "ideaText", value: (job) => job.ideaText || null },
+  { key: "prompt", value: (job) => job.prompt },
+  { key: "createdAt", value: (job) => toIsoDate(job.createdAt) },
+  { key: "updatedAt", value: (job) => toIsoDate(job.updatedAt) },
+  { key: "statusChangedAt", value: (job) => toIsoDate(job.statusChangedAt) },
+  { key: "scheduledAt", value: (job) => toIsoDate(job.scheduledAt) },
+  { key: "attempts", value: (job) => job.attempts?.length || 0 },
+  { key: "driveFileId", value: (job) => job.driveFileId || null },
+  { key: "webViewLink", value: (job) => job.webViewLink || null },
+  { key: "webContentLink", value: (job) => job.webContentLink || null },
+  { key: "errorMessage", value: (job) => job.errorMessage || null },
+  { key: "reviewRating", value: (job) => job.review?.rating ?? null },
+  { key: "rejectReasons", value: (job) => job.review?.rejectReasons.join(",") || null },
+];
+
+/**
+ * Экранирует значение для CSV. Строки, начинающиеся с =, +, - или @, Excel считает формулами,
+ * поэтому перед ними ставится апостроф.
+ */
+export function toCsvCell(value: ExportValue): string {
+  if (value === null) {
+    return "";
+  }
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: ExportValue[]): string {
+  return `${values.map(toCsvCell).join(",")}\r\n`;
+}
+
+function toJsonItem(job: VideoJob): string {
+  const item: Record<string, ExportValue> = {};
+  for (const column of EXPORT_COLUMNS) {
+    item[column.key] = column.value(job);
+  }
+  return JSON.stringify(item);
+}
+
+/**
+ * Страницы задач с фильтрами списка (курсор из params игнорируется)
+ */
+async function* iterateJobPages(params: ListJobsParams): AsyncGenerator<VideoJob[]> {
+  let cursor: string | undefined;
+  do {
+    const page = await listJobs({ ...params, limit: EXPORT_PAGE_SIZE, cursor });
+    yield page.jobs;
+    cursor = page.nextCursor || undefined;
+  } while (cursor);
+}
+
+/**
+ * Записывает кусок ответа с учётом backpressure: ждёт drain, если буфер ответа заполнен.
+ * Закрытие соединения тоже завершает ожидание, иначе выгрузка зависла бы навсегда.
+ */
+async function write(output: Writable, chunk: string): Promise<void> {
+  if (output.write(chunk)) {
+    return;
+  }
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      output.off("drain", done);
+      output.off("close", done);
+      resolve();
+    };
+    output.on("drain", done);
+    output.on("close", done);
+  });
+}
+
+export interface ExportTarget extends Writable {
+  setHeader(name: string, value: string): unknown;
+}
+
+/**
+ * Выгрузить задачи в CSV или JSON, постранично записывая их в ответ.
+ * Первая страница запрашивается до отправки заголовков, поэтому ошибка запроса (например, нет индекса)
+ * ещё может вернуться обычным JSON-ответом. Возвращает число выгруженных задач.
+ */
+export async function exportJobs(output: ExportTarget, format: ExportFormat, params: ListJobsParams): Promise<number> {
+  const pages = iterateJobPages(params);
+  let page = await pages.next();
+
+  const fileName = `video-jobs_${new Date().toISOString().slice(0, 10)}.${format}`;
+  output.setHeader("Content-Type", CONTENT_TYPES[format]);
+  output.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+  output.setHeader("Cache-Control", "no-cache");
+
+  // BOM нужен Excel, чтобы распознать UTF-8 с кириллицей
+  await write(output, format === "csv" ? `\ufeff${toCsvRow(EXPORT_COLUMNS.map((column) => column.key))}` : "[");
+
+  let count = 0;
+  while (!page.done) {
+    for (const job of page.value) {
+      if (output.destroyed) {
+        // Клиент закрыл соединение - дальше не читаем
+        log.info(`Export aborted by client after ${count} jobs`);
+        return count;
+      }
+      await write(
+        output,
+        format === "csv"
+          ? toCsvRow(EXPORT_COLUMNS.map((column) => column.value(job)))
+          : `${count > 0 ? "," : ""}\n${toJsonItem(job)}`
+      );
+      count++;
+    }
+    page = await pages.next();
+  }
+
+  if (format === "json") {
+    await write(output, "\n]\n");
+  }
+  output.end();
+  log.info(`Exported ${count} jobs as ${format}`);
+  return count;
+}
@@ -0,0 +1,532 @@
+import * as fs from "fs";
+import { sendPromptToSyntx, SyntxAbortedError } from "../telegram/syntxService";
+import {
+  getJob,
+  updateJob,
+  getActiveJobs,
+  getPendingRetryJobs,
+  InvalidStatusTransitionError,
+  VideoJob,
+  VideoJobAttempt,
+  VideoJobStatus,
+} from "../models/videoJob";
+import {
+  getChannelById,
+  normalizeRetryPolicy,
+  getRetryDelayMs,
+  DEFAULT_RETRY_POLICY,
+  RetryableStatus,
+  RetryPolicy,
+} from "../models/channel";
+import { getSafeFileName } from "../utils/fileNameSanitizer";
+import { createLogger, runWithLogContext, addLogContext } from "../utils/logger";
+
+const log = createLogger("VideoJob");
+const recoveryLog = createLogger("JobRecovery");
+
+/**
+ * ID задач, которые сейчас обрабатываются в этом процессе.
+ * Защищает от повторного запуска конвейера для одной и той же задачи
+ * (например, если восстановление после рестарта совпало с ручным запуском).
+ */
+const runningJobs = new Set<string>();
+
+/**
+ * Таймеры запланированных автоматических повторов (jobId -> таймер)
+ */
+const retryTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Контроллеры отмены для задач, которые сейчас обрабатываются (jobId -> AbortController)
+ */
+const abortControllers = new Map<string, AbortController>();
+
+/**
+ * Статусы, из которых задачу можно отменить
+ */
+const CANCELLABLE_STATUSES: VideoJobStatus[] = ["scheduled", "queued", "sending", "waiting_video", "downloading"];
+
+/**
+ * Ошибка отмены: задача в статусе, из которого отмена невозможна
+ */
+export class JobNotCancellableError extends Error {
+  constructor(public readonly status: VideoJobStatus) {
+    super(`Задачу в статусе "${status}" нельзя отменить`);
+    this.name = "JobNotCancellableError";
+  }
+}
+
+/**
+ * Выполняет fn в контексте логирования задачи. Поля внешнего контекста (например, задачи, освободившей слот)
+ * не наследуются: requestId берётся из задачи - это запрос, который её создал.
+ */
+function withJobLogContext<T>(job: Pick<VideoJob, "id"> & Partial<VideoJob>, fn: () => T): T {
+  return runWithLogContext(
+    {
+      jobId: job.id,
+      channelId: job.channelId || undefined,
+      requestId: job.requestId || undefined,
+      batchId: job.batchId || undefined,
+    },
+    fn
+  );
+}
+
+/**
+ * Асинхронная функция для обработки генерации видео
+ */
+export async function processVideoGeneration(jobId: string): Promise<void> {
+  return withJobLogContext({ id: jobId }, async () => {
+    if (runningJobs.has(jobId)) {
+      log.info(`Job ${jobId} is already being processed, skipping`);
+      return;
+    }
+
+    const abortController = new AbortController();
+    runningJobs.add(jobId);
+    abortControllers.set(jobId, abortController);
+    try {
+      await runVideoGeneration(jobId, abortController.signal);
+    } finally {
+      runningJobs.delete(jobId);
+      abortControllers.delete(jobId);
+      // Слот освободился - запускаем следующую задачу из очереди
+      const { dispatchQueuedJobs } = await import("./jobDispatcher");
+      dispatchQueuedJobs();
+    }
+  });
+}
+
+/**
+ * ID задач, которые сейчас обрабатываются конвейером в этом процессе
+ */
+export function getProcessingJobIds(): ReadonlySet<string> {
+  return runningJobs;
+}
+
+async function runVideoGeneration(jobId: string, signal: AbortSignal): Promise<void> {
+  const job = await getJob(jobId);
+  if (!job) {
+    log.error(`Job ${jobId} not found for processing`);
+    return;
+  }
+  addLogContext({
+    channelId: job.channelId || undefined,
+    requestId: job.requestId || undefined,
+    batchId: job.batchId || undefined,
+  });
+
+  // Задачу могли отменить, пока она ждала в очереди
+  if (job.status === "cancelled") {
+    log.info(`Job ${jobId} was cancelled, skipping`);
+    return;
+  }
+
+  // Защита от дублей: если видео уже скачано, не обрабатываем повторно
+  if (job.telegramVideoMessageId && job.status === "ready") {
+    log.info(`Job ${jobId} already has video (messageId: ${job.telegramVideoMessageId}), skipping`);
+    return;
+  }
+
+  // Используем существующий requestMessageId, если он есть (повторная попытка или восстановление после рестарта)
+  const existingRequestMessageId = job.telegramRequestMessageId;
+  const attempts = startAttempt(job);
+
+  try {
+    await updateJob(jobId, { attempts, nextRetryAt: null });
+
+    // Формируем безопасное имя файла из videoTitle
+    const safeFileName = job.videoTitle ? getSafeFileName(job.videoTitle) : undefined;
+
+    if (existingRequestMessageId) {
+      // Промпт уже отправлен ранее - сразу переходим к ожиданию видео
+      await updateJob(
+        jobId,
+        { status: "waiting_video" },
+        { eventMessage: `Повторное подключение к запросу ${existingRequestMessageId}` }
+      );
+      log.info(`Job ${jobId}: re-attaching to Syntx request ${existingRequestMessageId}`);
+    } else {
+      // Статус: sending - отправка промпта
+      await updateJob(jobId, { status: "sending" });
+      log.info(`Job ${jobId}: sending prompt to Syntx`);
+    }
+
+    // Отправляем промпт в Syntx AI и ждём видео
+    const syntxResult = await sendPromptToSyntx(
+      job.prompt,
+      safeFileName,
+      existingRequestMessageId,
+      {
+        signal,
+        // Видео уже найдено в прошлой попытке, но не скачалось - скачиваем его, а не ждём новое
+        videoMessageId: existingRequestMessageId ? job.telegramVideoMessageId || undefined : undefined,
+        // Сохраняем requestMessageId сразу после отправки, чтобы задачу можно было восстановить после рестарта
+        onRequestSent: async (requestMessageId) => {
+          attempts[attempts.length - 1].telegramRequestMessageId = requestMessageId;
+          if (signal.aborted) {
+            // Отменили во время отправки: сохраняем только запрос, статус cancelled не трогаем
+            await updateJob(jobId, { telegramRequestMessageId: requestMessageId, attempts });
+            return;
+          }
+          await updateJob(jobId, {
+            status: "waiting_video",
+            telegramRequestMessageId: requestMessageId,
+            attempts,
+          });
+          log.info(`Job ${jobId}: waiting for video from Syntx (request ${requestMessageId})`);
+        },
+        // Статус downloading выставляется до скачивания, чтобы этапы ожидания и скачивания считались раздельно
+        onVideoFound: async (videoMessageId, requestMessageId) => {
+          await updateJob(jobId, {
+            status: "downloading",
+            telegramRequestMessageId: requestMessageId,
+            telegramVideoMessageId: videoMessageId,
+          });
+          log.info(`Job ${jobId}: downloading video (message ${videoMessageId})`);
+        },
+      }
+    );
+
+    // Отмена могла прийти между окончанием скачивания и этой точкой
+    if (signal.aborted) {
+      throw new SyntxAbortedError();
+    }
+
+    log.info(`Job ${jobId}: downloaded video from request ${syntxResult.requestMessageId}, message ${syntxResult.videoMessageId}`);
+
+    // Проверяем, что файл существует
+    if (!fs.existsSync(syntxResult.localPath)) {
+      throw new Error(`File does not exist after download: ${syntxResult.localPath}`);
+    }
+
+    const fileStat = fs.statSync(syntxResult.localPath);
+    log.info(`Job ${jobId}: file verified, size: ${fileStat.size} bytes`);
+
+    // Статус: ready - готово
+    const updatedJob = await updateJob(jobId, {
+      status: "ready",
+      localPath: syntxResult.localPath,
+      attempts: finishAttempt(attempts, "ready"),
+    });
+
+    log.info(`Job ${jobId} completed successfully`);
+
+    // Отправляем FCM уведомление о готовности видео
+    if (updatedJob) {
+      const { notifyVideoReady } = await import("../firebase/fcmService");
+      const videoTitle = updatedJob.videoTitle || updatedJob.prompt.substring(0, 60) + (updatedJob.prompt.length > 60 ? '...' : '');
+      await notifyVideoReady(jobId, videoTitle, updatedJob.channelId).catch((err) => {
+        log.error(`Failed to send FCM notification for job ${jobId}`, { error: err });
+        // Не пробрасываем ошибку, чтобы не ломать основной процесс
+      });
+    }
+  } catch (error: any) {
+    // Отмена могла записать cancelled раньше, чем конвейер получил сигнал: тогда промежуточный статус не сохраняется
+    const cancelledConcurrently = error instanceof InvalidStatusTransitionError && error.from === "cancelled";
+    if (error instanceof SyntxAbortedError || signal.aborted || cancelledConcurrently) {
+      // Статус cancelled выставлен в cancelVideoJob; повторяем его на случай,
+      // если отмена совпала с записью промежуточного статуса (sending/waiting_video)
+      log.info(`Job ${jobId}: generation cancelled`);
+      await updateJob(jobId, {
+        status: "cancelled",
+        attempts: finishAttempt(attempts, "cancelled"),
+      }).catch((updateError) => {
+        log.error(`Failed to save cancelled attempt for job ${jobId}`, { error: updateError });
+      });
+      return;
+    }
+
+    log.error(`Job ${jobId} error`, { error });
+    const errorMessage = error?.message || error?.toString() || "Неизвестная ошибка";
+
+    // Проверяем, является ли ошибка таймаутом
+    const isTimeout = errorMessage.includes("Таймаут ожидания видео") || errorMessage.includes("timeout");
+    const finalStatus: VideoJobStatus = isTimeout ? "syntax_timeout" : "error";
+
+    await updateJob(jobId, {
+      status: finalStatus,
+      errorMessage,
+      attempts: finishAttempt(attempts, finalStatus, errorMessage),
+    });
+
+    await scheduleRetryIfAllowed(job, finalStatus, attempts.length).catch((retryError) => {
+      log.error(`Failed to schedule retry for job ${jobId}`, { error: retryError });
+    });
+  }
+}
+
+/**
+ * Возвращает историю попыток с добавленной текущей попыткой.
+ * Если последняя попытка не завершена (восстановление после рестарта), продолжаем её.
+ */
+function startAttempt(job: VideoJob): VideoJobAttempt[] {
+  const attempts = [...(job.attempts || [])];
+  const lastAttempt = attempts[attempts.length - 1];
+
+  if (lastAttempt && !lastAttempt.finishedAt) {
+    return attempts;
+  }
+
+  // Firestore не принимает undefined внутри массивов, поэтому необязательные поля добавляем только при наличии
+  const attempt: VideoJobAttempt = {
+    attempt: attempts.length + 1,
+    startedAt: Date.now(),
+    reusedRequest: !!job.telegramRequestMessageId,
+  };
+  if (job.telegramRequestMessageId) {
+    attempt.telegramRequestMessageId = job.telegramRequestMessageId;
+  }
+  attempts.push(attempt);
+  return attempts;
+}
+
+function finishAttempt(
+  attempts: VideoJobAttempt[],
+  status: VideoJobStatus,
+  errorMessage?: string
+): VideoJobAttempt[] {
+  const lastAttempt = attempts[attempts.length - 1];
+  if (lastAttempt) {
+    lastAttempt.finishedAt = Date.now();
+    lastAttempt.status = status;
+    if (errorMessage) {
+      lastAttempt.errorMessage = errorMessage;
+    }
+  }
+  return attempts;
+}
+
+async function getRetryPolicyForJob(job: VideoJob): Promise<RetryPolicy> {
+  if (!job.channelId) {
+    return DEFAULT_RETRY_POLICY;
+  }
+  const channel = await getChannelById(job.channelId);
+  return normalizeRetryPolicy(channel?.retryPolicy) || DEFAULT_RETRY_POLICY;
+}
+
+/**
+ * Планирует автоматический повтор, если это разрешено политикой канала
+ */
+async function scheduleRetryIfAllowed(
+  job: VideoJob,
+  finalStatus: VideoJobStatus,
+  attemptNumber: number
+): Promise<void> {
+  const policy = await getRetryPolicyForJob(job);
+
+  if (!policy.retryableStatuses.includes(finalStatus as RetryableStatus)) {
+    return;
+  }
+
+  if (attemptNumber >= policy.maxAttempts) {
+    log.info(`Job ${job.id}: no retries left (${attemptNumber}/${policy.maxAttempts})`);
+    return;
+  }
+
+  const delayMs = getRetryDelayMs(policy, attemptNumber);
+  const nextRetryAt = Date.now() + delayMs;
+  await updateJob(job.id, { nextRetryAt });
+
+  log.info(`Job ${job.id}: retry ${attemptNumber + 1}/${policy.maxAttempts} scheduled in ${Math.round(delayMs / 1000)}s`);
+  armRetryTimer(job.id, delayMs);
+}
+
+function armRetryTimer(jobId: string, delayMs: number): void {
+  cancelScheduledRetry(jobId);
+  const timer = setTimeout(() => {
+    retryTimers.delete(jobId);
+    withJobLogContext({ id: jobId }, () =>
+      runRetry(jobId).catch((error) => {
+        log.error(`Retry failed to start for job ${jobId}`, { error });
+      })
+    );
+  }, Math.max(0, delayMs));
+  retryTimers.set(jobId, timer);
+}
+
+/**
+ * Отменяет запланированный повтор (например, при удалении задачи)
+ */
+export function cancelScheduledRetry(jobId: string): void {
+  const timer = retryTimers.get(jobId);
+  if (timer) {
+    clearTimeout(timer);
+    retryTimers.delete(jobId);
+  }
+}
+
+/**
+ * Отменяет задачу: выставляет статус cancelled, прерывает ожидание видео и скачивание,
+ * отменяет запланированный повтор и сразу отдаёт освободившийся слот следующей задаче из очереди.
+ * Задачи с ошибкой отменяются, только если у них запланирован автоматический повтор.
+ */
+export async function cancelVideoJob(job: VideoJob): Promise<VideoJob | null> {
+  const hasPendingRetry = !!job.nextRetryAt && (job.status === "syntax_timeout" || job.status === "error");
+  if (!CANCELLABLE_STATUSES.includes(job.status) && !hasPendingRetry) {
+    throw new JobNotCancellableError(job.status);
+  }
+
+  cancelScheduledRetry(job.id);
+
+  // Сигнал отправляется до записи статуса, чтобы конвейер не успел записать следующий этап поверх cancelled
+  const abortController = abortControllers.get(job.id);
+  if (abortController) {
+    abortController.abort();
+    log.info(`Job ${job.id}: abort signal sent to running pipeline`, { jobId: job.id });
+  }
+
+  const updatedJob = await updateJob(
+    job.id,
+    {
+      status: "cancelled",
+      nextRetryAt: null,
+      errorMessage: undefined,
+    },
+    { eventMessage: "Отменено пользователем" }
+  );
+
+  log.info(`Job ${job.id} cancelled (was ${job.status})`, { jobId: job.id, channelId: job.channelId });
+
+  const { dispatchQueuedJobs } = await import("./jobDispatcher");
+  dispatchQueuedJobs();
+
+  return updatedJob;
+}
+
+/**
+ * Запускает повтор задачи.
+ * После таймаута переиспользуем уже отправленный запрос (Syntx мог просто задержать видео).
+ * Если видео уже было найдено, но скачивание не удалось, скачиваем его заново.
+ * После остальных ошибок отправляем промпт заново.
+ */
+async function runRetry(jobId: string): Promise<void> {
+  const job = await getJob(jobId);
+  if (!job || !job.nextRetryAt || (job.status !== "syntax_timeout" && job.status !== "error")) {
+    log.info(`Job ${jobId}: retry is no longer needed`);
+    return;
+  }
+
+  const redownload = job.status === "error" && !!job.telegramRequestMessageId && !!job.telegramVideoMessageId;
+  const reuseRequest = redownload || (job.status === "syntax_timeout" && !!job.telegramRequestMessageId);
+  log.info(
+    `Job ${jobId}: starting retry (${
+      redownload
+        ? `re-downloading video ${job.telegramVideoMessageId}`
+        : reuseRequest
+          ? `reusing request ${job.telegramRequestMessageId}`
+          : "re-sending prompt"
+    })`
+  );
+
+  // Повтор встаёт в общую очередь и запускается диспетчером, когда освободится слот
+  await updateJob(
+    jobId,
+    {
+      status: "queued",
+      queuedAt: Date.now(),
+      errorMessage: undefined,
+      telegramRequestMessageId: reuseRequest ? job.telegramRequestMessageId : undefined,
+      telegramVideoMessageId: redownload ? job.telegramVideoMessageId : undefined,
+    },
+    { eventMessage: `Автоматический повтор (попытка ${(job.attempts?.length || 0) + 1})` }
+  );
+
+  const { dispatchQueuedJobs } = await import("./jobDispatcher");
+  await dispatchQueuedJobs();
+}
+
+/**
+ * Восстанавливает задачи, прерванные рестартом сервера.
+ *
+ * Конвейер генерации работает в памяти процесса, поэтому после рестарта (деплой в Cloud Run)
+ * задачи в статусах queued/sending/waiting_video/downloading остаются «висеть» навсегда.
+ * При старте мы находим такие задачи через getActiveJobs и:
+ * - queued - оставляем в очереди, их запустит диспетчер по мере освобождения слотов;
+ * - sending/waiting_video/downloading с сохранённым telegramRequestMessageId -
+ *   переподключаемся к диалогу с Syntx и продолжаем ждать видео;
+ * - sending/waiting_video/downloading без telegramRequestMessageId - помечаем error,
+ *   так как неизвестно, дошёл ли промпт до бота;
+ * - uploading - помечаем upload_failed, чтобы видео можно было одобрить повторно.
+ * Также заново планируются автоматические повторы, таймеры которых потерялись при рестарте.
+ */
+export async function resumeActiveJobs(): Promise<void> {
+  const pendingRetryJobs = await getPendingRetryJobs();
+  for (const job of pendingRetryJobs) {
+    const delayMs = (job.nextRetryAt || 0) - Date.now();
+    recoveryLog.info(`Job ${job.id}: re-arming retry in ${Math.max(0, Math.round(delayMs / 1000))}s`, { jobId: job.id });
+    armRetryTimer(job.id, delayMs);
+  }
+
+  const activeJobs = await getActiveJobs();
+
+  if (activeJobs.length === 0) {
+    recoveryLog.info("No interrupted jobs found");
+    return;
+  }
+
+  recoveryLog.info(`Found ${activeJobs.length} interrupted job(s), recovering...`);
+
+  // Восстанавливаем в порядке создания, чтобы старые задачи получили видео первыми
+  const sortedJobs = [...activeJobs].sort((a, b) => a.createdAt - b.createdAt);
+
+  for (const job of sortedJobs) {
+    try {
+      await withJobLogContext(job, () => resumeJob(job));
+    } catch (error: any) {
+      recoveryLog.error(`Failed to recover job ${job.id}`, { jobId: job.id, error });
+    }
+  }
+}
+
+async function resumeJob(job: VideoJob): Promise<void> {
+  if (runningJobs.has(job.id)) {
+    return;
+  }
+
+  switch (job.status) {
+    case "queued":
+      recoveryLog.info(`Job ${job.id}: left in queue for dispatcher`);
+      return;
+
+    case "sending":
+    case "waiting_video":
+    case "downloading":
+      if (!job.telegramRequestMessageId) {
+        recoveryLog.warn(`Job ${job.id}: no telegramRequestMessageId in status ${job.status}, marking as error`);
+        await updateJob(job.id, {
+          status: "error",
+          errorMessage:
+            "Сервер был перезапущен во время отправки промпта в Syntx. Неизвестно, был ли промпт доставлен, поэтому задача не восстановлена. Создайте её заново.",
+        });
+        return;
+      }
+
+      // Сбрасываем telegramVideoMessageId: иначе видео этой задачи попадёт
+      // в список уже использованных и не будет найдено повторно
+      if (job.telegramVideoMessageId) {
+        await updateJob(job.id, { telegramVideoMessageId: undefined });
+      }
+
+      recoveryLog.info(`Job ${job.id}: re-attaching to Syntx request ${job.telegramRequestMessageId} (was ${job.status})`);
+      startProcessing(job.id);
+      return;
+
+    case "uploading":
+      recoveryLog.warn(`Job ${job.id}: upload to Google Drive was interrupted, marking as upload_failed`);
+      await updateJob(job.id, {
+        status: "upload_failed",
+        errorMessage: "Загрузка в Google Drive была прервана перезапуском сервера. Одобрите видео ещё раз.",
+      });
+      return;
+
+    default:
+      return;
+  }
+}
+
+function startProcessing(jobId: string): void {
+  processVideoGeneration(jobId).catch((error) => {
+    log.error(`Unhandled error in processVideoGeneration for job ${jobId}`, { error });
+  });
+}
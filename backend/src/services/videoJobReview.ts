@@ -0,0 +1,521 @@
+import * as fs from "fs";
+import { uploadFileToDrive, DriveUploadResult } from "../googleDrive/driveService";
+import {
+  getJob,
+  getJobsByVariantGroup,
+  updateJob,
+  deleteJobCascade,
+  InvalidStatusTransitionError,
+  TrashReason,
+  VideoJob,
+  VideoJobStatus,
+} from "../models/videoJob";
+import { getChannelById } from "../models/channel";
+import {
+  claimVariantWinner,
+  releaseVariantWinner,
+  VariantGroupDecidedError,
+} from "../models/videoJobVariantGroup";
+import { cancelScheduledRetry, cancelVideoJob } from "./videoJobProcessor";
+import { assertRejectReasonsAllowed, getReviewDecision, saveReviewFeedback } from "./reviewFeedback";
+import { ReviewDecision, ReviewFeedbackInput } from "../models/reviewFeedback";
+import { getSafeFileName } from "../utils/fileNameSanitizer";
+import { deleteJobFiles } from "../utils/jobFiles";
+import { createLogger, runWithLogContext } from "../utils/logger";
+
+const log = createLogger("VideoJob");
+
+// Одновременных загрузок в Google Drive при массовом одобрении (по умолчанию)
+const DEFAULT_BULK_UPLOAD_CONCURRENCY = 3;
+// Удаление не нагружает Drive, но ограничиваем и его, чтобы не упираться в лимиты Firestore
+const BULK_DELETE_CONCURRENCY = 5;
+export const MAX_BULK_JOB_IDS = 100;
+// Попытки записать статус uploaded, когда файл уже загружен в Drive
+const UPLOADED_SAVE_ATTEMPTS = 3;
+const UPLOADED_SAVE_RETRY_DELAY_MS = 2000;
+
+// Задачи в процессе генерации перед перемещением в корзину отменяются
+const CANCEL_BEFORE_TRASH: VideoJobStatus[] = ["scheduled", "queued", "sending", "waiting_video", "downloading"];
+
+export type JobReviewErrorCode = "JOB_NOT_FOUND" | "INVALID_STATUS" | "FILE_NOT_FOUND";
+
+/**
+ * Задачу нельзя одобрить, отклонить или удалить: её нет, она в неподходящем статусе или нет файла видео
+ */
+export class JobReviewError extends Error {
+  constructor(
+    public readonly code: JobReviewErrorCode,
+    message: string,
+    public readonly jobId: string,
+    public readonly path?: string
+  ) {
+    super(message);
+    this.name = "JobReviewError";
+  }
+}
+
+export interface ApproveJobResult {
+  driveFileId: string;
+  webViewLink?: string;
+  webContentLink?: string;
+  rejectedVariants: string[];
+}
+
+/**
+ * Записать решение проверяющего вместе с оценкой. Ошибка только логируется:
+ * видео уже загружено или отклонено, и повторять действие из-за оценки не нужно.
+ */
+async function recordReviewDecision(
+  job: VideoJob,
+  feedback: ReviewFeedbackInput,
+  decision: ReviewDecision | null
+): Promise<void> {
+  try {
+    await saveReviewFeedback(job, feedback, decision);
+  } catch (error: unknown) {
+    log.error(`Failed to save review for job ${job.id}`, { error, jobId: job.id });
+  }
+}
+
+/**
+ * Одобрить задачу и загрузить видео в Google Drive.
+ * Для дубля из группы остальные дубли после успешной загрузки отклоняются и перемещаются в корзину;
+ * если загрузка не удалась, выбор дубля снимается.
+ * Оценка и заметки проверяющего (feedback) сохраняются после успешной загрузки.
+ */
+export async function approveVideoJob(
+  id: string,
+  videoTitle?: string,
+  feedback: ReviewFeedbackInput = {}
+): Promise<ApproveJobResult> {
+  assertRejectReasonsAllowed(feedback, "approved");
+  const job = await getJob(id);
+
+  if (!job) {
+    throw new JobReviewError("JOB_NOT_FOUND", "Job не найден", id);
+  }
+
+  if (job.status !== "ready" && job.status !== "upload_failed") {
+    throw new JobReviewError(
+      "INVALID_STATUS",
+      "Можно одобрить только job со статусом 'ready' или 'upload_failed'",
+      id
+    );
+  }
+
+  if (!job.localPath) {
+    log.error(`Job ${id} has no localPath for approval`);
+    throw new JobReviewError("FILE_NOT_FOUND", "Файл видео не найден (localPath не задан)", id);
+  }
+
+  if (!fs.existsSync(job.localPath)) {
+    log.error(`File not found for approval (job ${id}): ${job.localPath}`);
+    throw new JobReviewError("FILE_NOT_FOUND", "Файл видео не найден", id, job.localPath);
+  }
+
+  const fileStat = fs.statSync(job.localPath);
+  log.info(`Approving job ${id}, file: ${job.localPath}, size: ${fileStat.size} bytes`);
+
+  // Обновляем title в job, если передан новый
+  const finalTitle = videoTitle && videoTitle.trim() ? videoTitle.trim() : job.videoTitle;
+  if (finalTitle && finalTitle !== job.videoTitle) {
+    await updateJob(id, { videoTitle: finalTitle });
+    log.info(`Updated title for job ${id}: ${finalTitle}`);
+  }
+
+  // Дубль из группы: фиксируем выбор, второй дубль той же группы одобрить уже нельзя
+  const claimedWinner = job.variantGroupId
+    ? await claimVariantWinner(job.variantGroupId, id, job.variantIndex || 1)
+    : false;
+
+  // Обновляем статус на uploading; транзакция не даст начать загрузку, если задачу уже отклонили или одобрили
+  try {
+    await updateJob(id, { status: "uploading", errorMessage: undefined }, { expectedStatus: ["ready", "upload_failed"] });
+  } catch (error) {
+    if (claimedWinner) {
+      await releaseVariantWinner(job.variantGroupId!, id).catch((releaseError) =>
+        log.error(`Failed to release variant winner for job ${id}`, { error: releaseError })
+      );
+    }
+    throw error;
+  }
+
+  let driveResult: DriveUploadResult;
+  try {
+    // Генерируем имя файла из videoTitle или используем дефолтное
+    const fileName = finalTitle
+      ? getSafeFileName(finalTitle)
+      : `video_${job.id}_${Date.now()}.mp4`;
+    log.info(`Uploading to Google Drive: ${fileName}`);
+
+    // Определяем папку Google Drive: сначала из канала, затем из .env
+    let targetFolderId: string | null | undefined = null;
+    if (job.channelId) {
+      const channel = await getChannelById(job.channelId);
+      if (channel && channel.gdriveFolderId) {
+        targetFolderId = channel.gdriveFolderId;
+        log.info(`Using folder from channel ${job.channelId}: ${targetFolderId}`);
+      } else {
+        log.info(`Channel ${job.channelId} has no gdriveFolderId, using default from .env`);
+      }
+    } else {
+      log.info("No channelId, using default folder from .env");
+    }
+
+    // Загружаем в Google Drive
+    driveResult = await uploadFileToDrive(job.localPath, fileName, targetFolderId);
+
+    log.info(`Successfully uploaded to Google Drive: ${driveResult.fileId}`);
+  } catch (error: any) {
+    // Загрузка не удалась: выбор дубля снимается, чтобы можно было одобрить другой дубль группы
+    if (job.variantGroupId) {
+      await releaseVariantWinner(job.variantGroupId, id).catch((releaseError) =>
+        log.error(`Failed to release variant winner for job ${id}`, { error: releaseError })
+      );
+    }
+    await updateJob(id, {
+      status: "upload_failed",
+      errorMessage: `Ошибка загрузки в Google Drive: ${error?.message || error}`,
+    });
+    throw error;
+  }
+
+  try {
+    await saveUploadedStatus(id, driveResult);
+  } catch (error) {
+    // Видео уже в Drive: задача остаётся в uploading, а выбор дубля не снимается,
+    // иначе повторное одобрение загрузило бы файл ещё раз
+    log.error(`Job ${id}: uploaded to Google Drive as ${driveResult.fileId}, but the uploaded status was not saved`, {
+      error,
+    });
+    throw error;
+  }
+
+  await recordReviewDecision(job, feedback, "approved");
+
+  // Остальные дубли отклоняем только после успешной загрузки: при ошибке их ещё можно выбрать
+  let rejectedVariants: string[] = [];
+  if (job.variantGroupId) {
+    rejectedVariants = await rejectVariantSiblings(job).catch((error) => {
+      log.error(`Failed to reject variants of job ${id}`, { error });
+      return [];
+    });
+  }
+
+  return {
+    driveFileId: driveResult.fileId,
+    webViewLink: driveResult.webViewLink,
+    webContentLink: driveResult.webContentLink,
+    rejectedVariants,
+  };
+}
+
+/**
+ * Записывает статус uploaded и ссылки на файл в Drive. Ошибка записи повторяется несколько раз;
+ * если первая попытка всё же записалась, повтор застанет задачу уже в uploaded.
+ */
+async function saveUploadedStatus(id: string, driveResult: DriveUploadResult): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await updateJob(
+        id,
+        {
+          status: "uploaded",
+          errorMessage: undefined,
+          driveFileId: driveResult.fileId,
+          webViewLink: driveResult.webViewLink,
+          webContentLink: driveResult.webContentLink,
+        },
+        { expectedStatus: ["uploading", "uploaded"] }
+      );
+      return;
+    } catch (error: unknown) {
+      if (error instanceof InvalidStatusTransitionError || attempt >= UPLOADED_SAVE_ATTEMPTS) {
+        throw error;
+      }
+      log.warn(`Job ${id}: failed to save uploaded status (attempt ${attempt}/${UPLOADED_SAVE_ATTEMPTS}), retrying`, {
+        error,
+      });
+      await new Promise((resolve) => setTimeout(resolve, UPLOADED_SAVE_RETRY_DELAY_MS * attempt));
+    }
+  }
+}
+
+/**
+ * Удалить задачу из Firestore (вместе с подколлекциями) и её локальные файлы.
+ * Возвращает пути удалённых файлов.
+ */
+async function removeJob(job: VideoJob): Promise<string[]> {
+  const removedFiles = deleteJobFiles(job);
+
+  cancelScheduledRetry(job.id);
+  const deletedFromDb = await deleteJobCascade(job.id);
+  if (!deletedFromDb) {
+    log.error(`deleteJobCascade returned false for job ${job.id}`);
+    throw new JobReviewError("JOB_NOT_FOUND", "Job не найден в базе данных", job.id);
+  }
+
+  log.info(`Job ${job.id} deleted completely (doc + subcollections + files: ${removedFiles.length})`);
+  return removedFiles;
+}
+
+/**
+ * Переместить задачу в корзину: документ и файлы сохраняются до окончания срока хранения корзины.
+ * Задача в процессе генерации сначала отменяется; во время загрузки в Drive удалить задачу нельзя.
+ */
+async function moveJobToTrash(
+  job: VideoJob,
+  reason: TrashReason,
+  rejectMessage = "Отклонено пользователем"
+): Promise<VideoJob> {
+  if (job.status === "trashed") {
+    throw new JobReviewError("INVALID_STATUS", "Задача уже в корзине", job.id);
+  }
+  if (job.status === "uploading") {
+    throw new JobReviewError("INVALID_STATUS", "Видео загружается в Google Drive, удалить задачу сейчас нельзя", job.id);
+  }
+
+  let current = job;
+  if (CANCEL_BEFORE_TRASH.includes(job.status)) {
+    current = (await cancelVideoJob(job)) || job;
+  }
+  // В корзину задача попадает из статуса, в который потом восстанавливается
+  const restoreStatus = current.status;
+
+  // Отклонение готового видео учитывается в статистике отдельным переходом в rejected.
+  // Если параллельно началась загрузка в Drive, транзакция отклонит переход и задача не попадёт в корзину
+  if (reason === "rejected" && (current.status === "ready" || current.status === "upload_failed")) {
+    await updateJob(job.id, { status: "rejected" }, { eventMessage: rejectMessage });
+  }
+
+  cancelScheduledRetry(job.id);
+  const trashedJob = await updateJob(
+    job.id,
+    {
+      status: "trashed",
+      nextRetryAt: null,
+      trashedAt: Date.now(),
+      trashedFromStatus: restoreStatus,
+      trashReason: reason,
+    },
+    { eventMessage: reason === "rejected" ? "Отклонено и перемещено в корзину" : "Перемещено в корзину" }
+  );
+  if (!trashedJob) {
+    throw new JobReviewError("JOB_NOT_FOUND", "Job не найден в базе данных", job.id);
+  }
+
+  log.info(`Job ${job.id} moved to trash (${reason}, was ${restoreStatus})`);
+  return trashedJob;
+}
+
+/**
+ * Отклоняет остальные дубли группы после одобрения победителя: они перемещаются в корзину
+ * так же, как при ручном отклонении, и их можно восстановить до очистки корзины.
+ * Возвращает ID отклонённых задач.
+ */
+async function rejectVariantSiblings(winner: VideoJob): Promise<string[]> {
+  if (!winner.variantGroupId) {
+    return [];
+  }
+
+  const siblings = (await getJobsByVariantGroup(winner.variantGroupId)).filter((job) => job.id !== winner.id);
+  const rejectedIds: string[] = [];
+
+  for (const sibling of siblings) {
+    if (sibling.status === "uploading" || sibling.status === "uploaded" || sibling.status === "trashed") {
+      // Не трогаем дубль, который уже отправлен в Drive или лежит в корзине
+      log.warn(`Job ${sibling.id} is ${sibling.status}, skip rejection`, { jobId: sibling.id });
+      continue;
+    }
+
+    try {
+      await moveJobToTrash(sibling, "rejected", `Выбран дубль #${winner.variantIndex}`);
+      rejectedIds.push(sibling.id);
+      log.info(`Job ${sibling.id} rejected in favour of ${winner.id}`, { jobId: sibling.id });
+    } catch (error: unknown) {
+      log.error(`Failed to reject variant ${sibling.id}`, { jobId: sibling.id, error });
+    }
+  }
+
+  return rejectedIds;
+}
+
+/**
+ * Отклонить видео: задача перемещается в корзину.
+ * Оценка, заметки и причины отклонения (feedback) сохраняются вместе с решением.
+ */
+export async function rejectVideoJob(id: string, feedback: ReviewFeedbackInput = {}): Promise<VideoJob> {
+  const job = await getJob(id);
+
+  if (!job) {
+    log.error(`Job ${id} not found for rejection`);
+    throw new JobReviewError("JOB_NOT_FOUND", "Job не найден", id);
+  }
+
+  log.info(`Rejecting job ${id}, current status: ${job.status}, localPath: ${job.localPath || "не указан"}`);
+  const trashedJob = await moveJobToTrash(job, "rejected");
+  await recordReviewDecision(trashedJob, feedback, "rejected");
+  return trashedJob;
+}
+
+/**
+ * Удалить задачу в любом статусе, кроме загрузки в Drive: задача перемещается в корзину
+ */
+export async function deleteVideoJob(id: string): Promise<VideoJob> {
+  const job = await getJob(id);
+
+  if (!job) {
+    log.error(`Job ${id} not found for deletion`);
+    throw new JobReviewError("JOB_NOT_FOUND", "Video job not found", id);
+  }
+
+  return moveJobToTrash(job, "deleted");
+}
+
+/**
+ * Восстановить задачу из корзины в статус, в котором она была до удаления
+ */
+export async function restoreVideoJob(id: string): Promise<VideoJob> {
+  const job = await getJob(id);
+
+  if (!job) {
+    throw new JobReviewError("JOB_NOT_FOUND", "Job не найден", id);
+  }
+  if (job.status !== "trashed") {
+    throw new JobReviewError("INVALID_STATUS", "Восстановить можно только задачу из корзины", id);
+  }
+
+  // У задачи без сохранённого статуса нет файла, который можно было бы одобрить
+  const restoreStatus = job.trashedFromStatus || "cancelled";
+  const restoredJob = await updateJob(
+    id,
+    {
+      status: restoreStatus,
+      trashedAt: null,
+      trashedFromStatus: null,
+      trashReason: null,
+    },
+    { eventMessage: "Восстановлено из корзины", expectedStatus: ["trashed"] }
+  );
+  if (!restoredJob) {
+    throw new JobReviewError("JOB_NOT_FOUND", "Job не найден в базе данных", id);
+  }
+
+  // Восстановленное отклонённое видео снова ждёт решения, а заметки и оценка сохраняются
+  const decision = getReviewDecision(restoredJob);
+  if (restoredJob.review && restoredJob.review.decision !== decision) {
+    await recordReviewDecision(restoredJob, {}, decision);
+  }
+
+  log.info(`Job ${id} restored from trash to ${restoreStatus}`);
+  return restoredJob;
+}
+
+/**
+ * Удалить задачу из корзины навсегда вместе с файлами. Возвращает пути удалённых файлов.
+ */
+export async function purgeTrashedJob(job: VideoJob): Promise<string[]> {
+  if (job.status !== "trashed") {
+    throw new JobReviewError("INVALID_STATUS", "Удалить навсегда можно только задачу из корзины", job.id);
+  }
+  return removeJob(job);
+}
+
+export type BulkJobAction = "approve" | "reject" | "delete";
+
+/**
+ * Результат массового действия для одной задачи
+ */
+export interface BulkJobResult {
+  jobId: string;
+  success: boolean;
+  status?: "uploaded" | "trashed";
+  googleDriveFileId?: string;
+  googleDriveWebViewLink?: string;
+  rejectedVariants?: string[];
+  error?: string; // Код ошибки, как у одиночных маршрутов
+  message?: string;
+}
+
+/**
+ * Лимит одновременных загрузок в Google Drive при массовом одобрении (BULK_UPLOAD_CONCURRENCY)
+ */
+export function getBulkUploadConcurrency(): number {
+  const value = parseInt(process.env.BULK_UPLOAD_CONCURRENCY || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_BULK_UPLOAD_CONCURRENCY;
+}
+
+/**
+ * Выполняет fn для каждого элемента, но не более limit одновременно. Порядок результатов совпадает с items.
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function toBulkError(jobId: string, error: unknown): BulkJobResult {
+  if (error instanceof JobReviewError) {
+    return { jobId, success: false, error: error.code, message: error.message };
+  }
+  if (error instanceof InvalidStatusTransitionError) {
+    return { jobId, success: false, error: "INVALID_STATUS_TRANSITION", message: error.message };
+  }
+  if (error instanceof VariantGroupDecidedError) {
+    return { jobId, success: false, error: "VARIANT_ALREADY_CHOSEN", message: error.message };
+  }
+  log.error(`Bulk action failed for job ${jobId}`, { error, jobId });
+  return {
+    jobId,
+    success: false,
+    error: "INTERNAL_ERROR",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+async function runBulkItem(action: BulkJobAction, jobId: string): Promise<BulkJobResult> {
+  try {
+    if (action === "approve") {
+      const result = await approveVideoJob(jobId);
+      return {
+        jobId,
+        success: true,
+        status: "uploaded",
+        googleDriveFileId: result.driveFileId,
+        googleDriveWebViewLink: result.webViewLink,
+        rejectedVariants: result.rejectedVariants,
+      };
+    }
+    await (action === "reject" ? rejectVideoJob(jobId) : deleteVideoJob(jobId));
+    return { jobId, success: true, status: "trashed" };
+  } catch (error: unknown) {
+    return toBulkError(jobId, error);
+  }
+}
+
+/**
+ * Одобрить, отклонить или удалить несколько задач. Ошибка одной задачи не прерывает остальные:
+ * для каждой возвращается свой результат. Загрузки в Drive идут не более чем по BULK_UPLOAD_CONCURRENCY одновременно.
+ */
+export async function runBulkJobAction(action: BulkJobAction, jobIds: string[]): Promise<BulkJobResult[]> {
+  const uniqueIds = Array.from(new Set(jobIds));
+  const concurrency = action === "approve" ? getBulkUploadConcurrency() : BULK_DELETE_CONCURRENCY;
+
+  log.info(`Bulk ${action} of ${uniqueIds.length} jobs (concurrency ${concurrency})`);
+  const results = await mapWithConcurrency(uniqueIds, concurrency, (jobId) =>
+    runWithLogContext({ jobId }, () => runBulkItem(action, jobId))
+  );
+
+  const failed = results.filter((result) => !result.success).length;
+  log.info(`Bulk ${action} finished: ${results.length - failed} succeeded, ${failed} failed`);
+  return results;
+}
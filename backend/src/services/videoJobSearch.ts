@@ -0,0 +1,285 @@
+import { VideoJob, VideoJobStatus, getAllJobs } from "../models/videoJob";
+import { subscribeToVideoJobChanges } from "./videoJobChanges";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Search");
+
+/**
+ * Индексируемые поля и их вес при ранжировании: совпадение в названии важнее, чем в промпте
+ */
+const FIELD_WEIGHTS = {
+  videoTitle: 3,
+  ideaText: 2,
+  prompt: 1,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+// Минимальная длина основы после отсечения окончания
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Окончания, которые отсекаются при нормализации (самые длинные первыми).
+ * Это не полноценный стеммер: достаточно, чтобы "дедушка"/"дедушки"/"дедушкой"
+ * и "роутер"/"роутера" давали одну основу, а казахские падежные и множественные окончания
+ * ("атасының", "балалар") не мешали поиску.
+ */
+const RUSSIAN_ENDINGS = [
+  "иями", "ями", "ами", "иях", "ого", "его", "ому", "ему", "ыми", "ими", "ией", "иям",
+  "ой", "ей", "ий", "ый", "ая", "яя", "ое", "ее", "ые", "ие", "ом", "ем", "ам", "ям", "ах", "ях",
+  "ов", "ев", "ую", "юю", "ия", "ья", "ью", "ию", "ть", "ся", "ет", "ит", "ут", "ют", "ат", "ят",
+  "а", "я", "о", "е", "ы", "и", "у", "ю", "ь", "й",
+];
+
+const KAZAKH_ENDINGS = [
+  "лардың", "лердің", "дардың", "дердің", "тардың", "тердің",
+  "лары", "лері", "дары", "дері", "тары", "тері",
+  "ның", "нің", "дың", "дің", "тың", "тің",
+  "дан", "ден", "тан", "тен", "нан", "нен",
+  "мен", "бен", "пен",
+  "лар", "лер", "дар", "дер", "тар", "тер",
+  "ға", "ге", "қа", "ке", "на", "не",
+  "да", "де", "та", "те",
+  "ны", "ні", "ды", "ді", "ты", "ті",
+  "сы", "сі",
+];
+
+const byLengthDesc = (a: string, b: string) => b.length - a.length;
+const RUSSIAN_SUFFIXES = [...RUSSIAN_ENDINGS].sort(byLengthDesc);
+const KAZAKH_SUFFIXES = [...KAZAKH_ENDINGS, ...RUSSIAN_ENDINGS].sort(byLengthDesc);
+
+// Буквы, которые есть только в казахском алфавите
+const KAZAKH_LETTERS = /[әғқңөұүһі]/;
+
+interface IndexedJob {
+  channelId: string | null;
+  status: VideoJobStatus;
+  createdAt: number;
+  updatedAt: number;
+  terms: Map<string, number>; // основа -> суммарный вес полей, где она встречается
+}
+
+export interface VideoJobSearchOptions {
+  channelId?: string;
+  statuses?: VideoJobStatus[];
+  limit: number;
+}
+
+export interface VideoJobSearchResult {
+  jobIds: string[];
+  total: number;
+}
+
+const documents = new Map<string, IndexedJob>();
+const termIndex = new Map<string, Set<string>>(); // основа -> ID задач
+
+let indexReady: Promise<void> | null = null;
+let isSubscribed = false;
+
+/**
+ * Приводит текст к виду для поиска: нижний регистр, ё -> е, только буквы и цифры
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLocaleLowerCase("ru")
+    .replace(/ё/g, "е")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Отсекает окончания. Казахские окончания применяются только к словам с казахскими буквами
+ * (до двух раз - для цепочек вроде "балаларының"), иначе "роутер" превратился бы в "роу".
+ */
+function stem(word: string): string {
+  const isKazakh = KAZAKH_LETTERS.test(word);
+  const suffixes = isKazakh ? KAZAKH_SUFFIXES : RUSSIAN_SUFFIXES;
+  let result = word;
+  for (let pass = 0; pass < (isKazakh ? 2 : 1); pass++) {
+    const suffix = suffixes.find(
+      (candidate) => result.endsWith(candidate) && result.length - candidate.length >= MIN_STEM_LENGTH
+    );
+    if (!suffix) {
+      break;
+    }
+    result = result.slice(0, -suffix.length);
+  }
+  return result;
+}
+
+/**
+ * Разбивает текст на основы слов
+ */
+export function tokenizeForSearch(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+  if (!normalized) {
+    return [];
+  }
+  return normalized.split(" ").map(stem);
+}
+
+function buildTerms(job: VideoJob): Map<string, number> {
+  const terms = new Map<string, number>();
+  (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach((field) => {
+    const value = job[field];
+    if (!value) {
+      return;
+    }
+    // Вес поля учитываем один раз, даже если слово повторяется в поле несколько раз
+    new Set(tokenizeForSearch(value)).forEach((term) => {
+      terms.set(term, (terms.get(term) || 0) + FIELD_WEIGHTS[field]);
+    });
+  });
+  return terms;
+}
+
+function removeFromIndex(jobId: string): void {
+  const existing = documents.get(jobId);
+  if (!existing) {
+    return;
+  }
+  existing.terms.forEach((_, term) => {
+    const jobIds = termIndex.get(term);
+    if (jobIds) {
+      jobIds.delete(jobId);
+      if (jobIds.size === 0) {
+        termIndex.delete(term);
+      }
+    }
+  });
+  documents.delete(jobId);
+}
+
+function indexJob(job: VideoJob): void {
+  const existing = documents.get(job.id);
+  // Полная загрузка могла прочитать задачу раньше, чем пришло её обновление
+  if (existing && existing.updatedAt > job.updatedAt) {
+    return;
+  }
+
+  removeFromIndex(job.id);
+  const terms = buildTerms(job);
+  documents.set(job.id, {
+    channelId: job.channelId || null,
+    status: job.status,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    terms,
+  });
+  terms.forEach((_, term) => {
+    let jobIds = termIndex.get(term);
+    if (!jobIds) {
+      jobIds = new Set();
+      termIndex.set(term, jobIds);
+    }
+    jobIds.add(job.id);
+  });
+}
+
+async function buildIndex(): Promise<void> {
+  // Подписываемся до полной загрузки, чтобы не пропустить изменения во время неё
+  if (!isSubscribed) {
+    isSubscribed = true;
+    subscribeToVideoJobChanges((change) => {
+      if (change.type === "deleted" || !change.job) {
+        removeFromIndex(change.jobId);
+      } else {
+        indexJob(change.job);
+      }
+    });
+  }
+
+  const jobs = await getAllJobs();
+  jobs.forEach(indexJob);
+  log.info(`Index built: ${documents.size} job(s), ${termIndex.size} term(s)`);
+}
+
+/**
+ * Строит индекс поиска (один раз за время жизни процесса) и держит его в синхронизации с задачами
+ */
+export function initVideoJobSearchIndex(): Promise<void> {
+  if (!indexReady) {
+    indexReady = buildIndex().catch((error) => {
+      // Следующий поиск попробует построить индекс заново
+      indexReady = null;
+      throw error;
+    });
+  }
+  return indexReady;
+}
+
+/**
+ * Ищет задачи по названию, идее и промпту.
+ * Каждое слово запроса должно совпасть с началом основы какого-либо слова задачи
+ * (так находятся и недописанные слова). Результаты - по релевантности, затем новые первыми.
+ */
+export async function searchVideoJobs(query: string, options: VideoJobSearchOptions): Promise<VideoJobSearchResult> {
+  await initVideoJobSearchIndex();
+
+  const queryTerms = Array.from(new Set(tokenizeForSearch(query)));
+  if (queryTerms.length === 0) {
+    return { jobIds: [], total: 0 };
+  }
+
+  let scores: Map<string, number> | null = null;
+
+  for (const queryTerm of queryTerms) {
+    const termScores = new Map<string, number>();
+    termIndex.forEach((jobIds, term) => {
+      if (!term.startsWith(queryTerm)) {
+        return;
+      }
+      jobIds.forEach((jobId) => {
+        const weight = documents.get(jobId)?.terms.get(term) || 0;
+        termScores.set(jobId, Math.max(termScores.get(jobId) || 0, weight));
+      });
+    });
+
+    // Пересечение: задача должна содержать все слова запроса
+    const previousScores: Map<string, number> | null = scores;
+    const nextScores = new Map<string, number>();
+    termScores.forEach((score, jobId) => {
+      if (!previousScores) {
+        nextScores.set(jobId, score);
+      } else if (previousScores.has(jobId)) {
+        nextScores.set(jobId, (previousScores.get(jobId) || 0) + score);
+      }
+    });
+    scores = nextScores;
+
+    if (scores.size === 0) {
+      break;
+    }
+  }
+
+  const matches = Array.from((scores || new Map<string, number>()).entries())
+    .filter(([jobId]) => {
+      const doc = documents.get(jobId);
+      if (!doc) {
+        return false;
+      }
+      if (options.channelId && doc.channelId !== options.channelId) {
+        return false;
+      }
+      if (options.statuses && options.statuses.length > 0) {
+        if (!options.statuses.includes(doc.status)) {
+          return false;
+        }
+      } else if (doc.status === "trashed") {
+        // Без фильтра по статусу задачи из корзины не ищутся, как и в списке
+        return false;
+      }
+      return true;
+    })
+    .sort(([aId, aScore], [bId, bScore]) => {
+      if (aScore !== bScore) {
+        return bScore - aScore;
+      }
+      return (documents.get(bId)?.createdAt || 0) - (documents.get(aId)?.createdAt || 0);
+    });
+
+  return {
+    jobIds: matches.slice(0, options.limit).map(([jobId]) => jobId),
+    total: matches.length,
+  };
+}
@@ -0,0 +1,86 @@
+import { createJob, CreateJobOptions, VideoJob } from "../models/videoJob";
+import {
+  VariantWinStats,
+  VideoJobVariantGroup,
+  createVariantGroup,
+  generateVariantGroupId,
+  getDecidedVariantGroups,
+} from "../models/videoJobVariantGroup";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Variants");
+
+/**
+ * Максимальное количество дублей одного промпта: каждый дубль занимает слот генерации
+ */
+export const MAX_VARIANTS_PER_PROMPT = 4;
+
+/**
+ * Создаёт N задач с одним промптом и общей группой дублей.
+ * Дубли встают в очередь подряд, номер дубля начинается с 1.
+ */
+export async function createVariantJobs(
+  prompt: string,
+  variantCount: number,
+  channelId?: string,
+  channelName?: string,
+  ideaText?: string,
+  videoTitle?: string,
+  options: Omit<CreateJobOptions, "variant"> = {}
+): Promise<{ group: VideoJobVariantGroup; jobs: VideoJob[] }> {
+  const groupId = generateVariantGroupId();
+  const jobs: VideoJob[] = [];
+
+  for (let index = 1; index <= variantCount; index++) {
+    const job = await createJob(prompt, channelId, channelName, ideaText, videoTitle, {
+      ...options,
+      variant: { groupId, index, count: variantCount },
+    });
+    jobs.push(job);
+  }
+
+  const now = Date.now();
+  const group = await createVariantGroup({
+    id: groupId,
+    channelId: channelId || null,
+    jobIds: jobs.map((job) => job.id),
+    variantCount,
+    winnerJobId: null,
+    winnerIndex: null,
+    decidedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  log.info(`Created group ${groupId} with ${variantCount} variant(s): ${group.jobIds.join(", ")}`);
+  return { group, jobs };
+}
+
+/**
+ * Считает, какой по номеру дубль выбирают чаще, в целом и по месяцам
+ */
+export async function getVariantWinStats(channelId?: string): Promise<VariantWinStats> {
+  const groups = await getDecidedVariantGroups(channelId);
+  const stats: VariantWinStats = { decidedGroups: 0, wins: {}, byMonth: [] };
+
+  for (const group of groups) {
+    if (!group.winnerIndex || !group.decidedAt) {
+      continue;
+    }
+
+    const decidedAt = new Date(group.decidedAt);
+    const month = `${decidedAt.getFullYear()}-${String(decidedAt.getMonth() + 1).padStart(2, "0")}`;
+    let monthStats = stats.byMonth[stats.byMonth.length - 1];
+    if (!monthStats || monthStats.month !== month) {
+      monthStats = { month, decidedGroups: 0, wins: {} };
+      stats.byMonth.push(monthStats);
+    }
+
+    stats.decidedGroups++;
+    stats.wins[group.winnerIndex] = (stats.wins[group.winnerIndex] || 0) + 1;
+    monthStats.decidedGroups++;
+    monthStats.wins[group.winnerIndex] = (monthStats.wins[group.winnerIndex] || 0) + 1;
+  }
+
+  return stats;
+}
@@ -2,6 +2,9 @@ import { TelegramClient } from "telegram";
 import { StringSession } from "telegram/sessions";
 import { Api } from "telegram/tl";
 import * as readline from "readline";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Telegram");
 
 let client: TelegramClient | null = null;
 
@@ -10,7 +13,7 @@ export async function getTelegramClient(): Promise<TelegramClient> {
     // Проверяем, что клиент все еще авторизован
     const isAuthorized = await client.checkAuthorization();
     if (!isAuthorized) {
-      console.warn("⚠️  Существующий клиент не авторизован, пересоздаем...");
+      log.warn("Существующий клиент не авторизован, пересоздаем...");
       client = null;
       // Продолжаем создание нового клиента
     } else {
@@ -38,7 +41,7 @@ export async function getTelegramClient(): Promise<TelegramClient> {
   }
 
   if (!(await client.checkAuthorization())) {
-    console.log("Требуется авторизация в Telegram...");
+    log.info("Требуется авторизация в Telegram...");
 
     const phoneNumber = process.env.TELEGRAM_PHONE_NUMBER || "";
 
@@ -65,7 +68,7 @@ export async function getTelegramClient(): Promise<TelegramClient> {
           const code = await question("Введите код из Telegram: ");
           return code;
         },
-        onError: (err) => console.error("Ошибка авторизации:", err),
+        onError: (err) => log.error("Ошибка авторизации", { error: err }),
       });
 
       rl.close();
@@ -86,7 +89,7 @@ export async function getTelegramClient(): Promise<TelegramClient> {
           rl.close();
           return code;
         },
-        onError: (err) => console.error("Ошибка авторизации:", err),
+        onError: (err) => log.error("Ошибка авторизации", { error: err }),
       });
     }
 
@@ -101,14 +104,13 @@ export async function getTelegramClient(): Promise<TelegramClient> {
     const newSession = typeof rawSession === "string" ? rawSession : "";
 
     if (newSession) {
-      console.log("\n=== ВАЖНО: Сохраните эту строку в .env ===\n");
-      console.log(`TELEGRAM_STRING_SESSION=${newSession}\n`);
-      console.log("✅ Авторизация в Telegram завершена успешно");
+      log.warn(`ВАЖНО: сохраните эту строку в .env: TELEGRAM_STRING_SESSION=${newSession}`);
+      log.info("Авторизация в Telegram завершена успешно");
     } else {
-      console.warn("⚠️  Не удалось сохранить TELEGRAM_STRING_SESSION автоматически. Скопируйте строку из консоли GramJS.");
+      log.warn("Не удалось сохранить TELEGRAM_STRING_SESSION автоматически. Скопируйте строку из консоли GramJS.");
     }
   } else {
-    console.log("✅ Telegram клиент авторизован");
+    log.info("Telegram клиент авторизован");
   }
 
   return client;
@@ -117,11 +119,11 @@ export async function getTelegramClient(): Promise<TelegramClient> {
 if (require.main === module) {
   getTelegramClient()
     .then(() => {
-      console.log("✅ Telegram клиент готов. Если это была интерактивная авторизация, скопируйте TELEGRAM_STRING_SESSION из вывода выше.");
+      log.info("Telegram клиент готов. Если это была интерактивная авторизация, скопируйте TELEGRAM_STRING_SESSION из вывода выше.");
       process.exit(0);
     })
     .catch((error) => {
-      console.error("❌ Ошибка при инициализации Telegram клиента:", error);
+      log.error("Ошибка при инициализации Telegram клиента", { error });
       process.exit(1);
     });
 }
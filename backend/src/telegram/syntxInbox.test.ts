@@ -0,0 +1,54 @@
+import { describe, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { Api } from "telegram";
+import { matchSyntxVideos, SyntxRequestSlot } from "./syntxInbox";
+
+const NOW = 1_700_000_000_000;
+
+function makeVideo(id: number, replyToMsgId?: number, ageMs = 60 * 1000): Api.Message {
+  return {
+    id,
+    date: Math.floor((NOW - ageMs) / 1000),
+    replyTo: replyToMsgId ? { replyToMsgId } : undefined,
+  } as unknown as Api.Message;
+}
+
+function makeRequest(requestMessageId: number): SyntxRequestSlot {
+  return { requestMessageId };
+}
+
+function summarize(matches: ReturnType<typeof matchSyntxVideos>): string[] {
+  return matches.map((match) => `${match.request.requestMessageId}:${match.video.id}:${match.method}`);
+}
+
+describe("matchSyntxVideos", () => {
+  test("отдаёт видео запросу, на который оно отвечает", () => {
+    const matches = matchSyntxVideos([makeVideo(12, 10)], [makeRequest(5), makeRequest(10)], NOW);
+    assert.deepEqual(summarize(matches), ["10:12:reply_to"]);
+  });
+
+  test("fallback не забирает видео, адресованное другому запросу, даже если оно пришло раньше", () => {
+    const videos = [makeVideo(20), makeVideo(21, 10)];
+    const matches = matchSyntxVideos(videos, [makeRequest(5), makeRequest(10)], NOW);
+    assert.deepEqual(summarize(matches), ["10:21:reply_to", "5:20:fallback"]);
+  });
+
+  test("видео без reply_to достаётся самому старому запросу, отправленному раньше видео", () => {
+    const videos = [makeVideo(31), makeVideo(30)];
+    const matches = matchSyntxVideos(videos, [makeRequest(25), makeRequest(8), makeRequest(40)], NOW);
+    assert.deepEqual(summarize(matches), ["8:30:fallback", "25:31:fallback"]);
+  });
+
+  test("запрос получает не больше одного видео", () => {
+    const matches = matchSyntxVideos([makeVideo(11), makeVideo(12)], [makeRequest(10)], NOW);
+    assert.deepEqual(summarize(matches), ["10:11:fallback"]);
+  });
+
+  test("не отдаёт слишком старое видео по fallback, но отдаёт по reply_to", () => {
+    const hourMs = 60 * 60 * 1000;
+    assert.deepEqual(matchSyntxVideos([makeVideo(11, undefined, hourMs)], [makeRequest(10)], NOW), []);
+    assert.deepEqual(summarize(matchSyntxVideos([makeVideo(11, 10, hourMs)], [makeRequest(10)], NOW)), [
+      "10:11:reply_to",
+    ]);
+  });
+});
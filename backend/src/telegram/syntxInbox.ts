@@ -0,0 +1,286 @@
+import { TelegramClient, Api } from "telegram";
+import { isSyntxVideoMessage, subscribeToSyntxVideos } from "./syntxUpdates";
+import { getUsedVideoMessageIds } from "../firebase/videoJobsService";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Syntx");
+
+/**
+ * Общий диспетчер входящих видео от Syntx-бота.
+ *
+ * Все ожидающие задачи регистрируют свой запрос (telegramRequestMessageId) в одном реестре.
+ * Новые видео приходят событиями NewMessage, а страховочное сканирование диалога выполняется
+ * одно на всех: один getMessages начиная с самого старого ожидающего запроса.
+ * Каждое видео отдаётся ровно одному запросу:
+ * 1. Видео с reply_to на ожидающий запрос - этому запросу
+ * 2. Остальные видео по порядку поступления - самому старому запросу, отправленному раньше видео,
+ *    если видео не старше 20 минут
+ * Реестр уже отданных видео - единственный источник правды о занятых видео: при первой регистрации
+ * он заполняется видео из задач в Firestore, дальше пополняется здесь же.
+ */
+
+// Видео без reply_to считается ответом на запрос, только если оно не старше этого срока
+const MAX_FALLBACK_VIDEO_AGE_MS = 20 * 60 * 1000;
+const DEFAULT_CATCHUP_INTERVAL_MS = 60 * 1000;
+// Максимум сообщений, которые Telegram отдаёт за один запрос
+const SCAN_LIMIT = 100;
+
+/**
+ * Запрос, ожидающий видео
+ */
+export interface SyntxRequestSlot {
+  requestMessageId: number;
+}
+
+interface PendingRequest extends SyntxRequestSlot {
+  resolve: (message: Api.Message) => void;
+}
+
+/**
+ * Видео, отданное запросу, и способ сопоставления
+ */
+export interface SyntxVideoMatch<T extends SyntxRequestSlot> {
+  request: T;
+  video: Api.Message;
+  method: "reply_to" | "fallback";
+}
+
+/**
+ * Ожидание видео для зарегистрированного запроса
+ */
+export interface SyntxVideoWaiter {
+  video: Promise<Api.Message>;
+  /** Снять запрос с ожидания (таймаут или отмена задачи). После получения видео ничего не делает. */
+  cancel: () => void;
+}
+
+// Реестр ожидающих запросов по telegramRequestMessageId
+const pendingRequests = new Map<number, PendingRequest>();
+// Видео, уже отданные задачам: из Firestore (telegramVideoMessageId) и найденные в этом процессе
+const claimedVideos = new Set<number>();
+let claimedVideosLoad: Promise<void> | null = null;
+
+let inbox: { client: TelegramClient; chat: Api.TypeEntityLike; unsubscribe: () => void } | null = null;
+let scanTimer: NodeJS.Timeout | null = null;
+let scanInFlight = false;
+let rescanRequested = false;
+
+/**
+ * Интервал страховочного сканирования диалога (SYNTX_CATCHUP_INTERVAL_MS, по умолчанию минута).
+ * Покрывает обновления, пропущенные при переподключении клиента, и видео, пришедшие до подписки.
+ */
+function getCatchUpIntervalMs(): number {
+  const value = parseInt(process.env.SYNTX_CATCHUP_INTERVAL_MS || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_CATCHUP_INTERVAL_MS;
+}
+
+function assignVideo(request: PendingRequest, video: Api.Message): void {
+  pendingRequests.delete(request.requestMessageId);
+  claimedVideos.add(video.id);
+
+  request.resolve(video);
+  stopIfIdle();
+}
+
+/**
+ * Сопоставляет видео с ожидающими запросами (каждое видео - не больше одному запросу, каждому запросу - одно видео).
+ * Сначала разбираются все reply_to, чтобы fallback не забрал видео, адресованное другому запросу.
+ * Видео без подходящего reply_to отдаётся самому старому запросу, отправленному раньше видео,
+ * если видео не старше MAX_FALLBACK_VIDEO_AGE_MS.
+ */
+export function matchSyntxVideos<T extends SyntxRequestSlot>(
+  videos: Api.Message[],
+  requests: T[],
+  now: number
+): SyntxVideoMatch<T>[] {
+  const pending = new Map(requests.map((request) => [request.requestMessageId, request]));
+  const matches: SyntxVideoMatch<T>[] = [];
+  // Более старые первыми: порядок распределения не зависит от порядка в ответе Telegram
+  const sortedVideos = [...videos].sort((a, b) => a.id - b.id);
+
+  const unmatched: Api.Message[] = [];
+  for (const video of sortedVideos) {
+    const replyToMsgId = video.replyTo?.replyToMsgId;
+    const request = replyToMsgId ? pending.get(replyToMsgId) : undefined;
+    if (request) {
+      pending.delete(request.requestMessageId);
+      matches.push({ request, video, method: "reply_to" });
+    } else {
+      unmatched.push(video);
+    }
+  }
+
+  for (const video of unmatched) {
+    // message.date - Unix timestamp в секундах
+    const messageDate = video.date ? video.date * 1000 : 0;
+    if (now - messageDate > MAX_FALLBACK_VIDEO_AGE_MS) {
+      log.debug(`Пропускаем слишком старое видео: message ID: ${video.id}, возраст: ${Math.round((now - messageDate) / 1000 / 60)} минут`);
+      continue;
+    }
+
+    // Map хранит запросы в порядке регистрации, поэтому сортируем по ID сообщения запроса
+    const request = Array.from(pending.values())
+      .filter((item) => item.requestMessageId < video.id)
+      .sort((a, b) => a.requestMessageId - b.requestMessageId)[0];
+    if (request) {
+      pending.delete(request.requestMessageId);
+      matches.push({ request, video, method: "fallback" });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Распределяет видео из пачки сообщений между ожидающими запросами
+ */
+function dispatch(messages: Api.Message[]): void {
+  if (pendingRequests.size === 0) {
+    return;
+  }
+
+  const videos = messages.filter(
+    (message) => !message.out && isSyntxVideoMessage(message) && !claimedVideos.has(message.id)
+  );
+  const matches = matchSyntxVideos(videos, Array.from(pendingRequests.values()), Date.now());
+  for (const { request, video, method } of matches) {
+    if (method === "reply_to") {
+      log.info(`Видео найдено по reply_to: message ID: ${video.id}, reply_to: ${request.requestMessageId}`);
+    } else {
+      log.warn(`Видео ${video.id} не имеет reply_to на запрос ${request.requestMessageId}, но новее него. Используем как fallback.`);
+    }
+    assignVideo(request, video);
+  }
+}
+
+/**
+ * Одно сканирование диалога на все ожидающие запросы: только сообщения новее самого старого запроса
+ */
+async function scanInbox(): Promise<void> {
+  if (!inbox || pendingRequests.size === 0) {
+    return;
+  }
+  const oldestRequestId = Math.min(...Array.from(pendingRequests.keys()));
+  try {
+    const messages = await inbox.client.getMessages(inbox.chat, { minId: oldestRequestId, limit: SCAN_LIMIT });
+    dispatch(messages);
+  } catch (error) {
+    log.error("Ошибка при сканировании диалога с ботом", { error });
+  }
+}
+
+/**
+ * Запускает сканирование сейчас. Если сканирование уже идёт, повторяет его сразу после завершения,
+ * затем планирует следующее через SYNTX_CATCHUP_INTERVAL_MS.
+ */
+function requestScan(): void {
+  if (scanInFlight) {
+    rescanRequested = true;
+    return;
+  }
+  if (scanTimer) {
+    clearTimeout(scanTimer);
+    scanTimer = null;
+  }
+
+  scanInFlight = true;
+  void scanInbox().finally(() => {
+    scanInFlight = false;
+    if (pendingRequests.size === 0) {
+      return;
+    }
+    if (rescanRequested) {
+      rescanRequested = false;
+      requestScan();
+      return;
+    }
+    scanTimer = setTimeout(requestScan, getCatchUpIntervalMs());
+  });
+}
+
+/**
+ * Подписка на события нужна, только пока есть ожидающие запросы
+ */
+async function ensureInboxListening(client: TelegramClient, chat: Api.TypeEntityLike): Promise<void> {
+  if (inbox?.client === client) {
+    inbox.chat = chat;
+    return;
+  }
+
+  const unsubscribe = await subscribeToSyntxVideos(client, (message) => dispatch([message]));
+  // Клиент мог быть пересоздан после потери авторизации
+  inbox?.unsubscribe();
+  inbox = { client, chat, unsubscribe };
+}
+
+function stopIfIdle(): void {
+  if (pendingRequests.size > 0) {
+    return;
+  }
+  if (scanTimer) {
+    clearTimeout(scanTimer);
+    scanTimer = null;
+  }
+  inbox?.unsubscribe();
+  inbox = null;
+}
+
+/**
+ * Один раз за процесс заполняет реестр отданных видео из задач, у которых уже есть telegramVideoMessageId.
+ * При ошибке чтения регистрация продолжается, а загрузка повторяется при следующей.
+ */
+function loadClaimedVideos(): Promise<void> {
+  if (!claimedVideosLoad) {
+    claimedVideosLoad = getUsedVideoMessageIds()
+      .then((videoMessageIds) => {
+        videoMessageIds.forEach((videoMessageId) => claimedVideos.add(videoMessageId));
+        log.info(`Найдено ${videoMessageIds.length} уже использованных video message IDs`);
+      })
+      .catch((error: unknown) => {
+        claimedVideosLoad = null;
+        log.error("Ошибка при получении использованных video message IDs", { error });
+      });
+  }
+  return claimedVideosLoad;
+}
+
+/**
+ * Зарегистрировать запрос в реестре ожидающих. Сразу запускает сканирование диалога,
+ * чтобы найти видео, которое пришло до регистрации (например, после рестарта сервера).
+ */
+export async function registerSyntxRequest(
+  client: TelegramClient,
+  chat: Api.TypeEntityLike,
+  requestMessageId: number
+): Promise<SyntxVideoWaiter> {
+  await loadClaimedVideos();
+  if (pendingRequests.has(requestMessageId)) {
+    throw new Error(`Видео для запроса ${requestMessageId} уже ожидается другой задачей`);
+  }
+
+  let resolve!: (message: Api.Message) => void;
+  const video = new Promise<Api.Message>((promiseResolve) => {
+    resolve = promiseResolve;
+  });
+  const request: PendingRequest = { requestMessageId, resolve };
+  pendingRequests.set(requestMessageId, request);
+
+  try {
+    await ensureInboxListening(client, chat);
+  } catch (error) {
+    pendingRequests.delete(requestMessageId);
+    stopIfIdle();
+    throw error;
+  }
+  requestScan();
+
+  return {
+    video,
+    cancel: () => {
+      if (pendingRequests.get(requestMessageId) === request) {
+        pendingRequests.delete(requestMessageId);
+        stopIfIdle();
+      }
+    },
+  };
+}
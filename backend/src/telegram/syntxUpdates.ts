@@ -0,0 +1,90 @@
+import { TelegramClient, Api } from "telegram";
+import { NewMessage, NewMessageEvent } from "telegram/events";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("Syntx");
+
+/**
+ * Получатель новых видео от Syntx-бота
+ */
+export type SyntxVideoListener = (message: Api.Message) => void;
+
+const listeners = new Set<SyntxVideoListener>();
+
+// Клиент, на который повешен обработчик: getTelegramClient может пересоздать клиент после потери авторизации
+let boundClient: TelegramClient | null = null;
+let boundEvent: NewMessage | null = null;
+let botUserId: string | null = null;
+
+export function getSyntxBotUsername(): string {
+  return (process.env.SYNTX_BOT_USERNAME || "syntxaibot").replace("@", "");
+}
+
+/**
+ * Сообщение содержит видео (документ с атрибутом DocumentAttributeVideo)
+ */
+export function isSyntxVideoMessage(message: Api.Message): boolean {
+  if (!(message.media instanceof Api.MessageMediaDocument)) {
+    return false;
+  }
+  const document = message.media.document;
+  return (
+    document instanceof Api.Document &&
+    document.attributes.some((attr) => attr instanceof Api.DocumentAttributeVideo)
+  );
+}
+
+function handleNewMessage(event: NewMessageEvent): void {
+  const message = event.message;
+  if (!isSyntxVideoMessage(message)) {
+    return;
+  }
+
+  log.info(`Новое видео от бота: message ID ${message.id}, reply_to: ${message.replyTo?.replyToMsgId ?? "нет"}`);
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(message);
+    } catch (error: unknown) {
+      log.error("Ошибка в обработчике видео от Syntx", { error });
+    }
+  }
+}
+
+/**
+ * Вешает обработчик NewMessage на клиент один раз. Отправитель бота определяется одним getEntity,
+ * а не запросом на каждое сообщение.
+ */
+async function ensureListening(client: TelegramClient): Promise<void> {
+  if (boundClient === client) {
+    return;
+  }
+
+  const bot = await client.getEntity(getSyntxBotUsername());
+  botUserId = bot.id.toString();
+
+  if (boundClient && boundEvent) {
+    boundClient.removeEventHandler(handleNewMessage, boundEvent);
+  }
+
+  boundEvent = new NewMessage({
+    incoming: true,
+    func: (event) => !!botUserId && event.message.senderId?.toString() === botUserId,
+  });
+  client.addEventHandler(handleNewMessage, boundEvent);
+  boundClient = client;
+  log.info(`Подписка на новые сообщения бота ${getSyntxBotUsername()} включена`);
+}
+
+/**
+ * Подписаться на новые видео от Syntx-бота. Возвращает функцию отписки.
+ */
+export async function subscribeToSyntxVideos(
+  client: TelegramClient,
+  listener: SyntxVideoListener
+): Promise<() => void> {
+  await ensureListening(client);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Утилиты для работы с локальными файлами задач генерации видео
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { VideoJob } from "../models/videoJob";
+import { createLogger } from "./logger";
+
+const log = createLogger("JobFiles");
+
+/**
+ * Собирает все локальные пути файлов задачи (видео, превью, обложка, промежуточные версии)
+ */
+export function collectAllFilePaths(job: VideoJob): string[] {
+  const paths = new Set<string>();
+
+  if (job.localPath) paths.add(job.localPath);
+  if (job.previewPath) paths.add(job.previewPath);
+  if (job.thumbnailPath) paths.add(job.thumbnailPath);
+  if (Array.isArray(job.storagePaths)) {
+    job.storagePaths.forEach((p: string | undefined) => p && paths.add(p));
+  }
+
+  return Array.from(paths);
+}
+
+/**
+ * Удаляет файл, не выбрасывая ошибок. Возвращает true, если файл был удалён.
+ */
+export function deleteLocalFileSafe(filePath?: string): boolean {
+  if (!filePath) {
+    return false;
+  }
+
+  try {
+    const absolutePath = path.isAbsolute(filePath) ? filePath : path.resolve(filePath);
+    if (!fs.existsSync(absolutePath)) {
+      log.info(`File does not exist, skip delete: ${absolutePath}`);
+      return false;
+    }
+
+    fs.unlinkSync(absolutePath);
+    log.info(`Deleted file: ${absolutePath}`);
+    return true;
+  } catch (error) {
+    log.error(`Failed to delete file ${filePath}`, { error });
+    return false;
+  }
+}
+
+/**
+ * Ссылка на видео в Google Drive для задач, локальная копия которых удалена по политике хранения
+ */
+export function getDriveFallbackUrl(job: VideoJob): string | null {
+  if (!job.localFilesPurgedAt) {
+    return null;
+  }
+  return job.webContentLink || job.webViewLink || null;
+}
+
+/**
+ * Удаляет все локальные файлы задачи. Возвращает список удалённых путей.
+ */
+export function deleteJobFiles(job: VideoJob): string[] {
+  return collectAllFilePaths(job).filter((candidate) => deleteLocalFileSafe(candidate));
+}
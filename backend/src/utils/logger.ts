@@ -0,0 +1,130 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Поля, которые добавляются ко всем записям внутри контекста (HTTP-запрос, обработка задачи, пакет)
+ */
+export interface LogContext {
+  requestId?: string;
+  jobId?: string;
+  channelId?: string;
+  batchId?: string;
+}
+
+export type LogFields = LogContext & Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Названия уровней, которые понимает Cloud Logging
+const SEVERITY: Record<LogLevel, string> = { debug: "DEBUG", info: "INFO", warn: "WARNING", error: "ERROR" };
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Минимальный уровень из LOG_LEVEL (по умолчанию info).
+ * Читается при каждой записи, так как .env загружается уже после импорта модулей.
+ */
+function getMinLevel(): number {
+  const level = (process.env.LOG_LEVEL || "").toLowerCase() as LogLevel;
+  return LOG_LEVELS[level] || LOG_LEVELS.info;
+}
+
+function serializeError(error: unknown): unknown {
+  if (error instanceof Error) {
+    const details = error as Error & { code?: unknown; errorMessage?: unknown };
+    return {
+      name: error.name,
+      message: error.message,
+      stack: error.stack,
+      ...(details.code !== undefined ? { code: details.code } : {}),
+      // Ошибки GramJS хранят код Telegram в errorMessage
+      ...(details.errorMessage !== undefined ? { errorMessage: details.errorMessage } : {}),
+    };
+  }
+  return error;
+}
+
+function safeStringify(entry: Record<string, unknown>): string {
+  try {
+    return JSON.stringify(entry);
+  } catch {
+    // Циклические ссылки и BigInt: пишем хотя бы основные поля
+    return JSON.stringify({
+      severity: entry.severity,
+      time: entry.time,
+      component: entry.component,
+      message: entry.message,
+      serializationError: true,
+    });
+  }
+}
+
+function write(level: LogLevel, component: string, message: string, fields: LogFields = {}): void {
+  if (LOG_LEVELS[level] < getMinLevel()) {
+    return;
+  }
+
+  const { error, ...rest } = fields;
+  const entry: Record<string, unknown> = {
+    severity: SEVERITY[level],
+    time: new Date().toISOString(),
+    component,
+    message,
+    ...contextStorage.getStore(),
+    ...rest,
+  };
+  if (error !== undefined) {
+    entry.error = serializeError(error);
+  }
+
+  const stream = level === "error" || level === "warn" ? process.stderr : process.stdout;
+  if (process.env.LOG_FORMAT === "pretty") {
+    const { severity, time, component: _, message: __, ...extra } = entry;
+    const suffix = Object.keys(extra).length > 0 ? ` ${safeStringify(extra)}` : "";
+    stream.write(`${time} ${severity} [${component}] ${message}${suffix}\n`);
+    return;
+  }
+  stream.write(`${safeStringify(entry)}\n`);
+}
+
+/**
+ * Логгер компонента: пишет одну JSON-строку на запись с уровнем, компонентом и полями текущего контекста
+ */
+export function createLogger(component: string): Logger {
+  return {
+    debug: (message, fields) => write("debug", component, message, fields),
+    info: (message, fields) => write("info", component, message, fields),
+    warn: (message, fields) => write("warn", component, message, fields),
+    error: (message, fields) => write("error", component, message, fields),
+  };
+}
+
+/**
+ * Выполняет fn с полями контекста логирования. Поля наследуются всеми асинхронными продолжениями
+ * (промисы, таймеры), а вложенный контекст дополняет внешний.
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+/**
+ * Дополняет текущий контекст логирования (например, jobId, когда он стал известен внутри запроса)
+ */
+export function addLogContext(context: LogContext): void {
+  const store = contextStorage.getStore();
+  if (store) {
+    Object.assign(store, context);
+  }
+}
+
+export function getLogContext(): LogContext {
+  return { ...contextStorage.getStore() };
+}
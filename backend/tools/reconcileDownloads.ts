@@ -0,0 +1,69 @@
+import * as dotenv from "dotenv";
+import * as path from "path";
+import { initializeFirebase } from "../src/firebase/admin";
+import { scanDownloads, reconcileDownloads, ReconciliationReport } from "../src/services/downloadReconciliation";
+
+// Загружаем переменные окружения
+const envPath = path.join(__dirname, "..", ".env");
+dotenv.config({ path: envPath });
+dotenv.config();
+
+function printReport(report: ReconciliationReport) {
+  console.log(`📂 DOWNLOAD_DIR: ${report.downloadDir}`);
+  console.log(`   Файлов: ${report.scannedFiles}, задач: ${report.scannedJobs}, пропущено свежих файлов: ${report.skippedRecentFiles}`);
+
+  console.log(`\n🗂  Файлы без задач: ${report.orphanFiles.length}`);
+  report.orphanFiles.forEach((orphan) => {
+    const sizeMb = (orphan.size / 1024 / 1024).toFixed(1);
+    const match = orphan.matchedJobId ? ` (совпадает с задачей ${orphan.matchedJobId})` : "";
+    console.log(`   - ${orphan.path} [${sizeMb} MB, ${new Date(orphan.modifiedAt).toISOString()}]${match}`);
+  });
+
+  console.log(`\n⚠️  Задачи без файлов: ${report.brokenJobs.length}`);
+  report.brokenJobs.forEach((broken) => {
+    console.log(`   - ${broken.jobId} (${broken.status}): ${broken.missingPaths.join(", ")}`);
+  });
+}
+
+/**
+ * Сверка DOWNLOAD_DIR с коллекцией videoJobs.
+ * Без флагов только печатает отчёт. Флаги применяют действия:
+ *   --delete-orphans  удалить файлы, на которые не ссылается ни одна задача
+ *   --adopt-orphans   привязать такие файлы к задачам с тем же именем файла или создать для них задачи (ready)
+ *   --mark-broken     отметить задачи, файлов которых нет на диске
+ */
+async function main() {
+  const args = new Set(process.argv.slice(2));
+  const actions = {
+    deleteOrphans: args.has("--delete-orphans"),
+    adoptOrphans: args.has("--adopt-orphans"),
+    markBrokenJobs: args.has("--mark-broken"),
+  };
+
+  try {
+    console.log("🔥 Инициализация Firebase...");
+    initializeFirebase();
+
+    if (!actions.deleteOrphans && !actions.adoptOrphans && !actions.markBrokenJobs) {
+      printReport(await scanDownloads());
+      console.log("\n💡 Это отчёт без изменений. Для применения: --delete-orphans | --adopt-orphans, --mark-broken");
+      process.exit(0);
+    }
+
+    const result = await reconcileDownloads(actions);
+    printReport(result.report);
+    console.log(`\n✅ Удалено файлов: ${result.deletedFiles.length}`);
+    console.log(`✅ Привязано файлов: ${result.adoptedFiles.length}`);
+    console.log(`✅ Отмечено задач: ${result.markedJobs.length}`);
+    if (result.errors.length > 0) {
+      console.log(`❌ Ошибок: ${result.errors.length}`);
+      result.errors.forEach((error) => console.log(`   - ${error.target}: ${error.message}`));
+    }
+    process.exit(result.errors.length > 0 ? 1 : 0);
+  } catch (error: any) {
+    console.error("❌ Ошибка сверки:", error.message);
+    process.exit(1);
+  }
+}
+
+main();
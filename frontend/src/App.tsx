@@ -4,6 +4,8 @@ import './App.css'
 import VideoGeneration from './components/VideoGeneration'
 import ChannelSettings from './components/ChannelSettings'
 import VideoJobsHistory from './pages/VideoJobsHistory'
+import OpenAIUsage from './pages/OpenAIUsage'
+import Trash from './pages/Trash'
 import ToastContainer from './components/ToastContainer'
 import { useToast } from './hooks/useToast'
 
@@ -32,6 +34,20 @@ function App() {
           >
             📋 История видео
           </Link>
+          <Link
+            to="/trash"
+            className={isActive('/trash') ? 'active' : ''}
+            aria-label="Перейти к корзине"
+          >
+            Корзина
+          </Link>
+          <Link
+            to="/usage"
+            className={isActive('/usage') ? 'active' : ''}
+            aria-label="Перейти к расходам OpenAI"
+          >
+            Расходы OpenAI
+          </Link>
           <Link
             to="/settings"
             className={isActive('/settings') ? 'active' : ''}
@@ -44,6 +60,8 @@ function App() {
       <main className="app-main">
         {location.pathname === '/' && <VideoGeneration />}
         {location.pathname === '/jobs' && <VideoJobsHistory />}
+        {location.pathname === '/trash' && <Trash />}
+        {location.pathname === '/usage' && <OpenAIUsage />}
         {location.pathname === '/settings' && <ChannelSettings />}
       </main>
       <ToastContainer toasts={toast.toasts} onRemove={toast.removeToast} />
@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { apiFetchJson } from '../lib/apiClient'
+import { VideoJobStatus } from '../hooks/useVideoJobs'
+import '../App.css'
+
+type BatchItemStatus = 'pending' | 'generating_prompt' | 'job_created' | 'failed'
+
+interface BatchItem {
+  index: number
+  ideaTitle: string
+  status: BatchItemStatus
+  jobId: string | null
+  videoTitle: string | null
+  errorMessage: string | null
+  jobStatus: VideoJobStatus | null
+}
+
+interface BatchProgress {
+  total: number
+  pending: number
+  failed: number
+  jobsCreated: number
+  completed: number
+}
+
+interface BatchResponse {
+  id: string
+  items: BatchItem[]
+  progress: BatchProgress
+}
+
+interface BatchProgressPanelProps {
+  batchId: string
+  onClose: () => void
+  pollInterval?: number
+}
+
+const ITEM_STATUS_LABELS: Record<BatchItemStatus, string> = {
+  pending: 'Ожидает',
+  generating_prompt: 'Генерация промпта...',
+  job_created: 'Задача создана',
+  failed: 'Ошибка',
+}
+
+export const BatchProgressPanel: React.FC<BatchProgressPanelProps> = ({
+  batchId,
+  onClose,
+  pollInterval = 3000,
+}) => {
+  const [batch, setBatch] = useState<BatchResponse | null>(null)
+  const [error, setError] = useState<string>('')
+
+  const fetchBatch = useCallback(async () => {
+    try {
+      const data = await apiFetchJson<BatchResponse>(`/api/video-jobs/batch/${batchId}`)
+      setBatch(data)
+      setError('')
+    } catch (err: any) {
+      console.error('[Batch] Error fetching batch progress:', err)
+      setError(err.message || 'Ошибка загрузки пакета')
+    }
+  }, [batchId])
+
+  // Опрашиваем, пока по всем идеям не созданы задачи; дальше статусы видны в списке задач
+  const isPromptStageDone = !!batch && batch.progress.pending === 0
+  useEffect(() => {
+    fetchBatch()
+    if (isPromptStageDone) {
+      return
+    }
+    const interval = setInterval(fetchBatch, pollInterval)
+    return () => clearInterval(interval)
+  }, [fetchBatch, pollInterval, isPromptStageDone])
+
+  return (
+    <div className="batch-progress">
+      <div className="batch-progress__header">
+        <h4 className="batch-progress__title">
+          Пакетная генерация
+          {batch && ` — задач создано ${batch.progress.jobsCreated}/${batch.progress.total}`}
+        </h4>
+        <button className="button button-secondary batch-progress__close" onClick={onClose}>
+          Скрыть
+        </button>
+      </div>
+      {error && <div className="batch-progress__error">{error}</div>}
+      {batch && (
+        <ul className="batch-progress__list">
+          {batch.items.map((item) => (
+            <li key={item.index} className={`batch-progress__item batch-progress__item--${item.status}`}>
+              <span className="batch-progress__name">
+                {item.index + 1}. {item.videoTitle || item.ideaTitle}
+              </span>
+              <span className="batch-progress__status">
+                {ITEM_STATUS_LABELS[item.status]}
+                {item.errorMessage && `: ${item.errorMessage}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {batch && (
+        <div className="batch-progress__summary">
+          Готово видео: {batch.progress.completed} • Ошибок промпта: {batch.progress.failed}
+        </div>
+      )}
+    </div>
+  )
+}
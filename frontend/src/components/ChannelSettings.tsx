@@ -4,6 +4,24 @@ import { apiFetch, apiFetchJson, ApiError } from '../lib/apiClient'
 
 type Language = 'ru' | 'kk' | 'en'
 
+type RetryableStatus = 'syntax_timeout' | 'error'
+
+interface RetryPolicy {
+  maxAttempts: number
+  initialDelayMs: number
+  backoffMultiplier: number
+  maxDelayMs: number
+  retryableStatuses: RetryableStatus[]
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  initialDelayMs: 60 * 1000,
+  backoffMultiplier: 2,
+  maxDelayMs: 15 * 60 * 1000,
+  retryableStatuses: ['syntax_timeout', 'error'],
+}
+
 interface Channel {
   id: string
   name: string
@@ -13,6 +31,20 @@ interface Channel {
   ideaPromptTemplate: string
   videoPromptTemplate: string
   gdriveFolderId?: string | null
+  retryPolicy?: RetryPolicy | null
+  maxActiveJobs?: number | null
+}
+
+const getRetryFormFields = (policy?: RetryPolicy | null) => {
+  const effective = policy || DEFAULT_RETRY_POLICY
+  return {
+    retryMaxAttempts: effective.maxAttempts,
+    retryInitialDelaySec: Math.round(effective.initialDelayMs / 1000),
+    retryBackoffMultiplier: effective.backoffMultiplier,
+    retryMaxDelayMin: Math.round(effective.maxDelayMs / 60000),
+    retryOnTimeout: effective.retryableStatuses.includes('syntax_timeout'),
+    retryOnError: effective.retryableStatuses.includes('error'),
+  }
 }
 
 const ChannelSettings: React.FC = () => {
@@ -29,6 +61,8 @@ const ChannelSettings: React.FC = () => {
     ideaPromptTemplate: '',
     videoPromptTemplate: '',
     gdriveFolderId: '',
+    maxActiveJobs: '',
+    ...getRetryFormFields(),
   })
 
   useEffect(() => {
@@ -65,6 +99,8 @@ const ChannelSettings: React.FC = () => {
       ideaPromptTemplate: '',
       videoPromptTemplate: '',
       gdriveFolderId: '',
+      maxActiveJobs: '',
+      ...getRetryFormFields(),
     })
     setEditingId(null)
   }
@@ -78,6 +114,8 @@ const ChannelSettings: React.FC = () => {
       ideaPromptTemplate: channel.ideaPromptTemplate,
       videoPromptTemplate: channel.videoPromptTemplate,
       gdriveFolderId: channel.gdriveFolderId || '',
+      maxActiveJobs: channel.maxActiveJobs ? String(channel.maxActiveJobs) : '',
+      ...getRetryFormFields(channel.retryPolicy),
     })
     setEditingId(channel.id)
     setError('')
@@ -94,10 +132,35 @@ const ChannelSettings: React.FC = () => {
       const url = editingId ? `/api/channels/${editingId}` : '/api/channels'
       const method = editingId ? 'PUT' : 'POST'
 
+      const {
+        retryMaxAttempts,
+        retryInitialDelaySec,
+        retryBackoffMultiplier,
+        retryMaxDelayMin,
+        retryOnTimeout,
+        retryOnError,
+        maxActiveJobs,
+        ...channelFields
+      } = formData
+
+      const retryableStatuses: RetryableStatus[] = []
+      if (retryOnTimeout) retryableStatuses.push('syntax_timeout')
+      if (retryOnError) retryableStatuses.push('error')
+
       await apiFetchJson(url, {
         method,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...channelFields,
+          maxActiveJobs: maxActiveJobs ? Number(maxActiveJobs) : null,
+          retryPolicy: {
+            maxAttempts: retryMaxAttempts,
+            initialDelayMs: retryInitialDelaySec * 1000,
+            backoffMultiplier: retryBackoffMultiplier,
+            maxDelayMs: retryMaxDelayMin * 60000,
+            retryableStatuses,
+          },
+        }),
       })
 
       resetForm()
@@ -242,6 +305,97 @@ const ChannelSettings: React.FC = () => {
             </small>
           </div>
 
+          <div className="input-group">
+            <label>Лимит одновременных генераций (необязательно)</label>
+            <input
+              type="number"
+              min="1"
+              max="10"
+              value={formData.maxActiveJobs}
+              onChange={(e) =>
+                setFormData({ ...formData, maxActiveJobs: e.target.value })
+              }
+              placeholder="Без ограничения для канала"
+            />
+            <small style={{ color: '#718096', marginTop: '0.5rem', display: 'block' }}>
+              Сколько задач этого канала может генерироваться одновременно. Остальные ждут в очереди. Общий лимит сервера задаётся переменной MAX_ACTIVE_JOBS.
+            </small>
+          </div>
+
+          <div className="input-group">
+            <label>Автоматические повторы</label>
+            <div className="retry-policy-fields">
+              <label>
+                Максимум попыток
+                <input
+                  type="number"
+                  min="1"
+                  max="10"
+                  value={formData.retryMaxAttempts}
+                  onChange={(e) =>
+                    setFormData({ ...formData, retryMaxAttempts: parseInt(e.target.value) || 1 })
+                  }
+                />
+              </label>
+              <label>
+                Первая задержка (сек)
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.retryInitialDelaySec}
+                  onChange={(e) =>
+                    setFormData({ ...formData, retryInitialDelaySec: parseInt(e.target.value) || 0 })
+                  }
+                />
+              </label>
+              <label>
+                Множитель задержки
+                <input
+                  type="number"
+                  min="1"
+                  step="0.5"
+                  value={formData.retryBackoffMultiplier}
+                  onChange={(e) =>
+                    setFormData({ ...formData, retryBackoffMultiplier: parseFloat(e.target.value) || 1 })
+                  }
+                />
+              </label>
+              <label>
+                Макс. задержка (мин)
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.retryMaxDelayMin}
+                  onChange={(e) =>
+                    setFormData({ ...formData, retryMaxDelayMin: parseInt(e.target.value) || 0 })
+                  }
+                />
+              </label>
+            </div>
+            <div className="retry-policy-statuses">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={formData.retryOnTimeout}
+                  onChange={(e) => setFormData({ ...formData, retryOnTimeout: e.target.checked })}
+                />
+                Повторять при таймауте Syntx
+              </label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={formData.retryOnError}
+                  onChange={(e) => setFormData({ ...formData, retryOnError: e.target.checked })}
+                />
+                Повторять при ошибке
+              </label>
+            </div>
+            <small style={{ color: '#718096', marginTop: '0.5rem', display: 'block' }}>
+              После таймаута повтор ждёт ответ на уже отправленный запрос, после ошибки промпт отправляется в Syntx заново.
+              Задержка растёт экспоненциально: первая задержка × множитель^(номер попытки − 1).
+            </small>
+          </div>
+
           <div style={{ display: 'flex', gap: '1rem' }}>
             <button
               type="submit"
@@ -0,0 +1,68 @@
+import React, { useState, useEffect } from 'react'
+import { apiFetchJson, ApiError } from '../lib/apiClient'
+import { VideoJob } from '../hooks/useVideoJobs'
+import '../App.css'
+
+interface JobAttemptChainProps {
+  jobId: string
+  getStatusLabel: (status: VideoJob['status']) => string
+  getStatusColor: (status: VideoJob['status']) => string
+}
+
+/**
+ * Цепочка попыток: исходная задача и все её повторные генерации (GET /api/video-jobs/:id/chain)
+ */
+export const JobAttemptChain: React.FC<JobAttemptChainProps> = ({ jobId, getStatusLabel, getStatusColor }) => {
+  const [chain, setChain] = useState<VideoJob[] | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    apiFetchJson<{ jobs: VideoJob[] }>(`/api/video-jobs/${jobId}/chain`)
+      .then((data) => {
+        if (!cancelled) setChain(data.jobs)
+      })
+      .catch((err) => {
+        console.error('[Chain] Error loading attempt chain:', err)
+        if (!cancelled) setError(err instanceof ApiError ? err.message : 'Не удалось загрузить попытки')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [jobId])
+
+  if (error) {
+    return <div className="job-chain job-chain--error">{error}</div>
+  }
+
+  if (!chain) {
+    return <div className="job-chain">Загрузка попыток...</div>
+  }
+
+  return (
+    <ol className="job-chain">
+      {chain.map((attempt, index) => (
+        <li
+          key={attempt.id}
+          className={`job-chain__item ${attempt.id === jobId ? 'job-chain__item--current' : ''}`}
+        >
+          <span className="job-chain__number">#{index + 1}</span>
+          <span className="job-chain__title" title={attempt.prompt}>
+            {attempt.videoTitle || attempt.prompt.substring(0, 50) + (attempt.prompt.length > 50 ? '...' : '')}
+          </span>
+          <span className="job-chain__status" style={{ color: getStatusColor(attempt.status) }}>
+            {getStatusLabel(attempt.status)}
+          </span>
+          <span className="job-chain__date">
+            {new Date(attempt.createdAt).toLocaleString('ru-RU', {
+              day: '2-digit',
+              month: '2-digit',
+              hour: '2-digit',
+              minute: '2-digit',
+            })}
+          </span>
+        </li>
+      ))}
+    </ol>
+  )
+}
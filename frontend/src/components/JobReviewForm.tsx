@@ -0,0 +1,129 @@
+import React, { useState } from 'react'
+import { VideoJobReview, VideoJobReviewInput } from '../hooks/useVideoJobs'
+import { useRejectReasons } from '../hooks/useRejectReasons'
+import '../App.css'
+
+const RATINGS = [1, 2, 3, 4, 5]
+
+interface JobReviewFormProps {
+  review?: VideoJobReview
+  showReasons: boolean // Причины отклонения - только при отклонении или для уже отклонённого видео
+  submitLabel: string
+  submitting?: boolean
+  onSubmit: (feedback: VideoJobReviewInput) => void
+  onCancel: () => void
+}
+
+/**
+ * Оценка видео: рейтинг 1-5, заметки и причины отклонения
+ */
+export const JobReviewForm: React.FC<JobReviewFormProps> = ({
+  review,
+  showReasons,
+  submitLabel,
+  submitting = false,
+  onSubmit,
+  onCancel,
+}) => {
+  const [rating, setRating] = useState<number | null>(review?.rating ?? null)
+  const [notes, setNotes] = useState(review?.notes || '')
+  const [selectedReasons, setSelectedReasons] = useState<string[]>(review?.rejectReasons || [])
+  const { reasons, error } = useRejectReasons()
+
+  const toggleReason = (code: string) => {
+    setSelectedReasons((prev) => (prev.includes(code) ? prev.filter((item) => item !== code) : [...prev, code]))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    onSubmit({
+      rating,
+      notes: notes.trim() || null,
+      ...(showReasons ? { rejectReasons: selectedReasons } : {}),
+    })
+  }
+
+  return (
+    <form className="job-review-form" onSubmit={handleSubmit} onClick={(e) => e.stopPropagation()}>
+      <div className="job-review-form__rating" role="radiogroup" aria-label="Оценка видео">
+        {RATINGS.map((value) => (
+          <button
+            key={value}
+            type="button"
+            className={`job-review-form__star ${rating !== null && value <= rating ? 'job-review-form__star--active' : ''}`}
+            onClick={() => setRating(rating === value ? null : value)}
+            aria-label={`Оценка ${value}`}
+            aria-checked={rating === value}
+            role="radio"
+          >
+            ★
+          </button>
+        ))}
+      </div>
+
+      {showReasons && (
+        <div className="job-review-form__reasons">
+          {error && <span className="job-review-form__error">{error}</span>}
+          {reasons.map((reason) => (
+            <label key={reason.code} className="job-review-form__reason">
+              <input
+                type="checkbox"
+                checked={selectedReasons.includes(reason.code)}
+                onChange={() => toggleReason(reason.code)}
+              />
+              {reason.label}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <textarea
+        className="job-review-form__notes"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Заметки для команды (необязательно)"
+        maxLength={2000}
+        rows={2}
+      />
+
+      <div className="job-review-form__actions">
+        <button type="button" className="button button-secondary" onClick={onCancel} disabled={submitting}>
+          Отмена
+        </button>
+        <button type="submit" className={`button ${showReasons ? 'button-danger' : ''}`} disabled={submitting}>
+          {submitting ? 'Сохранение...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Краткая сводка оценки для карточки задачи
+ */
+export const JobReviewSummary: React.FC<{ review: VideoJobReview }> = ({ review }) => {
+  const { reasons } = useRejectReasons()
+  const labels = new Map(reasons.map((reason) => [reason.code, reason.label]))
+
+  if (review.rating === null && !review.notes && review.rejectReasons.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="job-review-summary">
+      {review.rating !== null && (
+        <span className="job-review-summary__rating" aria-label={`Оценка ${review.rating} из 5`}>
+          {'★'.repeat(review.rating)}
+          {'☆'.repeat(5 - review.rating)}
+        </span>
+      )}
+      {review.rejectReasons.length > 0 && (
+        <span className="job-review-summary__reasons">
+          {review.rejectReasons.map((code) => labels.get(code) || code).join(', ')}
+        </span>
+      )}
+      {review.notes && <span className="job-review-summary__notes">{review.notes}</span>}
+    </div>
+  )
+}
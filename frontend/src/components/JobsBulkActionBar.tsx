@@ -0,0 +1,65 @@
+import React from 'react'
+import '../App.css'
+
+export type BulkJobAction = 'approve' | 'reject' | 'delete'
+
+interface JobsBulkActionBarProps {
+  selectedCount: number
+  approvableCount: number // Сколько из выбранных можно одобрить (ready или upload_failed)
+  visibleCount: number
+  runningAction: BulkJobAction | null
+  onAction: (action: BulkJobAction) => void
+  onSelectAll: () => void
+  onClear: () => void
+}
+
+export const JobsBulkActionBar: React.FC<JobsBulkActionBarProps> = ({
+  selectedCount,
+  approvableCount,
+  visibleCount,
+  runningAction,
+  onAction,
+  onSelectAll,
+  onClear,
+}) => {
+  const isBusy = runningAction !== null
+
+  return (
+    <div className="jobs-bulk-bar" role="toolbar" aria-label="Массовые действия">
+      <span className="jobs-bulk-bar__count">
+        {selectedCount > 0 ? `Выбрано: ${selectedCount}` : 'Выберите задачи'}
+      </span>
+      <div className="jobs-bulk-bar__actions">
+        <button
+          className="button button-secondary jobs-bulk-bar__button"
+          onClick={selectedCount < visibleCount ? onSelectAll : onClear}
+          disabled={isBusy || visibleCount === 0}
+        >
+          {selectedCount < visibleCount ? 'Выбрать все' : 'Снять выбор'}
+        </button>
+        <button
+          className="button jobs-bulk-bar__button jobs-bulk-bar__button--approve"
+          onClick={() => onAction('approve')}
+          disabled={isBusy || approvableCount === 0}
+          title="Загрузить выбранные готовые видео в Google Drive"
+        >
+          {runningAction === 'approve' ? 'Загрузка...' : `Одобрить (${approvableCount})`}
+        </button>
+        <button
+          className="button jobs-bulk-bar__button jobs-bulk-bar__button--reject"
+          onClick={() => onAction('reject')}
+          disabled={isBusy || selectedCount === 0}
+        >
+          {runningAction === 'reject' ? 'Отклонение...' : 'Отклонить'}
+        </button>
+        <button
+          className="button button-secondary jobs-bulk-bar__button"
+          onClick={() => onAction('delete')}
+          disabled={isBusy || selectedCount === 0}
+        >
+          {runningAction === 'delete' ? 'Удаление...' : 'Удалить'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,39 +1,69 @@
 import React, { useState, useRef, useEffect } from 'react'
-import { VideoJob } from '../hooks/useVideoJobs'
+import { VideoJob, VideoJobReviewInput } from '../hooks/useVideoJobs'
+import { JobAttemptChain } from './JobAttemptChain'
+import { JobReviewForm, JobReviewSummary } from './JobReviewForm'
 import '../App.css'
 
 interface SwipeableJobCardProps {
   job: VideoJob
   isActive: boolean
   canApprove: boolean
+  canCancel?: boolean
   getStatusLabel: (status: VideoJob['status']) => string
   getStatusColor: (status: VideoJob['status']) => string
   showChannelName?: boolean
   onApprove?: (jobId: string, jobTitle?: string) => Promise<void>
-  onReject?: (jobId: string) => Promise<void>
+  onReject?: (jobId: string, feedback?: VideoJobReviewInput) => Promise<void>
+  onReview?: (jobId: string, feedback: VideoJobReviewInput) => Promise<void>
   onDelete?: (jobId: string) => Promise<void>
+  onCancel?: (jobId: string) => Promise<void>
+  onRegenerate?: (jobId: string, overrides: JobRegenerateOverrides) => Promise<void>
+  onCompareVariants?: (variantGroupId: string) => void
+  hasAttemptChain?: boolean // Есть ли у задачи повторные генерации или исходная задача
   loading?: boolean
   rejectingJobId?: string | null
+  cancellingJobId?: string | null
   approvingJobId?: string | null
+  regeneratingJobId?: string | null
+  reviewingJobId?: string | null
+}
+
+export interface JobRegenerateOverrides {
+  prompt?: string
+  videoTitle?: string
 }
 
 export const SwipeableJobCard: React.FC<SwipeableJobCardProps> = ({
   job,
   isActive,
   canApprove,
+  canCancel = false,
   getStatusLabel,
   getStatusColor,
   showChannelName = false,
   onApprove,
   onReject,
+  onReview,
   onDelete,
+  onCancel,
+  onRegenerate,
+  onCompareVariants,
+  hasAttemptChain = false,
   loading = false,
   rejectingJobId = null,
+  cancellingJobId = null,
   approvingJobId = null,
+  regeneratingJobId = null,
+  reviewingJobId = null,
 }) => {
   const [swipeOffset, setSwipeOffset] = useState(0)
   const [isSwiping, setIsSwiping] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [showRegenerate, setShowRegenerate] = useState(false)
+  const [regeneratePrompt, setRegeneratePrompt] = useState('')
+  const [regenerateTitle, setRegenerateTitle] = useState('')
+  const [showChain, setShowChain] = useState(false)
+  const [reviewMode, setReviewMode] = useState<'reject' | 'edit' | null>(null)
   const cardRef = useRef<HTMLDivElement>(null)
   const startXRef = useRef<number>(0)
   const currentXRef = useRef<number>(0)
@@ -132,6 +162,48 @@ export const SwipeableJobCard: React.FC<SwipeableJobCardProps> = ({
     setSwipeOffset(0)
   }
 
+  // Открытие формы повторной генерации с промптом и названием исходной задачи
+  const handleOpenRegenerate = () => {
+    setRegeneratePrompt(job.prompt)
+    setRegenerateTitle(job.videoTitle || '')
+    setShowRegenerate(true)
+  }
+
+  const handleConfirmRegenerate = async () => {
+    if (!onRegenerate || !regeneratePrompt.trim()) return
+    try {
+      await onRegenerate(job.id, {
+        // Передаём только изменённые поля, остальное сервер возьмёт из исходной задачи
+        prompt: regeneratePrompt.trim() !== job.prompt ? regeneratePrompt.trim() : undefined,
+        videoTitle: regenerateTitle.trim() !== (job.videoTitle || '') ? regenerateTitle.trim() : undefined,
+      })
+    } catch (error) {
+      console.error('[SwipeableJobCard] Error in onRegenerate:', error)
+      // Оставляем форму открытой, чтобы не потерять правки промпта
+      return
+    }
+    setShowRegenerate(false)
+  }
+
+  const handleSubmitReview = async (feedback: VideoJobReviewInput) => {
+    try {
+      if (reviewMode === 'reject') {
+        await onReject?.(job.id, feedback)
+      } else {
+        await onReview?.(job.id, feedback)
+      }
+    } catch (error) {
+      console.error('[SwipeableJobCard] Error in review submit:', error)
+      // Оставляем форму открытой, чтобы не потерять заметки
+      return
+    }
+    setReviewMode(null)
+  }
+
+  const canRegenerate = !isActive && job.status !== 'scheduled'
+  const canEditReview = !!onReview && ['ready', 'upload_failed', 'uploaded'].includes(job.status)
+  const showChainToggle = hasAttemptChain || !!job.parentJobId
+
   // Закрытие свайпа при клике вне карточки
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent | TouchEvent) => {
@@ -222,6 +294,11 @@ export const SwipeableJobCard: React.FC<SwipeableJobCardProps> = ({
                       {job.channelName}
                     </span>
                   )}
+                  {job.variantGroupId && job.variantIndex && (
+                    <span className="job-card__variant">
+                      Дубль {job.variantIndex}/{job.variantCount}
+                    </span>
+                  )}
                   <span className="job-card__timestamp">
                     {new Date(job.createdAt).toLocaleString('ru-RU', { 
                       day: '2-digit', 
@@ -246,11 +323,45 @@ export const SwipeableJobCard: React.FC<SwipeableJobCardProps> = ({
                     </span>
                   )}
                 </div>
+                {job.status === 'scheduled' && job.scheduledAt && (
+                  <div className="job-card__retry">
+                    <span>
+                      🕒 Запуск{' '}
+                      {new Date(job.scheduledAt).toLocaleString('ru-RU', {
+                        day: '2-digit',
+                        month: '2-digit',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                  </div>
+                )}
+                {job.status === 'queued' && job.queuePosition && (
+                  <div className="job-card__retry">
+                    <span>⏳ Позиция в очереди: {job.queuePosition}</span>
+                  </div>
+                )}
+                {((job.attempts?.length ?? 0) > 1 || job.nextRetryAt) && (
+                  <div className="job-card__retry">
+                    {(job.attempts?.length ?? 0) > 0 && (
+                      <span>Попытка {job.attempts!.length}</span>
+                    )}
+                    {job.nextRetryAt && (
+                      <span>
+                        🔁 Автоповтор в{' '}
+                        {new Date(job.nextRetryAt).toLocaleTimeString('ru-RU', {
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })}
+                      </span>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
 
             {/* Превью видео для готовых задач */}
-            {job.status === 'ready' && job.previewUrl && (
+            {(job.status === 'ready' || job.status === 'upload_failed') && job.previewUrl && (
               <div className="job-card__preview">
                 <video
                   src={job.previewUrl}
@@ -281,7 +392,7 @@ export const SwipeableJobCard: React.FC<SwipeableJobCardProps> = ({
                     onClick={(e) => {
                       e.preventDefault()
                       e.stopPropagation()
-                      onReject(job.id)
+                      setReviewMode('reject')
                     }}
                     disabled={loading || rejectingJobId === job.id || approvingJobId === job.id}
                     title={rejectingJobId === job.id ? 'Отклонение...' : 'Отклонить видео'}
@@ -292,6 +403,105 @@ export const SwipeableJobCard: React.FC<SwipeableJobCardProps> = ({
               </div>
             )}
 
+            {job.review && !reviewMode && <JobReviewSummary review={job.review} />}
+
+            {/* Оценка видео и причины отклонения */}
+            {reviewMode && (
+              <JobReviewForm
+                review={job.review}
+                showReasons={reviewMode === 'reject' || job.review?.decision === 'rejected'}
+                submitLabel={reviewMode === 'reject' ? 'Отклонить' : 'Сохранить оценку'}
+                submitting={reviewMode === 'reject' ? rejectingJobId === job.id : reviewingJobId === job.id}
+                onSubmit={handleSubmitReview}
+                onCancel={() => setReviewMode(null)}
+              />
+            )}
+
+            {/* Отмена для запланированных, ожидающих и выполняющихся задач */}
+            {canCancel && onCancel && (
+              <div className="job-card__actions">
+                <button
+                  className="button button-secondary"
+                  onClick={(e) => {
+                    e.preventDefault()
+                    e.stopPropagation()
+                    onCancel(job.id)
+                  }}
+                  disabled={cancellingJobId === job.id}
+                  title="Остановить генерацию и освободить слот"
+                >
+                  {cancellingJobId === job.id ? '⏳ Отмена...' : '⏹ Отменить генерацию'}
+                </button>
+              </div>
+            )}
+
+            {/* Повторная генерация, сравнение дублей и цепочка попыток */}
+            {((canRegenerate && onRegenerate) || showChainToggle || canEditReview || (job.variantGroupId && onCompareVariants)) && (
+              <div className="job-card__actions">
+                {canEditReview && !reviewMode && (
+                  <button
+                    className="button button-secondary"
+                    onClick={(e) => {
+                      e.preventDefault()
+                      e.stopPropagation()
+                      setReviewMode('edit')
+                    }}
+                    title="Поставить оценку и оставить заметки"
+                  >
+                    {job.review ? '⭐ Изменить оценку' : '⭐ Оценить'}
+                  </button>
+                )}
+                {job.variantGroupId && onCompareVariants && (
+                  <button
+                    className="button button-secondary"
+                    onClick={(e) => {
+                      e.preventDefault()
+                      e.stopPropagation()
+                      onCompareVariants(job.variantGroupId!)
+                    }}
+                    title="Посмотреть все дубли рядом и выбрать лучший"
+                  >
+                    🎞 Сравнить дубли
+                  </button>
+                )}
+                {canRegenerate && onRegenerate && (
+                  <button
+                    className="button button-secondary"
+                    onClick={(e) => {
+                      e.preventDefault()
+                      e.stopPropagation()
+                      handleOpenRegenerate()
+                    }}
+                    disabled={regeneratingJobId === job.id}
+                    title="Создать новую задачу с тем же (или исправленным) промптом"
+                  >
+                    {regeneratingJobId === job.id ? '⏳ Создание...' : '🔄 Сгенерировать заново'}
+                  </button>
+                )}
+                {showChainToggle && (
+                  <button
+                    className="button button-secondary"
+                    onClick={(e) => {
+                      e.preventDefault()
+                      e.stopPropagation()
+                      setShowChain(!showChain)
+                    }}
+                    title="Исходная задача и все повторные генерации"
+                  >
+                    {showChain ? 'Скрыть попытки' : '🔗 Все попытки'}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {showChain && (
+              <JobAttemptChain
+                jobId={job.id}
+                getStatusLabel={getStatusLabel}
+                getStatusColor={getStatusColor}
+              />
+            )}
+
             {/* Ссылка на Google Drive для загруженных */}
             {job.status === 'uploaded' && job.webViewLink && (
               <div className="job-card__link">
@@ -302,6 +512,12 @@ export const SwipeableJobCard: React.FC<SwipeableJobCardProps> = ({
                 >
                   Открыть в Google Drive
                 </a>
+                {job.localFilesPurgedAt && (
+                  <span className="job-card__purged">
+                    {' '}· локальная копия удалена{' '}
+                    {new Date(job.localFilesPurgedAt).toLocaleDateString('ru-RU')}
+                  </span>
+                )}
               </div>
             )}
           </div>
@@ -331,12 +547,49 @@ export const SwipeableJobCard: React.FC<SwipeableJobCardProps> = ({
         </div>
       </div>
 
+      {/* Модалка повторной генерации с возможностью поправить промпт */}
+      {showRegenerate && (
+        <div className="modal-overlay" onClick={() => setShowRegenerate(false)}>
+          <div className="modal-content modal-content--wide" onClick={(e) => e.stopPropagation()}>
+            <h3>Сгенерировать заново</h3>
+            <div className="input-group">
+              <label>Промпт</label>
+              <textarea
+                value={regeneratePrompt}
+                onChange={(e) => setRegeneratePrompt(e.target.value)}
+                rows={6}
+              />
+            </div>
+            <div className="input-group">
+              <label>Название ролика</label>
+              <input
+                type="text"
+                value={regenerateTitle}
+                onChange={(e) => setRegenerateTitle(e.target.value)}
+              />
+            </div>
+            <div className="modal-actions">
+              <button className="button button-secondary" onClick={() => setShowRegenerate(false)}>
+                Отмена
+              </button>
+              <button
+                className="button"
+                onClick={handleConfirmRegenerate}
+                disabled={!regeneratePrompt.trim() || regeneratingJobId === job.id}
+              >
+                {regeneratingJobId === job.id ? 'Создание...' : 'Запустить'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Модалка подтверждения удаления */}
       {showDeleteConfirm && (
         <div className="modal-overlay" onClick={handleCancelDelete}>
           <div className="modal-content" onClick={(e) => e.stopPropagation()}>
             <h3>Подтверждение удаления</h3>
-            <p>Вы действительно хотите удалить эту генерацию? Действие необратимо.</p>
+            <p>Переместить эту генерацию в корзину? Её можно будет восстановить до очистки корзины.</p>
             <div className="modal-actions">
               <button className="button button-secondary" onClick={handleCancelDelete}>
                 Отмена
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react'
+import { apiFetchJson, ApiError, resolveApiUrl } from '../lib/apiClient'
+import { VideoJob } from '../hooks/useVideoJobs'
+import '../App.css'
+
+interface VariantGroup {
+  id: string
+  channelId: string | null
+  variantCount: number
+  winnerJobId: string | null
+  winnerIndex: number | null
+}
+
+interface VariantWinStats {
+  decidedGroups: number
+  wins: Record<string, number>
+}
+
+interface VariantReviewModalProps {
+  groupId: string
+  liveJobs: VideoJob[] // Задачи из живого списка: статусы дублей обновляются без перезапроса
+  onClose: () => void
+  onApproved: (jobId: string, rejectedCount: number) => void
+}
+
+/**
+ * Сравнение дублей одного промпта: видео рядом, одобрение одного отклоняет остальные
+ */
+export const VariantReviewModal: React.FC<VariantReviewModalProps> = ({ groupId, liveJobs, onClose, onApproved }) => {
+  const [group, setGroup] = useState<VariantGroup | null>(null)
+  const [jobs, setJobs] = useState<VideoJob[]>([])
+  const [stats, setStats] = useState<VariantWinStats | null>(null)
+  const [approvingJobId, setApprovingJobId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    apiFetchJson<{ group: VariantGroup; jobs: VideoJob[] }>(`/api/video-jobs/variants/${groupId}`)
+      .then((data) => {
+        if (cancelled) return
+        setGroup(data.group)
+        setJobs(data.jobs)
+        const params = data.group.channelId ? `?channelId=${encodeURIComponent(data.group.channelId)}` : ''
+        return apiFetchJson<VariantWinStats>(`/api/video-jobs/variants/stats${params}`).then((statsData) => {
+          if (!cancelled) setStats(statsData)
+        })
+      })
+      .catch((err) => {
+        console.error('[Variants] Error loading variant group:', err)
+        if (!cancelled) setError(err instanceof ApiError ? err.message : 'Не удалось загрузить дубли')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [groupId])
+
+  // Актуальное состояние дубля из живого списка, если он там есть
+  const liveJobsById = new Map(liveJobs.map((job) => [job.id, job]))
+  const takes = jobs.map((job) => {
+    const live = liveJobsById.get(job.id)
+    return live || { ...job, previewUrl: job.previewUrl ? resolveApiUrl(job.previewUrl) : undefined }
+  })
+
+  const handleApprove = async (job: VideoJob) => {
+    if (!window.confirm(`Одобрить дубль #${job.variantIndex}? Остальные дубли будут отклонены и перемещены в корзину.`)) {
+      return
+    }
+
+    setApprovingJobId(job.id)
+    setError('')
+    try {
+      const result = await apiFetchJson<{ rejectedVariants?: string[] }>(`/api/video-jobs/${job.id}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ videoTitle: job.videoTitle || undefined }),
+      })
+      onApproved(job.id, result.rejectedVariants?.length || 0)
+    } catch (err) {
+      console.error('[Variants] Error approving variant:', err)
+      setError(err instanceof ApiError ? err.message : 'Не удалось одобрить дубль')
+    } finally {
+      setApprovingJobId(null)
+    }
+  }
+
+  const statsSummary = stats && stats.decidedGroups > 0
+    ? Object.entries(stats.wins)
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([index, count]) => `#${index}: ${Math.round((count / stats.decidedGroups) * 100)}%`)
+        .join(' · ')
+    : null
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content variant-review" onClick={(e) => e.stopPropagation()}>
+        <h3>Сравнение дублей{group ? ` (${group.variantCount})` : ''}</h3>
+
+        {statsSummary && (
+          <p className="variant-review__stats">
+            Как выбирали раньше ({stats!.decidedGroups}): {statsSummary}
+          </p>
+        )}
+
+        {error && <div className="error">{error}</div>}
+
+        {!group && !error && <p>Загрузка дублей...</p>}
+
+        <div className="variant-review__grid">
+          {takes.map((take) => {
+            const canChoose = !group?.winnerJobId && (take.status === 'ready' || take.status === 'upload_failed')
+            const isWinner = group?.winnerJobId === take.id
+
+            return (
+              <div
+                key={take.id}
+                className={`variant-review__take ${isWinner ? 'variant-review__take--winner' : ''}`}
+              >
+                <div className="variant-review__take-header">
+                  <strong>Дубль #{take.variantIndex}</strong>
+                  {isWinner && <span>🏆 Выбран</span>}
+                </div>
+                {take.previewUrl ? (
+                  <video src={take.previewUrl} controls className="video-preview" />
+                ) : (
+                  <div className="variant-review__placeholder">
+                    {take.status === 'error' || take.status === 'syntax_timeout'
+                      ? take.errorMessage || 'Генерация не удалась'
+                      : 'Видео ещё генерируется...'}
+                  </div>
+                )}
+                <button
+                  className="button button-success"
+                  onClick={() => handleApprove(take)}
+                  disabled={!canChoose || approvingJobId !== null}
+                >
+                  {approvingJobId === take.id ? '⏳ Загрузка в Google Drive...' : '✅ Выбрать этот дубль'}
+                </button>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="modal-actions">
+          <button className="button button-secondary" onClick={onClose}>
+            Закрыть
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
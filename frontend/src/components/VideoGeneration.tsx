@@ -1,11 +1,15 @@
 import React, { useState, useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import '../App.css'
-import { apiFetch, apiFetchJson, ApiError, resolveApiUrl } from '../lib/apiClient'
+import { apiFetch, apiFetchJson, ApiError } from '../lib/apiClient'
 import { useNotifications } from '../hooks/useNotifications'
+import { useVideoJobs, VideoJobReviewInput } from '../hooks/useVideoJobs'
 import { useToast } from '../hooks/useToast'
 import { ToastContainer } from './Toast'
 import { VideoJobsList } from './VideoJobsList'
+import { JobRegenerateOverrides } from './SwipeableJobCard'
+import { VariantReviewModal } from './VariantReviewModal'
+import { BatchProgressPanel } from './BatchProgressPanel'
 
 type Language = 'ru' | 'kk' | 'en'
 
@@ -26,33 +30,6 @@ interface Idea {
   description: string
 }
 
-type VideoJobStatus = 
-  | "queued"
-  | "sending"
-  | "waiting_video"
-  | "downloading"
-  | "ready"
-  | "uploading"
-  | "uploaded"
-  | "rejected"
-  | "error"
-
-interface VideoJob {
-  id: string
-  prompt: string
-  channelId?: string
-  channelName?: string
-  videoTitle?: string
-  status: VideoJobStatus
-  errorMessage?: string
-  createdAt: number
-  updatedAt: number
-  previewUrl?: string
-  driveFileId?: string
-  webViewLink?: string
-  webContentLink?: string
-}
-
 type Step = 1 | 2 | 3
 
 // Компонент для collapsible настроек уведомлений
@@ -174,9 +151,14 @@ const VideoGeneration: React.FC = () => {
       localStorage.setItem('videoTitle', videoTitle)
     } catch {}
   }, [videoTitle])
-  const [videoJobs, setVideoJobs] = useState<VideoJob[]>([])
-  const [activeJobsCount, setActiveJobsCount] = useState(0)
-  const [maxActiveJobs, setMaxActiveJobs] = useState(2)
+  // Задачи канала обновляются через SSE-поток (при его обрыве - polling)
+  const {
+    videoJobs,
+    activeJobsCount,
+    maxActiveJobs,
+    refreshJobs: fetchVideoJobs,
+    removeJob,
+  } = useVideoJobs({ channelId: selectedChannel?.id, autoPoll: true })
   const [loading, setLoading] = useState(false)
   const [generatingIdeas, setGeneratingIdeas] = useState(false)
   const [generatingPrompt, setGeneratingPrompt] = useState(false)
@@ -185,7 +167,14 @@ const VideoGeneration: React.FC = () => {
   const [success, setSuccess] = useState<string>('')
   const [lastAutoGeneratedTitle, setLastAutoGeneratedTitle] = useState<string>('') // Для отслеживания автогенерированного названия
   const [jobCreationInfo, setJobCreationInfo] = useState<{ id: string; title?: string } | null>(null)
+  const [scheduledAtInput, setScheduledAtInput] = useState<string>('') // Время отложенного запуска (datetime-local)
   const [rejectingJobId, setRejectingJobId] = useState<string | null>(null) // ID задачи, которая сейчас отклоняется
+  const [cancellingJobId, setCancellingJobId] = useState<string | null>(null) // ID задачи, которая сейчас отменяется
+  const [regeneratingJobId, setRegeneratingJobId] = useState<string | null>(null) // ID задачи, для которой создаётся повторная генерация
+  const [reviewVariantGroupId, setReviewVariantGroupId] = useState<string | null>(null) // Группа дублей, открытая для сравнения
+  const [variantCount, setVariantCount] = useState(1) // Сколько дублей одного промпта сгенерировать
+  const [creatingBatch, setCreatingBatch] = useState(false)
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null) // Пакет, прогресс которого показываем
   const [approvingJobId, setApprovingJobId] = useState<string | null>(null) // ID задачи, которая сейчас одобряется
   
   // Состояния для модалки голосового ввода
@@ -205,9 +194,6 @@ const VideoGeneration: React.FC = () => {
   const [showCustomPromptModal, setShowCustomPromptModal] = useState(false)
   const [customPromptText, setCustomPromptText] = useState<string>('')
 
-  // Polling для обновления статусов задач
-  const pollingIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
-  
   // Хук для уведомлений
   const notifications = useNotifications()
   
@@ -297,10 +283,6 @@ const VideoGeneration: React.FC = () => {
     navigate('/')
   }
   
-  // Храним предыдущее состояние задач для отслеживания изменений статусов
-  const previousJobsRef = useRef<Map<string, VideoJobStatus>>(new Map())
-  
-
   useEffect(() => {
     fetchChannels()
     
@@ -317,9 +299,6 @@ const VideoGeneration: React.FC = () => {
         audioStreamRef.current.getTracks().forEach(track => track.stop())
         audioStreamRef.current = null
       }
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current)
-      }
     }
   }, [])
 
@@ -329,30 +308,6 @@ const VideoGeneration: React.FC = () => {
     }
   }, [step])
 
-  // Polling для обновления списка задач, когда выбран канал
-  useEffect(() => {
-    if (selectedChannel?.id) {
-      fetchVideoJobs()
-      // Запускаем polling каждые 3 секунды
-      pollingIntervalRef.current = setInterval(() => {
-        fetchVideoJobs()
-      }, 3000)
-    } else {
-      // Останавливаем polling, если канал не выбран
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current)
-        pollingIntervalRef.current = null
-      }
-    }
-
-    return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current)
-      }
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedChannel?.id]) // fetchVideoJobs использует notifications через ref, поэтому не добавляем в зависимости
-
   const getConnectivityErrorMessage = (err: unknown) => {
     if (err instanceof ApiError) {
       if (err.isNetworkError || !err.status || err.status >= 500 || err.status === 404) {
@@ -380,56 +335,6 @@ const VideoGeneration: React.FC = () => {
     }
   }
 
-  const fetchVideoJobs = async () => {
-    if (!selectedChannel?.id) return
-
-    try {
-      const params = new URLSearchParams({ channelId: selectedChannel.id })
-      const data = await apiFetchJson<{
-        jobs?: VideoJob[]
-        activeCount?: number
-        maxActiveJobs?: number
-      }>(`/api/video-jobs?${params.toString()}`)
-
-      const normalizedJobs = (data.jobs || []).map((job) => ({
-        ...job,
-        previewUrl: job.previewUrl ? resolveApiUrl(job.previewUrl) : undefined,
-      }))
-
-      // Отслеживаем изменения статусов для уведомлений
-      const previousJobs = previousJobsRef.current
-      normalizedJobs.forEach((job) => {
-        const previousStatus = previousJobs.get(job.id)
-        const currentStatus = job.status
-        
-        // Если статус изменился с "не ready" на "ready", отправляем уведомление
-        if (
-          previousStatus &&
-          previousStatus !== 'ready' &&
-          currentStatus === 'ready' &&
-          (previousStatus === 'waiting_video' || 
-           previousStatus === 'downloading' || 
-           previousStatus === 'sending' ||
-           previousStatus === 'queued')
-        ) {
-          const jobTitle = job.videoTitle || job.prompt.substring(0, 60) + (job.prompt.length > 60 ? '...' : '')
-          notifications.notifyVideoReady(jobTitle, job.id)
-        }
-        
-        // Обновляем предыдущий статус
-        previousJobs.set(job.id, currentStatus)
-      })
-
-      setVideoJobs(normalizedJobs)
-      setActiveJobsCount(data.activeCount ?? 0)
-      if (typeof data.maxActiveJobs === 'number') {
-        setMaxActiveJobs(data.maxActiveJobs)
-      }
-    } catch (err) {
-      console.error('[VideoJobs] Error fetching jobs:', err)
-    }
-  }
-
   const handleChannelSelect = (channelId: string) => {
     const channel = channels.find((c) => c.id === channelId)
     if (channel) {
@@ -500,6 +405,34 @@ const VideoGeneration: React.FC = () => {
     }
   }
 
+  // Создаёт задачи сразу по всем сгенерированным идеям
+  const handleGenerateBatch = async () => {
+    if (!selectedChannel || ideas.length === 0) {
+      return
+    }
+
+    setCreatingBatch(true)
+    setError('')
+    setSuccess('')
+
+    try {
+      const data = await apiFetchJson<{ batchId: string }>('/api/video-jobs/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          channelId: selectedChannel.id,
+          ideas: ideas.map((idea) => ({ title: idea.title, description: idea.description })),
+        }),
+      })
+      setActiveBatchId(data.batchId)
+      toast.success(`Пакет из ${ideas.length} идей принят: промпты генерируются, задачи встают в очередь`)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setCreatingBatch(false)
+    }
+  }
+
   const handleRegeneratePrompt = async () => {
     // Можно регенерировать промпт только если есть выбранная идея
     if (!selectedIdea || !selectedChannel) {
@@ -670,6 +603,10 @@ const VideoGeneration: React.FC = () => {
       const formData = new FormData()
       const fileName = `idea_${Date.now()}.${mimeType.includes('webm') ? 'webm' : mimeType.includes('ogg') ? 'ogg' : 'mp4'}`
       formData.append('file', audioBlob, fileName)
+      if (selectedChannel) {
+        // Расход на распознавание учитывается по выбранному каналу
+        formData.append('channelId', selectedChannel.id)
+      }
       
       // Отправляем на backend
       const data = await apiFetchJson<{ text: string }>('/api/transcribe-idea', {
@@ -760,9 +697,9 @@ const VideoGeneration: React.FC = () => {
       return
     }
 
-    // Проверяем лимит активных задач
-    if (activeJobsCount >= maxActiveJobs) {
-      setError(`Уже генерируются ${maxActiveJobs} видео. Подождите, пока одно завершится.`)
+    const scheduledAt = scheduledAtInput ? new Date(scheduledAtInput).getTime() : undefined
+    if (scheduledAt !== undefined && (Number.isNaN(scheduledAt) || scheduledAt <= Date.now())) {
+      setError('Время запуска должно быть в будущем')
       return
     }
 
@@ -790,6 +727,7 @@ const VideoGeneration: React.FC = () => {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             prompt: veoPrompt.trim(),
+            channelId: selectedChannel.id,
             channelName: selectedChannel.name,
             language: selectedChannel.language,
           }),
@@ -811,7 +749,7 @@ const VideoGeneration: React.FC = () => {
     }
 
     try {
-      const data = await apiFetchJson<{ jobId: string; status: string; maxActiveJobs?: number }>('/api/video-jobs', {
+      const data = await apiFetchJson<{ jobId: string; status: string; queuePosition?: number; jobIds?: string[] }>('/api/video-jobs', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -820,9 +758,11 @@ const VideoGeneration: React.FC = () => {
           channelName: selectedChannel.name,
           ideaText: selectedIdea ? `${selectedIdea.title}. ${selectedIdea.description}` : undefined,
           videoTitle: finalTitle || undefined,
+          scheduledAt,
+          variantCount: variantCount > 1 ? variantCount : undefined,
         }),
       })
-      console.log('[VideoJob] Created job:', data.jobId)
+      console.log('[VideoJob] Created job:', data.jobId, data.jobIds ? `(variants: ${data.jobIds.length})` : '')
       
       const trimmedPrompt = veoPrompt.trim()
       const newJobTitle =
@@ -845,15 +785,19 @@ const VideoGeneration: React.FC = () => {
       await fetchVideoJobs()
       
       // Показываем успешное сообщение
-      toast.success('Задача создана! Видео генерируется...')
-      setSuccess('')
-    } catch (err: any) {
-      if (err instanceof ApiError && err.message === 'MAX_ACTIVE_JOBS_REACHED') {
-        setError(`Уже генерируются ${maxActiveJobs} видео. Подождите, пока одно завершится.`)
-        await fetchVideoJobs()
+      if (data.status === 'scheduled' && scheduledAt) {
+        toast.success(`Задача запланирована на ${new Date(scheduledAt).toLocaleString('ru-RU')}`)
+        setScheduledAtInput('')
+      } else if (data.jobIds && data.jobIds.length > 1) {
+        toast.success(`Создано дублей: ${data.jobIds.length}. Когда видео будут готовы, сравните их и выберите лучший`)
+      } else if (data.queuePosition) {
+        toast.success(`Задача добавлена в очередь (позиция ${data.queuePosition})`)
       } else {
-        setError(err.message)
+        toast.success('Задача создана! Видео генерируется...')
       }
+      setSuccess('')
+    } catch (err: any) {
+      setError(err.message)
     } finally {
       setLoading(false)
     }
@@ -866,12 +810,16 @@ const VideoGeneration: React.FC = () => {
       return
     }
 
-    // Проверяем, что задача в статусе ready
-    if (job.status !== 'ready') {
+    // Проверяем, что задача в статусе ready (или предыдущая загрузка в Drive не удалась)
+    if (job.status !== 'ready' && job.status !== 'upload_failed') {
       toast.error('Можно одобрить только готовые видео')
       return
     }
 
+    if (job.variantGroupId && !window.confirm('Это дубль из группы. Остальные дубли будут отклонены и перемещены в корзину. Продолжить?')) {
+      return
+    }
+
     setApprovingJobId(jobId)
     setError('')
     setSuccess('')
@@ -909,15 +857,8 @@ const VideoGeneration: React.FC = () => {
     }
   }
 
-  const handleRejectJob = async (jobId: string) => {
-    // Подтверждение перед отклонением
-    const job = videoJobs.find(j => j.id === jobId)
-    const jobName = job?.videoTitle || job?.prompt.substring(0, 50) || 'это видео'
-    
-    if (!window.confirm(`Вы уверены, что хотите отклонить "${jobName}"? Это действие нельзя отменить.`)) {
-      return
-    }
-    
+  // Подтверждением служит форма отклонения в карточке с причинами, оценкой и заметками
+  const handleRejectJob = async (jobId: string, feedback: VideoJobReviewInput = {}) => {
     // Блокируем кнопку для этой конкретной задачи
     setRejectingJobId(jobId)
     setError('')
@@ -928,6 +869,7 @@ const VideoGeneration: React.FC = () => {
       const response = await apiFetch(`/api/video-jobs/${jobId}/reject`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(feedback),
       })
       
       if (!response.ok) {
@@ -938,7 +880,7 @@ const VideoGeneration: React.FC = () => {
       const result = await response.json()
       console.log(`[VideoJob] Job ${jobId} rejected successfully:`, result)
       
-      toast.success('Видео отклонено')
+      toast.success('Видео отклонено и перемещено в корзину')
       setSuccess('')
       
       // Обновляем список задач
@@ -964,20 +906,65 @@ const VideoGeneration: React.FC = () => {
     }
   }
 
+  const handleCancelJob = async (jobId: string) => {
+    setCancellingJobId(jobId)
+    setError('')
+
+    try {
+      console.log(`[VideoJob] Cancelling job ${jobId}`)
+      await apiFetchJson(`/api/video-jobs/${jobId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      })
+      toast.success('Генерация отменена')
+      await fetchVideoJobs()
+    } catch (err: any) {
+      console.error(`[VideoJob] Error cancelling job ${jobId}:`, err)
+      toast.error(err.message || 'Не удалось отменить генерацию')
+      await fetchVideoJobs()
+    } finally {
+      setCancellingJobId(null)
+    }
+  }
+
+  const handleRegenerateJob = async (jobId: string, overrides: JobRegenerateOverrides) => {
+    setRegeneratingJobId(jobId)
+
+    try {
+      console.log(`[VideoJob] Regenerating job ${jobId}`)
+      const data = await apiFetchJson<{ jobId: string; queuePosition?: number }>(`/api/video-jobs/${jobId}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(overrides),
+      })
+      toast.success(
+        data.queuePosition
+          ? `Новая попытка добавлена в очередь (позиция ${data.queuePosition})`
+          : 'Новая попытка запущена'
+      )
+      await fetchVideoJobs()
+    } catch (err: any) {
+      console.error(`[VideoJob] Error regenerating job ${jobId}:`, err)
+      toast.error(err.message || 'Не удалось создать повторную генерацию')
+      throw err
+    } finally {
+      setRegeneratingJobId(null)
+    }
+  }
+
+  const handleVariantApproved = async (jobId: string, rejectedCount: number) => {
+    console.log('[Variants] Variant approved:', jobId, 'rejected:', rejectedCount)
+    setReviewVariantGroupId(null)
+    toast.success(`Дубль загружен в Google Drive, остальные отклонены (${rejectedCount})`)
+    await fetchVideoJobs()
+  }
+
   const handleDeleteJob = async (jobId: string) => {
     try {
       console.log('[Delete] Starting deletion of job:', jobId)
       
       // Оптимистичное обновление: сразу убираем из списка
-      setVideoJobs((prev) => {
-        const filtered = prev.filter((job) => job.id !== jobId)
-        // Пересчитываем активные задачи
-        const removedJob = prev.find((j) => j.id === jobId)
-        if (removedJob && ['queued', 'sending', 'waiting_video', 'downloading', 'uploading'].includes(removedJob.status)) {
-          setActiveJobsCount((current) => Math.max(0, current - 1))
-        }
-        return filtered
-      })
+      removeJob(jobId)
       
       const response = await apiFetch(`/api/video-jobs/${jobId}`, {
         method: 'DELETE',
@@ -993,11 +980,11 @@ const VideoGeneration: React.FC = () => {
       const result = await response.json()
       console.log('[Delete] Job deleted successfully:', result)
       
-      toast.success('Задача удалена')
+      toast.success('Задача перемещена в корзину')
       
       // Не вызываем fetchVideoJobs() здесь, так как:
-      // 1. Оптимистичное обновление уже применено через setVideoJobs()
-      // 2. Автоматический polling обновит список через несколько секунд
+      // 1. Оптимистичное обновление уже применено через removeJob()
+      // 2. Удаление придёт событием из SSE-потока
       // Это предотвращает множественные одновременные запросы
     } catch (err: any) {
       console.error(`[VideoJob] Error deleting job ${jobId}:`, err)
@@ -1020,12 +1007,6 @@ const VideoGeneration: React.FC = () => {
       return
     }
 
-    // Проверяем лимит активных задач
-    if (activeJobsCount >= maxActiveJobs) {
-      setError(`Уже генерируются ${maxActiveJobs} видео. Подождите, пока одно завершится.`)
-      return
-    }
-
     setLoading(true)
     setError('')
     setSuccess('')
@@ -1034,7 +1015,7 @@ const VideoGeneration: React.FC = () => {
     const finalTitle = videoTitle?.trim() || undefined
 
     try {
-      const data = await apiFetchJson<{ jobId: string; status: string }>('/api/video-jobs', {
+      const data = await apiFetchJson<{ jobId: string; status: string; queuePosition?: number }>('/api/video-jobs', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -1064,14 +1045,13 @@ const VideoGeneration: React.FC = () => {
       await fetchVideoJobs()
       
       // Показываем успешное сообщение
-      setSuccess('Новая задача создана! Видео генерируется...')
+      setSuccess(
+        data.queuePosition
+          ? `Новая задача добавлена в очередь (позиция ${data.queuePosition})`
+          : 'Новая задача создана! Видео генерируется...'
+      )
     } catch (err: any) {
-      if (err instanceof ApiError && err.message === 'MAX_ACTIVE_JOBS_REACHED') {
-        setError(`Уже генерируются ${maxActiveJobs} видео. Подождите, пока одно завершится.`)
-        await fetchVideoJobs()
-      } else {
-        setError(err.message)
-      }
+      setError(err.message)
     } finally {
       setLoading(false)
     }
@@ -1279,16 +1259,29 @@ const VideoGeneration: React.FC = () => {
                   </div>
                 ))}
               </div>
-              <button
-                className="button button-secondary"
-                onClick={handleGenerateIdeas}
-                disabled={generatingIdeas}
-                style={{ marginTop: '1rem' }}
-              >
-                {generatingIdeas ? 'Генерация...' : 'Сгенерировать ещё идеи'}
-              </button>
+              <div style={{ display: 'flex', gap: '1rem', marginTop: '1rem', flexWrap: 'wrap' }}>
+                <button
+                  className="button"
+                  onClick={handleGenerateBatch}
+                  disabled={creatingBatch || generatingIdeas || generatingPrompt}
+                  title="Сгенерировать промпты и создать задачи по всем идеям"
+                >
+                  {creatingBatch ? '⏳ Создание пакета...' : `🎬 Видео по всем идеям (${ideas.length})`}
+                </button>
+                <button
+                  className="button button-secondary"
+                  onClick={handleGenerateIdeas}
+                  disabled={generatingIdeas}
+                >
+                  {generatingIdeas ? 'Генерация...' : 'Сгенерировать ещё идеи'}
+                </button>
+              </div>
             </div>
           )}
+
+          {activeBatchId && (
+            <BatchProgressPanel batchId={activeBatchId} onClose={() => setActiveBatchId(null)} />
+          )}
         </div>
       )}
 
@@ -1685,6 +1678,44 @@ const VideoGeneration: React.FC = () => {
             )}
           </div>
 
+          <div className="input-group">
+            <label>Количество дублей</label>
+            <select value={variantCount} onChange={(e) => setVariantCount(Number(e.target.value))}>
+              {[1, 2, 3, 4].map((count) => (
+                <option key={count} value={count}>
+                  {count === 1 ? '1 (без дублей)' : count}
+                </option>
+              ))}
+            </select>
+            <small style={{ color: '#718096', marginTop: '0.5rem', display: 'block' }}>
+              Несколько дублей одного промпта генерируются отдельными задачами. Лучший выбирается кнопкой "Сравнить дубли", остальные перемещаются в корзину.
+            </small>
+          </div>
+
+          <div className="input-group">
+            <label>Запланировать запуск (необязательно)</label>
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+              <input
+                type="datetime-local"
+                value={scheduledAtInput}
+                onChange={(e) => setScheduledAtInput(e.target.value)}
+              />
+              {scheduledAtInput && (
+                <button
+                  type="button"
+                  className="button button-secondary"
+                  onClick={() => setScheduledAtInput('')}
+                  style={{ fontSize: '0.875rem', padding: '0.5rem 1rem', flexShrink: 0 }}
+                >
+                  Сбросить
+                </button>
+              )}
+            </div>
+            <small style={{ color: '#718096', marginTop: '0.5rem', display: 'block' }}>
+              Если указать время, задача будет отправлена в Syntx в назначенное время (например, ночью, когда бот менее загружен).
+            </small>
+          </div>
+
           {/* Настройки уведомлений - collapsible */}
           <NotificationSettingsCollapsible notifications={notifications} />
 
@@ -1693,24 +1724,24 @@ const VideoGeneration: React.FC = () => {
               <button
                 className="button"
                 onClick={handleGenerateVideo}
-                disabled={loading || !veoPrompt.trim() || activeJobsCount >= maxActiveJobs}
+                disabled={loading || !veoPrompt.trim()}
               >
-                {loading ? '⏳ Создание задачи...' : '🎬 Сгенерировать видео'}
+                {loading ? '⏳ Создание задачи...' : scheduledAtInput ? '🕒 Запланировать видео' : '🎬 Сгенерировать видео'}
               </button>
               
               <button
                 className="button button-secondary"
                 onClick={handleRegenerateVideo}
-                disabled={loading || !veoPrompt.trim() || activeJobsCount >= maxActiveJobs}
+                disabled={loading || !veoPrompt.trim()}
                 title="Создать новую задачу генерации с тем же промптом"
               >
                 🔄 Сгенерировать ещё раз
               </button>
             </div>
             
-            {activeJobsCount >= maxActiveJobs && (
+            {activeJobsCount >= maxActiveJobs && !scheduledAtInput && (
               <div className="video-generation-actions__warning">
-                ⚠️ Доступно не более {maxActiveJobs} одновременных генераций. Подождите, пока одна из задач завершится.
+                ⏳ Все слоты генерации заняты ({activeJobsCount}/{maxActiveJobs}). Новая задача встанет в очередь и запустится автоматически.
               </div>
             )}
           </div>
@@ -1757,9 +1788,9 @@ const VideoGeneration: React.FC = () => {
               <button
                 className="button mobile-actions-panel__generate"
                 onClick={handleGenerateVideo}
-                disabled={loading || !veoPrompt.trim() || activeJobsCount >= maxActiveJobs}
+                disabled={loading || !veoPrompt.trim()}
               >
-                {loading ? '⏳ Создание задачи...' : '🎬 Сгенерировать видео'}
+                {loading ? '⏳ Создание задачи...' : scheduledAtInput ? '🕒 Запланировать видео' : '🎬 Сгенерировать видео'}
               </button>
             </div>
           </div>
@@ -1773,11 +1804,25 @@ const VideoGeneration: React.FC = () => {
             onApprove={handleApproveJob}
             onReject={handleRejectJob}
             onDelete={handleDeleteJob}
+            onCancel={handleCancelJob}
+            onRegenerate={handleRegenerateJob}
+            onCompareVariants={setReviewVariantGroupId}
             rejectingJobId={rejectingJobId}
+            cancellingJobId={cancellingJobId}
             approvingJobId={approvingJobId}
+            regeneratingJobId={regeneratingJobId}
             showChannelName={false}
           />
 
+          {reviewVariantGroupId && (
+            <VariantReviewModal
+              groupId={reviewVariantGroupId}
+              liveJobs={videoJobs}
+              onClose={() => setReviewVariantGroupId(null)}
+              onApproved={handleVariantApproved}
+            />
+          )}
+
         </div>
       )}
     </div>
@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react'
+import { apiFetchJson } from '../lib/apiClient'
+import { VideoJobStatus, VideoJobsFilters, VideoJobsSortField, VideoJobsSortOrder } from '../hooks/useVideoJobs'
+import '../App.css'
+
+interface ChannelOption {
+  id: string
+  name: string
+}
+
+export interface VideoJobsFilterValue {
+  channelId: string | null // null - все каналы
+  filters: VideoJobsFilters
+}
+
+interface VideoJobsFilterBarProps {
+  value: VideoJobsFilterValue
+  onChange: (value: VideoJobsFilterValue) => void
+  searchQuery: string
+  onSearchChange: (query: string) => void
+}
+
+const STATUS_OPTIONS: { value: VideoJobStatus; label: string }[] = [
+  { value: 'scheduled', label: 'Запланировано' },
+  { value: 'queued', label: 'В очереди' },
+  { value: 'waiting_video', label: 'Ожидание' },
+  { value: 'downloading', label: 'Скачивание' },
+  { value: 'ready', label: 'Готово' },
+  { value: 'uploaded', label: 'Загружено' },
+  { value: 'upload_failed', label: 'Ошибка загрузки' },
+  { value: 'error', label: 'Ошибки' },
+  { value: 'syntax_timeout', label: 'Таймаут' },
+  { value: 'rejected', label: 'Отклонено' },
+  { value: 'cancelled', label: 'Отменено' },
+]
+
+const SORT_OPTIONS: { value: string; label: string; sortBy: VideoJobsSortField; sortOrder: VideoJobsSortOrder }[] = [
+  { value: 'createdAt:desc', label: 'Сначала новые', sortBy: 'createdAt', sortOrder: 'desc' },
+  { value: 'createdAt:asc', label: 'Сначала старые', sortBy: 'createdAt', sortOrder: 'asc' },
+  { value: 'updatedAt:desc', label: 'Недавно обновлённые', sortBy: 'updatedAt', sortOrder: 'desc' },
+]
+
+// Значение input[type=date] в локальное время начала/конца дня
+const dateInputToTimestamp = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined
+  const [year, month, day] = value.split('-').map(Number)
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime()
+    : new Date(year, month - 1, day).getTime()
+}
+
+const timestampToDateInput = (timestamp?: number): string => {
+  if (timestamp === undefined) return ''
+  const date = new Date(timestamp)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+export const VideoJobsFilterBar: React.FC<VideoJobsFilterBarProps> = ({
+  value,
+  onChange,
+  searchQuery,
+  onSearchChange,
+}) => {
+  const [channels, setChannels] = useState<ChannelOption[]>([])
+  const { channelId, filters } = value
+
+  useEffect(() => {
+    apiFetchJson<ChannelOption[]>('/api/channels')
+      .then(setChannels)
+      .catch((err) => console.error('[channels] load error', err))
+  }, [])
+
+  const updateFilters = (patch: Partial<VideoJobsFilters>) => {
+    const next = { ...filters, ...patch }
+    // Сервер фильтрует по дате создания только при сортировке по createdAt
+    if ((next.createdFrom !== undefined || next.createdTo !== undefined) && next.sortBy === 'updatedAt') {
+      next.sortBy = 'createdAt'
+      next.sortOrder = 'desc'
+    }
+    onChange({ channelId, filters: next })
+  }
+
+  const hasDateRange = filters.createdFrom !== undefined || filters.createdTo !== undefined
+  const sortValue = `${filters.sortBy || 'createdAt'}:${filters.sortOrder || 'desc'}`
+
+  return (
+    <div className="jobs-filter-bar">
+      <div className="search-input-wrapper jobs-filter-bar__search">
+        <input
+          type="search"
+          placeholder="🔍 Поиск по названию, идее и промпту..."
+          value={searchQuery}
+          onChange={(e) => onSearchChange(e.target.value)}
+          className="search-input"
+        />
+        {searchQuery && (
+          <button
+            className="search-clear-button"
+            onClick={() => onSearchChange('')}
+            aria-label="Очистить поиск"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      <select
+        className="filters-popover__select jobs-filter-bar__field"
+        value={channelId || ''}
+        onChange={(e) => onChange({ channelId: e.target.value || null, filters })}
+        aria-label="Канал"
+      >
+        <option value="">Все каналы</option>
+        {channels.map((channel) => (
+          <option key={channel.id} value={channel.id}>
+            {channel.name}
+          </option>
+        ))}
+      </select>
+
+      <select
+        className="filters-popover__select jobs-filter-bar__field"
+        value={filters.statuses?.[0] || ''}
+        onChange={(e) => updateFilters({ statuses: e.target.value ? [e.target.value as VideoJobStatus] : undefined })}
+        aria-label="Статус"
+      >
+        <option value="">Все статусы</option>
+        {STATUS_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      <label className="jobs-filter-bar__date">
+        <span>с</span>
+        <input
+          type="date"
+          className="filters-popover__select"
+          value={timestampToDateInput(filters.createdFrom)}
+          onChange={(e) => updateFilters({ createdFrom: dateInputToTimestamp(e.target.value, false) })}
+        />
+      </label>
+
+      <label className="jobs-filter-bar__date">
+        <span>по</span>
+        <input
+          type="date"
+          className="filters-popover__select"
+          value={timestampToDateInput(filters.createdTo)}
+          onChange={(e) => updateFilters({ createdTo: dateInputToTimestamp(e.target.value, true) })}
+        />
+      </label>
+
+      <select
+        className="filters-popover__select jobs-filter-bar__field"
+        value={sortValue}
+        onChange={(e) => {
+          const option = SORT_OPTIONS.find((item) => item.value === e.target.value)
+          if (option) {
+            updateFilters({ sortBy: option.sortBy, sortOrder: option.sortOrder })
+          }
+        }}
+        aria-label="Сортировка"
+      >
+        {SORT_OPTIONS.map((option) => (
+          <option
+            key={option.value}
+            value={option.value}
+            disabled={hasDateRange && option.sortBy !== 'createdAt'}
+          >
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
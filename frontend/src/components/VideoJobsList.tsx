@@ -1,7 +1,7 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react'
 import '../App.css'
-import { VideoJob, VideoJobStatus } from '../hooks/useVideoJobs'
-import { SwipeableJobCard } from './SwipeableJobCard'
+import { VideoJob, VideoJobReviewInput, VideoJobStatus } from '../hooks/useVideoJobs'
+import { SwipeableJobCard, JobRegenerateOverrides } from './SwipeableJobCard'
 
 interface VideoJobsListProps {
   jobs: VideoJob[]
@@ -9,11 +9,22 @@ interface VideoJobsListProps {
   maxActiveJobs: number
   loading?: boolean
   onApprove?: (jobId: string, jobTitle?: string) => Promise<void>
-  onReject?: (jobId: string) => Promise<void>
+  onReject?: (jobId: string, feedback?: VideoJobReviewInput) => Promise<void>
+  onReview?: (jobId: string, feedback: VideoJobReviewInput) => Promise<void>
   onDelete?: (jobId: string) => Promise<void>
+  onCancel?: (jobId: string) => Promise<void>
+  onRegenerate?: (jobId: string, overrides: JobRegenerateOverrides) => Promise<void>
+  onCompareVariants?: (variantGroupId: string) => void
   rejectingJobId?: string | null
+  cancellingJobId?: string | null
   approvingJobId?: string | null
+  regeneratingJobId?: string | null
+  reviewingJobId?: string | null
   showChannelName?: boolean
+  showControls?: boolean // Локальные поиск и фильтры (скрываются, когда список фильтруется на сервере)
+  emptyMessage?: string
+  selectedJobIds?: Set<string> // Выбранные задачи для массовых действий
+  onToggleSelect?: (jobId: string) => void // Если передан, у карточек появляется чекбокс выбора
 }
 
 export const VideoJobsList: React.FC<VideoJobsListProps> = ({
@@ -23,10 +34,21 @@ export const VideoJobsList: React.FC<VideoJobsListProps> = ({
   loading = false,
   onApprove,
   onReject,
+  onReview,
   onDelete,
+  onCancel,
+  onRegenerate,
+  onCompareVariants,
   rejectingJobId = null,
+  cancellingJobId = null,
   approvingJobId = null,
+  regeneratingJobId = null,
+  reviewingJobId = null,
   showChannelName = false,
+  showControls = true,
+  emptyMessage = 'Задачи ещё не создавались.',
+  selectedJobIds,
+  onToggleSelect,
 }) => {
   const [filterStatus, setFilterStatus] = useState<VideoJobStatus | 'all'>('all')
   const [sortBy, setSortBy] = useState<'date' | 'status'>('date')
@@ -38,6 +60,7 @@ export const VideoJobsList: React.FC<VideoJobsListProps> = ({
 
   const getStatusLabel = (status: VideoJobStatus): string => {
     const labels: Record<VideoJobStatus, string> = {
+      scheduled: 'Запланировано',
       queued: 'В очереди',
       sending: 'Отправка в Syntx...',
       waiting_video: 'Ожидаем видео от Syntx...',
@@ -45,15 +68,19 @@ export const VideoJobsList: React.FC<VideoJobsListProps> = ({
       ready: 'Готово',
       uploading: 'Загрузка в Google Drive...',
       uploaded: 'Загружено в Google Drive',
+      upload_failed: 'Ошибка загрузки в Drive',
       rejected: 'Отклонено',
       error: 'Ошибка',
       syntax_timeout: 'Таймаут',
+      cancelled: 'Отменено',
+      trashed: 'В корзине',
     }
     return labels[status] || status
   }
 
   const getStatusColor = (status: VideoJobStatus): string => {
     const colors: Record<VideoJobStatus, string> = {
+      scheduled: '#9f7aea',
       queued: '#a0aec0',
       sending: '#4299e1',
       waiting_video: '#4299e1',
@@ -61,9 +88,12 @@ export const VideoJobsList: React.FC<VideoJobsListProps> = ({
       ready: '#48bb78',
       uploading: '#4299e1',
       uploaded: '#48bb78',
+      upload_failed: '#ed8936',
       rejected: '#f56565',
       error: '#f56565',
       syntax_timeout: '#f56565',
+      cancelled: '#718096',
+      trashed: '#718096',
     }
     return colors[status] || '#a0aec0'
   }
@@ -107,6 +137,12 @@ export const VideoJobsList: React.FC<VideoJobsListProps> = ({
     return filtered
   }, [jobs, filterStatus, searchQuery, sortBy])
 
+  // Исходные задачи, у которых в списке есть повторные генерации
+  const chainRootIds = useMemo(
+    () => new Set(jobs.map((job) => job.rootJobId).filter((id): id is string => !!id)),
+    [jobs]
+  )
+
   // Закрытие поиска при потере фокуса (только на мобильных)
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent | TouchEvent) => {
@@ -151,7 +187,7 @@ export const VideoJobsList: React.FC<VideoJobsListProps> = ({
         </h3>
         
         {/* Фильтры и поиск */}
-        {jobs.length > 0 && (
+        {showControls && jobs.length > 0 && (
           <div className="video-jobs-list__controls">
             {/* Поиск - сворачиваемый на мобильных */}
             <div className="search-container">
@@ -217,11 +253,14 @@ export const VideoJobsList: React.FC<VideoJobsListProps> = ({
                       className="filters-popover__select"
                     >
                       <option value="all">Все статусы</option>
+                      <option value="scheduled">Запланировано</option>
                       <option value="ready">Готово</option>
                       <option value="waiting_video">Ожидание</option>
                       <option value="downloading">Скачивание</option>
                       <option value="uploaded">Загружено</option>
+                      <option value="upload_failed">Ошибка загрузки</option>
                       <option value="error">Ошибки</option>
+                      <option value="cancelled">Отменено</option>
                     </select>
                   </div>
                   
@@ -247,32 +286,63 @@ export const VideoJobsList: React.FC<VideoJobsListProps> = ({
       </div>
       
       {jobs.length === 0 ? (
-        <p className="video-jobs-list__empty">Задачи ещё не создавались.</p>
+        <p className="video-jobs-list__empty">{emptyMessage}</p>
       ) : filteredAndSortedJobs.length === 0 ? (
         <p className="video-jobs-list__empty">Задачи не найдены по заданным фильтрам.</p>
       ) : (
         <div className="job-list">
           {filteredAndSortedJobs.map((job) => {
             const isActive = ['queued', 'sending', 'waiting_video', 'downloading', 'uploading'].includes(job.status)
-            const canApprove = job.status === 'ready'
+            const canApprove = job.status === 'ready' || job.status === 'upload_failed'
+            const canCancel =
+              ['scheduled', 'queued', 'sending', 'waiting_video', 'downloading'].includes(job.status) ||
+              (!!job.nextRetryAt && (job.status === 'error' || job.status === 'syntax_timeout'))
             
-            return (
+            const card = (
               <SwipeableJobCard
                 key={job.id}
                 job={job}
                 isActive={isActive}
                 canApprove={canApprove}
+                canCancel={canCancel}
                 getStatusLabel={getStatusLabel}
                 getStatusColor={getStatusColor}
                 showChannelName={showChannelName}
                 onApprove={onApprove}
                 onReject={onReject}
+                onReview={onReview}
                 onDelete={onDelete}
+                onCancel={onCancel}
+                onRegenerate={onRegenerate}
+                onCompareVariants={onCompareVariants}
+                hasAttemptChain={chainRootIds.has(job.id)}
                 loading={loading}
                 rejectingJobId={rejectingJobId}
+                cancellingJobId={cancellingJobId}
                 approvingJobId={approvingJobId}
+                regeneratingJobId={regeneratingJobId}
+                reviewingJobId={reviewingJobId}
               />
             )
+
+            if (!onToggleSelect) {
+              return card
+            }
+
+            const isSelected = !!selectedJobIds?.has(job.id)
+            return (
+              <div key={job.id} className={`job-list__item ${isSelected ? 'job-list__item--selected' : ''}`}>
+                <label className="job-list__select" title="Выбрать для массового действия">
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onChange={() => onToggleSelect(job.id)}
+                    aria-label={`Выбрать «${job.videoTitle || job.prompt.substring(0, 40)}»`}
+                  />
+                </label>
+                <div className="job-list__card">{card}</div>
+              </div>
+            )
           })}
         </div>
       )}
@@ -0,0 +1,57 @@
+import { useState, useEffect } from 'react'
+import { apiFetchJson } from '../lib/apiClient'
+
+export interface RejectReason {
+  code: string
+  label: string
+}
+
+// Список причин меняется только вместе с настройками сервера, поэтому загружаем его один раз
+let cachedReasons: RejectReason[] | null = null
+let pendingRequest: Promise<RejectReason[]> | null = null
+
+const loadRejectReasons = (): Promise<RejectReason[]> => {
+  if (!pendingRequest) {
+    pendingRequest = apiFetchJson<{ reasons: RejectReason[] }>('/api/video-jobs/reject-reasons')
+      .then((data) => {
+        cachedReasons = data.reasons
+        return data.reasons
+      })
+      .catch((err) => {
+        // Следующий вызов попробует загрузить список снова
+        pendingRequest = null
+        throw err
+      })
+  }
+  return pendingRequest
+}
+
+/**
+ * Причины отклонения видео (GET /api/video-jobs/reject-reasons)
+ */
+export function useRejectReasons() {
+  const [reasons, setReasons] = useState<RejectReason[]>(cachedReasons || [])
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (cachedReasons) {
+      return
+    }
+
+    let cancelled = false
+    loadRejectReasons()
+      .then((data) => {
+        if (!cancelled) setReasons(data)
+      })
+      .catch((err: any) => {
+        console.error('[RejectReasons] Error loading reject reasons:', err)
+        if (!cancelled) setError(err.message || 'Не удалось загрузить причины отклонения')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return { reasons, error }
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { apiFetchJson, ApiError, resolveApiUrl } from '../lib/apiClient'
+import { VideoJob, VideoJobStatus } from './useVideoJobs'
+
+interface UseVideoJobSearchOptions {
+  query: string
+  channelId?: string | null
+  statuses?: VideoJobStatus[]
+  debounceMs?: number
+}
+
+interface VideoJobSearchResponse {
+  total: number
+  jobs: VideoJob[]
+}
+
+/**
+ * Поиск задач на сервере (GET /api/video-jobs/search) с задержкой после ввода.
+ * Пока запрос пустой, results === null - показывается обычный список.
+ */
+export function useVideoJobSearch(options: UseVideoJobSearchOptions) {
+  const { query, channelId = null, statuses, debounceMs = 300 } = options
+
+  const [results, setResults] = useState<VideoJob[] | null>(null)
+  const [total, setTotal] = useState(0)
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState<string>('')
+  const requestIdRef = useRef(0)
+
+  const trimmedQuery = query.trim()
+  const statusKey = statuses?.join(',') || ''
+
+  const runSearch = useCallback(async () => {
+    if (!trimmedQuery) {
+      setResults(null)
+      setTotal(0)
+      return
+    }
+
+    const requestId = ++requestIdRef.current
+    setSearching(true)
+    try {
+      const params = new URLSearchParams({ q: trimmedQuery })
+      if (channelId) {
+        params.append('channelId', channelId)
+      }
+      if (statusKey) {
+        params.append('status', statusKey)
+      }
+      const data = await apiFetchJson<VideoJobSearchResponse>(`/api/video-jobs/search?${params.toString()}`)
+
+      // Пользователь успел изменить запрос - ответ устарел
+      if (requestId !== requestIdRef.current) {
+        return
+      }
+
+      setResults(
+        data.jobs.map((job) => ({
+          ...job,
+          previewUrl: job.previewUrl ? resolveApiUrl(job.previewUrl) : undefined,
+        }))
+      )
+      setTotal(data.total)
+      setError('')
+    } catch (err) {
+      console.error('[Search] Error searching jobs:', err)
+      if (requestId === requestIdRef.current) {
+        setError(err instanceof ApiError ? err.message : 'Ошибка поиска')
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setSearching(false)
+      }
+    }
+  }, [trimmedQuery, channelId, statusKey])
+
+  useEffect(() => {
+    if (!trimmedQuery) {
+      requestIdRef.current++
+      setResults(null)
+      setTotal(0)
+      setSearching(false)
+      return
+    }
+    const timer = setTimeout(runSearch, debounceMs)
+    return () => clearTimeout(timer)
+  }, [trimmedQuery, runSearch, debounceMs])
+
+  const removeResult = useCallback((jobId: string) => {
+    setResults((prev) => (prev ? prev.filter((job) => job.id !== jobId) : prev))
+  }, [])
+
+  return {
+    results,
+    total,
+    searching,
+    error,
+    refreshSearch: runSearch,
+    removeResult,
+  }
+}
@@ -3,6 +3,7 @@ import { apiFetchJson, ApiError, resolveApiUrl } from '../lib/apiClient'
 import { useNotifications } from './useNotifications'
 
 export type VideoJobStatus = 
+  | "scheduled"
   | "queued"
   | "sending"
   | "waiting_video"
@@ -10,9 +11,42 @@ export type VideoJobStatus =
   | "ready"
   | "uploading"
   | "uploaded"
+  | "upload_failed"
   | "rejected"
   | "error"
   | "syntax_timeout"
+  | "cancelled"
+  | "trashed"
+
+export interface VideoJobAttempt {
+  attempt: number
+  startedAt: number
+  finishedAt?: number
+  status?: VideoJobStatus
+  errorMessage?: string
+  telegramRequestMessageId?: number
+  reusedRequest?: boolean
+}
+
+/**
+ * Оценка видео проверяющим (рейтинг, заметки и причины отклонения)
+ */
+export interface VideoJobReview {
+  rating: number | null
+  notes: string | null
+  rejectReasons: string[]
+  decision: 'approved' | 'rejected' | null
+  reviewedAt: number
+}
+
+/**
+ * Изменение оценки: незаданные поля не меняются, null очищает значение
+ */
+export interface VideoJobReviewInput {
+  rating?: number | null
+  notes?: string | null
+  rejectReasons?: string[]
+}
 
 export interface VideoJob {
   id: string
@@ -22,107 +56,244 @@ export interface VideoJob {
   videoTitle?: string
   status: VideoJobStatus
   errorMessage?: string
+  queuePosition?: number
+  attempts?: VideoJobAttempt[]
+  nextRetryAt?: number
+  scheduledAt?: number
+  parentJobId?: string // Задача, из которой создана повторная генерация
+  rootJobId?: string // Первая задача цепочки повторных генераций
+  variantGroupId?: string // Группа дублей одного промпта
+  variantIndex?: number // Номер дубля (с 1)
+  variantCount?: number
   createdAt: number
   updatedAt: number
   previewUrl?: string
+  localFilesPurgedAt?: number // Локальная копия удалена по политике хранения, видео есть только в Drive
+  localFileMissingAt?: number // Сверка с DOWNLOAD_DIR не нашла файлы задачи на диске
+  trashedAt?: number // Когда задача перемещена в корзину
+  trashedFromStatus?: VideoJobStatus // Статус, в который вернёт восстановление из корзины
+  trashReason?: 'rejected' | 'deleted'
+  purgeAt?: number // Когда задача будет удалена из корзины навсегда
+  review?: VideoJobReview
   driveFileId?: string
   webViewLink?: string
   webContentLink?: string
 }
 
+export type VideoJobsSortField = 'createdAt' | 'updatedAt'
+export type VideoJobsSortOrder = 'asc' | 'desc'
+
+/**
+ * Серверные фильтры списка задач (GET /api/video-jobs)
+ */
+export interface VideoJobsFilters {
+  statuses?: VideoJobStatus[]
+  createdFrom?: number
+  createdTo?: number
+  sortBy?: VideoJobsSortField
+  sortOrder?: VideoJobsSortOrder
+}
+
 interface UseVideoJobsOptions {
   channelId?: string | null
   autoPoll?: boolean
   pollInterval?: number
+  pageSize?: number
+  filters?: VideoJobsFilters
   onJobStatusChange?: (jobId: string, oldStatus: VideoJobStatus, newStatus: VideoJobStatus) => void
 }
 
+interface VideoJobsPageResponse {
+  jobs?: VideoJob[]
+  nextCursor?: string | null
+  activeCount?: number
+  maxActiveJobs?: number
+}
+
+interface VideoJobsQueueEvent {
+  activeCount: number
+  maxActiveJobs: number
+  queuedCount: number
+  queuePositions: Record<string, number>
+}
+
+const DEFAULT_PAGE_SIZE = 20
+// Ограничение бэкенда на размер страницы
+const MAX_PAGE_SIZE = 100
+
+const normalizeJob = (job: VideoJob): VideoJob => ({
+  ...job,
+  previewUrl: job.previewUrl ? resolveApiUrl(job.previewUrl) : undefined,
+})
+
+/**
+ * Параметры запроса списка задач; те же параметры принимает выгрузка GET /api/video-jobs/export
+ */
+export const buildListParams = (channelId: string | null, filters: VideoJobsFilters = {}) => {
+  const params = new URLSearchParams()
+  if (channelId !== null) {
+    params.append('channelId', channelId)
+  }
+  // Если channelId === null, фильтра по каналу нет, и бэкенд вернет задачи всех каналов
+  if (filters.statuses && filters.statuses.length > 0) {
+    params.append('status', filters.statuses.join(','))
+  }
+  if (filters.createdFrom !== undefined) {
+    params.append('createdFrom', String(filters.createdFrom))
+  }
+  if (filters.createdTo !== undefined) {
+    params.append('createdTo', String(filters.createdTo))
+  }
+  if (filters.sortBy) {
+    params.append('sortBy', filters.sortBy)
+  }
+  if (filters.sortOrder) {
+    params.append('sortOrder', filters.sortOrder)
+  }
+  return params
+}
+
+const matchesFilters = (job: VideoJob, filters: VideoJobsFilters) => {
+  if (filters.statuses && filters.statuses.length > 0 && !filters.statuses.includes(job.status)) {
+    return false
+  }
+  if (filters.createdFrom !== undefined && job.createdAt < filters.createdFrom) {
+    return false
+  }
+  if (filters.createdTo !== undefined && job.createdAt > filters.createdTo) {
+    return false
+  }
+  return true
+}
+
+// Тот же порядок, что и на сервере: поле сортировки, затем ID
+const compareJobs = (filters: VideoJobsFilters) => (a: VideoJob, b: VideoJob) => {
+  const field = filters.sortBy || 'createdAt'
+  const direction = filters.sortOrder === 'asc' ? 1 : -1
+  if (a[field] !== b[field]) {
+    return (a[field] - b[field]) * direction
+  }
+  return a.id.localeCompare(b.id) * direction
+}
+
 export function useVideoJobs(options: UseVideoJobsOptions = {}) {
-  const { channelId, autoPoll = false, pollInterval = 3000, onJobStatusChange } = options
+  const {
+    channelId,
+    autoPoll = false,
+    pollInterval = 3000,
+    pageSize = DEFAULT_PAGE_SIZE,
+    filters,
+    onJobStatusChange,
+  } = options
   
   const [videoJobs, setVideoJobs] = useState<VideoJob[]>([])
   const [activeJobsCount, setActiveJobsCount] = useState(0)
   const [maxActiveJobs, setMaxActiveJobs] = useState(2)
   const [loading, setLoading] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [error, setError] = useState<string>('')
+  const [isLive, setIsLive] = useState(false)
   
   const pollingIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
   const previousJobsRef = useRef<Map<string, VideoJobStatus>>(new Map())
-  const isFetchingRef = useRef<boolean>(false)
+  const fetchingQueryRef = useRef<string | null>(null)
+  const loadingMoreRef = useRef<boolean>(false)
+  const nextCursorRef = useRef<string | null>(null)
+  const loadedCountRef = useRef<number>(0)
   const notifications = useNotifications()
 
-  const fetchVideoJobs = useCallback(async () => {
-    // Если channelId === undefined, не загружаем (хук не инициализирован)
-    // Если channelId === null, загружаем все задачи
-    // Если channelId === string, загружаем задачи конкретного канала
-    if (channelId === undefined) {
+  // Строка запроса без пагинации: её смена означает новую выборку с первой страницы.
+  // undefined channelId - хук не инициализирован, null - все каналы
+  const listQuery = channelId === undefined ? null : buildListParams(channelId, filters).toString()
+  const listQueryRef = useRef(listQuery)
+  listQueryRef.current = listQuery
+  const filtersRef = useRef<VideoJobsFilters>(filters || {})
+  filtersRef.current = filters || {}
+
+  // Колбэки храним в ref, чтобы их смена не переоткрывала SSE-поток
+  const notificationsRef = useRef(notifications)
+  notificationsRef.current = notifications
+  const onJobStatusChangeRef = useRef(onJobStatusChange)
+  onJobStatusChangeRef.current = onJobStatusChange
+
+  useEffect(() => {
+    loadedCountRef.current = videoJobs.length
+  }, [videoJobs])
+
+  const updateNextCursor = (cursor: string | null) => {
+    nextCursorRef.current = cursor
+    setNextCursor(cursor)
+  }
+
+  // Отслеживаем изменения статусов для уведомлений
+  const trackStatusChange = useCallback((job: VideoJob) => {
+    const previousJobs = previousJobsRef.current
+    const previousStatus = previousJobs.get(job.id)
+    const currentStatus = job.status
+    const statusCallback = onJobStatusChangeRef.current
+    
+    // Если статус изменился с "не ready" на "ready", отправляем уведомление
+    if (
+      previousStatus &&
+      previousStatus !== 'ready' &&
+      currentStatus === 'ready' &&
+      (previousStatus === 'waiting_video' || 
+       previousStatus === 'downloading' || 
+       previousStatus === 'sending' ||
+       previousStatus === 'queued')
+    ) {
+      const jobTitle = job.videoTitle || job.prompt.substring(0, 60) + (job.prompt.length > 60 ? '...' : '')
+      notificationsRef.current.notifyVideoReady(jobTitle, job.id)
+      
+      // Вызываем callback если передан
+      if (statusCallback) {
+        statusCallback(job.id, previousStatus, currentStatus)
+      }
+    } else if (previousStatus && previousStatus !== currentStatus && statusCallback) {
+      // Вызываем callback для любых изменений статуса
+      statusCallback(job.id, previousStatus, currentStatus)
+    }
+    
+    // Обновляем предыдущий статус
+    previousJobs.set(job.id, currentStatus)
+  }, [])
+
+  /**
+   * Загружает первую страницу. При keepLoaded перезагружает столько задач, сколько уже подгружено
+   * (синхронизация после обрыва потока и polling не сбрасывают прокрутку)
+   */
+  const fetchFirstPage = useCallback(async (keepLoaded: boolean) => {
+    if (listQuery === null) {
       return
     }
 
-    // Защита от множественных одновременных запросов
-    if (isFetchingRef.current) {
+    // Защита от множественных одновременных запросов одной и той же выборки
+    if (fetchingQueryRef.current === listQuery) {
       console.log('[useVideoJobs] Already fetching, skipping duplicate request')
       return
     }
 
-    isFetchingRef.current = true
+    fetchingQueryRef.current = listQuery
     setLoading(true)
     try {
-      const params = new URLSearchParams()
-      if (channelId !== null) {
-        // Если channelId не null, добавляем его в параметры
-        params.append('channelId', channelId)
+      const limit = keepLoaded
+        ? Math.min(MAX_PAGE_SIZE, Math.max(pageSize, loadedCountRef.current))
+        : pageSize
+      const params = new URLSearchParams(listQuery)
+      params.set('limit', String(limit))
+      const data = await apiFetchJson<VideoJobsPageResponse>(`/api/video-jobs?${params.toString()}`)
+
+      // Фильтры успели смениться - ответ устарел
+      if (listQueryRef.current !== listQuery) {
+        return
       }
-      // Если channelId === null, params будет пустым, и бэкенд вернет все задачи
 
-      const url = params.toString() 
-        ? `/api/video-jobs?${params.toString()}`
-        : '/api/video-jobs'
-      
-      const data = await apiFetchJson<{
-        jobs?: VideoJob[]
-        activeCount?: number
-        maxActiveJobs?: number
-      }>(url)
-
-      const normalizedJobs = (data.jobs || []).map((job) => ({
-        ...job,
-        previewUrl: job.previewUrl ? resolveApiUrl(job.previewUrl) : undefined,
-      }))
-
-      // Отслеживаем изменения статусов для уведомлений
-      const previousJobs = previousJobsRef.current
-      normalizedJobs.forEach((job) => {
-        const previousStatus = previousJobs.get(job.id)
-        const currentStatus = job.status
-        
-        // Если статус изменился с "не ready" на "ready", отправляем уведомление
-        if (
-          previousStatus &&
-          previousStatus !== 'ready' &&
-          currentStatus === 'ready' &&
-          (previousStatus === 'waiting_video' || 
-           previousStatus === 'downloading' || 
-           previousStatus === 'sending' ||
-           previousStatus === 'queued')
-        ) {
-          const jobTitle = job.videoTitle || job.prompt.substring(0, 60) + (job.prompt.length > 60 ? '...' : '')
-          notifications.notifyVideoReady(jobTitle, job.id)
-          
-          // Вызываем callback если передан
-          if (onJobStatusChange) {
-            onJobStatusChange(job.id, previousStatus, currentStatus)
-          }
-        } else if (previousStatus && previousStatus !== currentStatus && onJobStatusChange) {
-          // Вызываем callback для любых изменений статуса
-          onJobStatusChange(job.id, previousStatus, currentStatus)
-        }
-        
-        // Обновляем предыдущий статус
-        previousJobs.set(job.id, currentStatus)
-      })
+      const normalizedJobs = (data.jobs || []).map(normalizeJob)
+      normalizedJobs.forEach(trackStatusChange)
 
       setVideoJobs(normalizedJobs)
+      updateNextCursor(data.nextCursor ?? null)
       setActiveJobsCount(data.activeCount ?? 0)
       if (typeof data.maxActiveJobs === 'number') {
         setMaxActiveJobs(data.maxActiveJobs)
@@ -137,31 +308,170 @@ export function useVideoJobs(options: UseVideoJobsOptions = {}) {
       }
     } finally {
       setLoading(false)
-      isFetchingRef.current = false
+      if (fetchingQueryRef.current === listQuery) {
+        fetchingQueryRef.current = null
+      }
     }
-  }, [channelId, notifications, onJobStatusChange])
+  }, [listQuery, pageSize, trackStatusChange])
 
-  // Автоматический polling
-  useEffect(() => {
-    if (autoPoll && channelId !== undefined) {
-      fetchVideoJobs()
-      pollingIntervalRef.current = setInterval(() => {
-        fetchVideoJobs()
-      }, pollInterval)
-    } else {
-      // Загружаем один раз при монтировании, если autoPoll выключен
-      if (channelId !== undefined) {
-        fetchVideoJobs()
+  const fetchVideoJobs = useCallback(() => fetchFirstPage(true), [fetchFirstPage])
+  // Смена фильтров не должна переоткрывать SSE-поток, поэтому поток вызывает загрузку через ref
+  const fetchVideoJobsRef = useRef(fetchVideoJobs)
+  fetchVideoJobsRef.current = fetchVideoJobs
+
+  // Подгрузка следующей страницы (бесконечная прокрутка)
+  const loadMore = useCallback(async () => {
+    const cursor = nextCursorRef.current
+    if (listQuery === null || !cursor || loadingMoreRef.current) {
+      return
+    }
+
+    loadingMoreRef.current = true
+    setLoadingMore(true)
+    try {
+      const params = new URLSearchParams(listQuery)
+      params.set('limit', String(pageSize))
+      params.set('cursor', cursor)
+      const data = await apiFetchJson<VideoJobsPageResponse>(`/api/video-jobs?${params.toString()}`)
+
+      if (listQueryRef.current !== listQuery) {
+        return
       }
+
+      const pageJobs = (data.jobs || []).map(normalizeJob)
+      pageJobs.forEach(trackStatusChange)
+
+      setVideoJobs((prev) => {
+        const loadedIds = new Set(prev.map((job) => job.id))
+        return [...prev, ...pageJobs.filter((job) => !loadedIds.has(job.id))]
+      })
+      updateNextCursor(data.nextCursor ?? null)
+    } catch (err) {
+      console.error('[VideoJobs] Error loading more jobs:', err)
+      setError(err instanceof ApiError ? err.message : 'Ошибка загрузки задач')
+    } finally {
+      loadingMoreRef.current = false
+      setLoadingMore(false)
     }
+  }, [listQuery, pageSize, trackStatusChange])
 
-    return () => {
+  // Применяем изменение задачи, пришедшее из SSE-потока
+  const applyJobChange = useCallback((job: VideoJob) => {
+    const normalizedJob = normalizeJob(job)
+    const currentFilters = filtersRef.current
+    const compare = compareJobs(currentFilters)
+    trackStatusChange(normalizedJob)
+    setVideoJobs((prev) => {
+      const existing = prev.find((item) => item.id === normalizedJob.id)
+      if (!matchesFilters(normalizedJob, currentFilters)) {
+        return existing ? prev.filter((item) => item.id !== normalizedJob.id) : prev
+      }
+      if (existing) {
+        return prev
+          .map((item) => (item.id === normalizedJob.id ? { ...normalizedJob, queuePosition: normalizedJob.queuePosition ?? item.queuePosition } : item))
+          .sort(compare)
+      }
+      // Задача за пределами уже загруженных страниц придёт при подгрузке следующей страницы
+      const lastLoaded = prev[prev.length - 1]
+      if (nextCursorRef.current && lastLoaded && compare(normalizedJob, lastLoaded) > 0) {
+        return prev
+      }
+      return [normalizedJob, ...prev].sort(compare)
+    })
+  }, [trackStatusChange])
+
+  // Смена канала или фильтров - новая выборка с первой страницы
+  useEffect(() => {
+    setVideoJobs([])
+    updateNextCursor(null)
+    fetchFirstPage(false)
+  }, [fetchFirstPage])
+
+  // Обновления в реальном времени: SSE-поток, а при его обрыве - polling
+  useEffect(() => {
+    if (channelId === undefined || !autoPoll) {
+      return
+    }
+
+    const stopPolling = () => {
       if (pollingIntervalRef.current) {
         clearInterval(pollingIntervalRef.current)
         pollingIntervalRef.current = null
       }
     }
-  }, [autoPoll, channelId, pollInterval, fetchVideoJobs])
+    const startPolling = () => {
+      if (!pollingIntervalRef.current) {
+        pollingIntervalRef.current = setInterval(() => {
+          fetchVideoJobsRef.current()
+        }, pollInterval)
+      }
+    }
+
+    if (typeof EventSource === 'undefined') {
+      startPolling()
+      return stopPolling
+    }
+
+    const streamParams = buildListParams(channelId)
+    const streamQuery = streamParams.toString() ? `?${streamParams.toString()}` : ''
+    const eventSource = new EventSource(resolveApiUrl(`/api/video-jobs/stream${streamQuery}`))
+
+    eventSource.onopen = () => {
+      // Поток (пере)подключён: отключаем polling и синхронизируем пропущенные изменения
+      setIsLive(true)
+      stopPolling()
+      fetchVideoJobsRef.current()
+    }
+
+    eventSource.onerror = () => {
+      // Браузер сам переподключает EventSource, а пока обновляем список polling'ом
+      console.warn('[useVideoJobs] Stream disconnected, falling back to polling')
+      setIsLive(false)
+      startPolling()
+    }
+
+    const handleJobEvent = (event: MessageEvent) => {
+      try {
+        applyJobChange(JSON.parse(event.data) as VideoJob)
+      } catch (err) {
+        console.error('[useVideoJobs] Invalid job event:', err)
+      }
+    }
+
+    const handleJobDeleted = (event: MessageEvent) => {
+      try {
+        const { id } = JSON.parse(event.data) as { id: string }
+        previousJobsRef.current.delete(id)
+        setVideoJobs((prev) => prev.filter((job) => job.id !== id))
+      } catch (err) {
+        console.error('[useVideoJobs] Invalid delete event:', err)
+      }
+    }
+
+    const handleQueue = (event: MessageEvent) => {
+      try {
+        const data = JSON.parse(event.data) as VideoJobsQueueEvent
+        setActiveJobsCount(data.activeCount)
+        setMaxActiveJobs(data.maxActiveJobs)
+        setVideoJobs((prev) =>
+          prev.map((job) => ({ ...job, queuePosition: data.queuePositions[job.id] }))
+        )
+      } catch (err) {
+        console.error('[useVideoJobs] Invalid queue event:', err)
+      }
+    }
+
+    eventSource.addEventListener('job_created', handleJobEvent)
+    eventSource.addEventListener('job_updated', handleJobEvent)
+    eventSource.addEventListener('job_deleted', handleJobDeleted)
+    eventSource.addEventListener('queue', handleQueue)
+
+    return () => {
+      eventSource.close()
+      stopPolling()
+      setIsLive(false)
+    }
+  }, [autoPoll, channelId, pollInterval, applyJobChange])
 
   const refreshJobs = useCallback(() => {
     return fetchVideoJobs()
@@ -169,10 +479,10 @@ export function useVideoJobs(options: UseVideoJobsOptions = {}) {
 
   const removeJob = useCallback((jobId: string) => {
     setVideoJobs((prev) => prev.filter((job) => job.id !== jobId))
-    // Пересчитываем активные задачи
+    // Пересчитываем занятые слоты (задачи в очереди слот не занимают)
     setActiveJobsCount((prev) => {
       const removedJob = videoJobs.find((j) => j.id === jobId)
-      if (removedJob && ['queued', 'sending', 'waiting_video', 'downloading', 'uploading'].includes(removedJob.status)) {
+      if (removedJob && ['sending', 'waiting_video', 'downloading'].includes(removedJob.status)) {
         return Math.max(0, prev - 1)
       }
       return prev
@@ -184,9 +494,12 @@ export function useVideoJobs(options: UseVideoJobsOptions = {}) {
     activeJobsCount,
     maxActiveJobs,
     loading,
+    loadingMore,
+    hasMore: !!nextCursor,
     error,
+    isLive,
     refreshJobs,
+    loadMore,
     removeJob,
   }
 }
-
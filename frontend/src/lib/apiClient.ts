@@ -34,6 +34,25 @@ export function resolveApiUrl(path: string): string {
   return API_BASE_URL ? `${API_BASE_URL}${normalizedPath}` : normalizedPath
 }
 
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE']
+
+// Повтор с тем же ключом, пока первый запрос ещё выполняется (например, загрузка в Google Drive):
+// задержка растёт от 1 до 10 секунд, ждём не дольше 2 минут
+const IN_PROGRESS_INITIAL_DELAY_MS = 1000
+const IN_PROGRESS_MAX_DELAY_MS = 10 * 1000
+const IN_PROGRESS_MAX_WAIT_MS = 2 * 60 * 1000
+
+/**
+ * Сгенерировать ключ идемпотентности для изменяющего запроса
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  // crypto.randomUUID недоступен вне https (кроме localhost)
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`
+}
+
 /**
  * Выполнить запрос с retry механизмом
  */
@@ -78,13 +97,53 @@ async function fetchWithRetry(
   throw lastError
 }
 
+/**
+ * Сервер ответил, что запрос с этим Idempotency-Key ещё выполняется (409 IDEMPOTENCY_REQUEST_IN_PROGRESS)
+ */
+async function isIdempotencyRequestInProgress(response: Response): Promise<boolean> {
+  if (response.status !== 409) {
+    return false
+  }
+  try {
+    const body = await response.clone().json()
+    return typeof body === 'object' && body !== null && body.error === 'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Повторяет запрос, пока первый запрос с тем же ключом не завершится: тогда сервер вернёт сохранённый ответ.
+ * Так бывает, если ответ на первый запрос потерялся в сети, а повтор пришёл, пока сервер ещё его выполняет.
+ */
+async function fetchUntilReplayed(url: string, options: RequestInit): Promise<Response> {
+  const deadline = Date.now() + IN_PROGRESS_MAX_WAIT_MS
+  let delay = IN_PROGRESS_INITIAL_DELAY_MS
+  let response = await fetchWithRetry(url, options)
+
+  while ((await isIdempotencyRequestInProgress(response)) && Date.now() + delay <= deadline) {
+    await new Promise(resolve => setTimeout(resolve, delay))
+    delay = Math.min(delay * 2, IN_PROGRESS_MAX_DELAY_MS)
+    response = await fetchWithRetry(url, options)
+  }
+
+  return response
+}
+
 export async function apiFetch(path: string, options: RequestInit = {}): Promise<Response> {
   const targetUrl = resolveApiUrl(path)
 
+  // Один ключ на все повторы внутри fetchWithRetry: сервер вернёт сохранённый ответ вместо повторного выполнения
+  const method = (options.method || 'GET').toUpperCase()
+  const headers = new Headers(options.headers)
+  if (MUTATING_METHODS.includes(method) && !headers.has('Idempotency-Key')) {
+    headers.set('Idempotency-Key', generateIdempotencyKey())
+  }
+
   let response: Response
   try {
-    // Используем retry механизм для сетевых и серверных ошибок
-    response = await fetchWithRetry(targetUrl, options)
+    // Используем retry механизм для сетевых и серверных ошибок и для ещё выполняющегося запроса с тем же ключом
+    response = await fetchUntilReplayed(targetUrl, { ...options, headers })
   } catch (error) {
     throw new ApiError('NETWORK_ERROR', undefined, undefined, true, error)
   }
@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { apiFetchJson } from '../lib/apiClient'
+import '../App.css'
+
+type OpenAIOperation = 'ideas' | 'veo_prompt' | 'title' | 'transcription'
+
+interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  audioSeconds: number
+  costUsd: number
+}
+
+interface ChannelUsage extends UsageTotals {
+  channelId: string | null
+  channelName: string | null
+  byOperation: Record<OpenAIOperation, UsageTotals>
+}
+
+interface JobUsage extends UsageTotals {
+  jobId: string
+  channelId: string | null
+}
+
+interface UsageReport {
+  month: string
+  totals: UsageTotals
+  byOperation: Record<OpenAIOperation, UsageTotals>
+  byModel: Array<UsageTotals & { model: string }>
+  byChannel: ChannelUsage[]
+  byJob: JobUsage[]
+}
+
+const OPERATION_LABELS: Record<OpenAIOperation, string> = {
+  ideas: 'Идеи',
+  veo_prompt: 'Промпты Veo',
+  title: 'Названия',
+  transcription: 'Распознавание речи',
+}
+
+const OPERATIONS = Object.keys(OPERATION_LABELS) as OpenAIOperation[]
+
+const getCurrentMonth = () => {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+}
+
+const formatCost = (costUsd: number) => `$${costUsd < 0.01 && costUsd > 0 ? costUsd.toFixed(4) : costUsd.toFixed(2)}`
+
+const formatTokens = (tokens: number) => tokens.toLocaleString('ru-RU')
+
+const formatAudio = (seconds: number) => `${(seconds / 60).toFixed(1)} мин`
+
+const OpenAIUsage: React.FC = () => {
+  const [month, setMonth] = useState(getCurrentMonth)
+  const [report, setReport] = useState<UsageReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true)
+    try {
+      const data = await apiFetchJson<UsageReport>(`/api/usage?month=${encodeURIComponent(month)}`)
+      setReport(data)
+      setError('')
+    } catch (err: any) {
+      console.error('[Usage] Error fetching OpenAI usage:', err)
+      setError(err.message || 'Ошибка загрузки расходов')
+    } finally {
+      setLoading(false)
+    }
+  }, [month])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  const channelNames = new Map(
+    (report?.byChannel || []).map((channel) => [channel.channelId, channel.channelName || channel.channelId])
+  )
+
+  return (
+    <div className="usage-page">
+      <div className="usage-page__header">
+        <h2>Расходы OpenAI</h2>
+        <input
+          type="month"
+          className="usage-page__month"
+          value={month}
+          max={getCurrentMonth()}
+          onChange={(event) => event.target.value && setMonth(event.target.value)}
+          aria-label="Месяц"
+        />
+      </div>
+
+      {error && <div className="usage-page__error">{error}</div>}
+      {loading && !report && <div className="usage-page__empty">Загрузка...</div>}
+
+      {report && (
+        <>
+          <div className="usage-page__summary">
+            <div className="usage-page__metric">
+              <span className="usage-page__metric-value">{formatCost(report.totals.costUsd)}</span>
+              <span className="usage-page__metric-label">за месяц</span>
+            </div>
+            <div className="usage-page__metric">
+              <span className="usage-page__metric-value">{report.totals.calls}</span>
+              <span className="usage-page__metric-label">вызовов</span>
+            </div>
+            <div className="usage-page__metric">
+              <span className="usage-page__metric-value">{formatTokens(report.totals.totalTokens)}</span>
+              <span className="usage-page__metric-label">токенов</span>
+            </div>
+            <div className="usage-page__metric">
+              <span className="usage-page__metric-value">{formatAudio(report.totals.audioSeconds)}</span>
+              <span className="usage-page__metric-label">аудио</span>
+            </div>
+          </div>
+
+          {report.totals.calls === 0 ? (
+            <div className="usage-page__empty">За этот месяц вызовов OpenAI нет</div>
+          ) : (
+            <>
+              <h3>По каналам</h3>
+              <table className="usage-page__table">
+                <thead>
+                  <tr>
+                    <th>Канал</th>
+                    {OPERATIONS.map((operation) => (
+                      <th key={operation}>{OPERATION_LABELS[operation]}</th>
+                    ))}
+                    <th>Итого</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.byChannel.map((channel) => (
+                    <tr key={channel.channelId || 'none'}>
+                      <td>{channel.channelName || channel.channelId || 'Без канала'}</td>
+                      {OPERATIONS.map((operation) => (
+                        <td key={operation}>{formatCost(channel.byOperation[operation].costUsd)}</td>
+                      ))}
+                      <td className="usage-page__total">{formatCost(channel.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <h3>По моделям</h3>
+              <table className="usage-page__table">
+                <thead>
+                  <tr>
+                    <th>Модель</th>
+                    <th>Вызовов</th>
+                    <th>Токены (вход / выход)</th>
+                    <th>Аудио</th>
+                    <th>Стоимость</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.byModel.map((model) => (
+                    <tr key={model.model}>
+                      <td>{model.model}</td>
+                      <td>{model.calls}</td>
+                      <td>
+                        {formatTokens(model.promptTokens)} / {formatTokens(model.completionTokens)}
+                      </td>
+                      <td>{model.audioSeconds > 0 ? formatAudio(model.audioSeconds) : '—'}</td>
+                      <td className="usage-page__total">{formatCost(model.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {report.byJob.length > 0 && (
+                <>
+                  <h3>Самые дорогие задачи</h3>
+                  <table className="usage-page__table">
+                    <thead>
+                      <tr>
+                        <th>Задача</th>
+                        <th>Канал</th>
+                        <th>Вызовов</th>
+                        <th>Стоимость</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.byJob.map((job) => (
+                        <tr key={job.jobId}>
+                          <td className="usage-page__job-id">{job.jobId}</td>
+                          <td>{channelNames.get(job.channelId) || '—'}</td>
+                          <td>{job.calls}</td>
+                          <td className="usage-page__total">{formatCost(job.costUsd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default OpenAIUsage
@@ -0,0 +1,132 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { VideoJob } from '../hooks/useVideoJobs'
+import { apiFetchJson } from '../lib/apiClient'
+import { useToast } from '../hooks/useToast'
+import { ToastContainer } from '../components/Toast'
+import { JobReviewSummary } from '../components/JobReviewForm'
+import '../App.css'
+
+interface TrashResponse {
+  retentionDays: number
+  jobs: VideoJob[]
+}
+
+const TRASH_REASON_LABELS: Record<NonNullable<VideoJob['trashReason']>, string> = {
+  rejected: 'Отклонено',
+  deleted: 'Удалено',
+}
+
+const formatDateTime = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toLocaleString('ru-RU', { dateStyle: 'short', timeStyle: 'short' }) : '—'
+
+const Trash: React.FC = () => {
+  const [jobs, setJobs] = useState<VideoJob[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [busyJobId, setBusyJobId] = useState<string | null>(null)
+  const toast = useToast()
+
+  const fetchTrash = useCallback(async () => {
+    setLoading(true)
+    try {
+      const data = await apiFetchJson<TrashResponse>('/api/video-jobs/trash')
+      setJobs(data.jobs)
+      setRetentionDays(data.retentionDays)
+      setError('')
+    } catch (err: any) {
+      console.error('[Trash] Error fetching trash:', err)
+      setError(err.message || 'Ошибка загрузки корзины')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTrash()
+  }, [fetchTrash])
+
+  const handleRestore = async (jobId: string) => {
+    setBusyJobId(jobId)
+    try {
+      await apiFetchJson(`/api/video-jobs/${jobId}/restore`, { method: 'POST' })
+      setJobs((prev) => prev.filter((job) => job.id !== jobId))
+      toast.success('Задача восстановлена')
+    } catch (err: any) {
+      console.error('[Trash] Error restoring job:', err)
+      toast.error(err.message || 'Не удалось восстановить задачу')
+    } finally {
+      setBusyJobId(null)
+    }
+  }
+
+  const handlePurge = async (jobId: string) => {
+    if (!window.confirm('Удалить задачу навсегда? Видео и история задачи будут удалены без возможности восстановления.')) {
+      return
+    }
+
+    setBusyJobId(jobId)
+    try {
+      await apiFetchJson(`/api/video-jobs/trash/${jobId}`, { method: 'DELETE' })
+      setJobs((prev) => prev.filter((job) => job.id !== jobId))
+      toast.success('Задача удалена навсегда')
+    } catch (err: any) {
+      console.error('[Trash] Error purging job:', err)
+      toast.error(err.message || 'Не удалось удалить задачу')
+    } finally {
+      setBusyJobId(null)
+    }
+  }
+
+  return (
+    <div className="trash-page">
+      <div className="trash-page__header">
+        <h2>Корзина</h2>
+        {retentionDays !== null && (
+          <span className="trash-page__hint">Задачи удаляются навсегда через {retentionDays} дн.</span>
+        )}
+      </div>
+
+      {error && <div className="trash-page__error">{error}</div>}
+      {loading && jobs.length === 0 && <div className="trash-page__empty">Загрузка...</div>}
+      {!loading && !error && jobs.length === 0 && <div className="trash-page__empty">Корзина пуста</div>}
+
+      {jobs.length > 0 && (
+        <ul className="trash-page__list">
+          {jobs.map((job) => (
+            <li key={job.id} className="trash-page__item">
+              <div className="trash-page__info">
+                <span className="trash-page__title">{job.videoTitle || job.prompt}</span>
+                <span className="trash-page__meta">
+                  {job.trashReason ? TRASH_REASON_LABELS[job.trashReason] : 'Удалено'}
+                  {job.channelName ? ` · ${job.channelName}` : ''} · {formatDateTime(job.trashedAt)} · удаление{' '}
+                  {formatDateTime(job.purgeAt)}
+                </span>
+                {job.review && <JobReviewSummary review={job.review} />}
+              </div>
+              <div className="trash-page__actions">
+                <button
+                  className="button button-secondary"
+                  onClick={() => handleRestore(job.id)}
+                  disabled={busyJobId === job.id}
+                >
+                  Восстановить
+                </button>
+                <button
+                  className="button button-danger"
+                  onClick={() => handlePurge(job.id)}
+                  disabled={busyJobId === job.id}
+                >
+                  Удалить навсегда
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <ToastContainer toasts={toast.toasts} onRemove={toast.removeToast} />
+    </div>
+  )
+}
+
+export default Trash
@@ -1,43 +1,150 @@
-import React, { useState } from 'react'
-import { useVideoJobs } from '../hooks/useVideoJobs'
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { useVideoJobs, buildListParams, VideoJob, VideoJobReviewInput } from '../hooks/useVideoJobs'
 import { VideoJobsList } from '../components/VideoJobsList'
-import { apiFetch } from '../lib/apiClient'
+import { JobRegenerateOverrides } from '../components/SwipeableJobCard'
+import { VariantReviewModal } from '../components/VariantReviewModal'
+import { VideoJobsFilterBar, VideoJobsFilterValue } from '../components/VideoJobsFilterBar'
+import { JobsBulkActionBar, BulkJobAction } from '../components/JobsBulkActionBar'
+import { useVideoJobSearch } from '../hooks/useVideoJobSearch'
+import { apiFetch, apiFetchJson, resolveApiUrl } from '../lib/apiClient'
 import { useToast } from '../hooks/useToast'
 import '../App.css'
 
+interface BulkJobResult {
+  jobId: string
+  success: boolean
+  status?: 'uploaded' | 'trashed'
+  error?: string
+  message?: string
+}
+
+interface BulkJobsResponse {
+  total: number
+  succeeded: number
+  failed: number
+  results: BulkJobResult[]
+}
+
+const BULK_ACTION_LABELS: Record<BulkJobAction, { confirm: string; done: string }> = {
+  approve: { confirm: 'Загрузить в Google Drive', done: 'Загружено в Google Drive' },
+  reject: { confirm: 'Отклонить', done: 'Отклонено и перемещено в корзину' },
+  delete: { confirm: 'Удалить', done: 'Перемещено в корзину' },
+}
+
 const VideoJobsHistory: React.FC = () => {
   const [rejectingJobId, setRejectingJobId] = useState<string | null>(null)
+  const [cancellingJobId, setCancellingJobId] = useState<string | null>(null)
   const [approvingJobId, setApprovingJobId] = useState<string | null>(null)
+  const [regeneratingJobId, setRegeneratingJobId] = useState<string | null>(null)
+  const [reviewingJobId, setReviewingJobId] = useState<string | null>(null)
+  const [reviewVariantGroupId, setReviewVariantGroupId] = useState<string | null>(null)
+  const [scheduledJobs, setScheduledJobs] = useState<VideoJob[]>([])
+  const [filterValue, setFilterValue] = useState<VideoJobsFilterValue>({
+    channelId: null, // null означает задачи всех каналов
+    filters: { sortBy: 'createdAt', sortOrder: 'desc' },
+  })
+  const [searchQuery, setSearchQuery] = useState('')
+  const [selectedJobIds, setSelectedJobIds] = useState<Set<string>>(new Set())
+  const [bulkAction, setBulkAction] = useState<BulkJobAction | null>(null)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
   const toast = useToast()
   
-  // Загружаем все задачи (без фильтра по каналу)
+  // Фильтры и сортировка применяются на сервере, страницы подгружаются при прокрутке
   const {
     videoJobs,
     activeJobsCount,
     maxActiveJobs,
     loading,
+    loadingMore,
+    hasMore,
     error,
     refreshJobs,
+    loadMore,
     removeJob,
   } = useVideoJobs({
-    channelId: null, // null означает загрузить все задачи
+    channelId: filterValue.channelId,
+    filters: filterValue.filters,
     autoPoll: true,
     pollInterval: 3000,
   })
 
+  // Поиск выполняется на сервере с учётом выбранных канала и статуса
+  const search = useVideoJobSearch({
+    query: searchQuery,
+    channelId: filterValue.channelId,
+    statuses: filterValue.filters.statuses,
+  })
+  const isSearchActive = search.results !== null
+
+  // В результатах поиска показываем актуальное состояние задачи, если она есть в живом списке
+  const liveJobsById = new Map(videoJobs.map((job) => [job.id, job]))
+  const displayedJobs = search.results
+    ? search.results.map((job) => liveJobsById.get(job.id) || job)
+    : videoJobs
+
+  // Выбор действует только для задач, которые сейчас видны в списке
+  const selectedJobs = displayedJobs.filter((job) => selectedJobIds.has(job.id))
+  const approvableSelectedJobs = selectedJobs.filter(
+    (job) => job.status === 'ready' || job.status === 'upload_failed'
+  )
+
+  const refreshLists = async () => {
+    await Promise.all([refreshJobs(), isSearchActive ? search.refreshSearch() : Promise.resolve()])
+  }
+
+  const removeFromLists = (jobId: string) => {
+    removeJob(jobId)
+    search.removeResult(jobId)
+  }
+
+  // Бесконечная прокрутка: подгружаем следующую страницу, когда низ списка попадает в экран
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !hasMore || isSearchActive) {
+      return
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) {
+        loadMore()
+      }
+    }, { rootMargin: '200px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadMore, isSearchActive])
+
+  const fetchScheduledJobs = useCallback(async () => {
+    try {
+      const data = await apiFetchJson<{ jobs?: VideoJob[] }>('/api/video-jobs/scheduled')
+      setScheduledJobs(data.jobs || [])
+    } catch (err) {
+      console.error('[Scheduled] Error fetching scheduled jobs:', err)
+    }
+  }, [])
+
+  // Запланированные задачи обновляем реже основного списка
+  useEffect(() => {
+    fetchScheduledJobs()
+    const interval = setInterval(fetchScheduledJobs, 30000)
+    return () => clearInterval(interval)
+  }, [fetchScheduledJobs])
+
   const handleApproveJob = async (jobId: string, jobTitle?: string) => {
-    const job = videoJobs.find(j => j.id === jobId)
+    const job = displayedJobs.find(j => j.id === jobId)
     if (!job) {
       toast.error('Задача не найдена')
       return
     }
 
-    // Проверяем, что задача в статусе ready
-    if (job.status !== 'ready') {
+    // Проверяем, что задача в статусе ready (или предыдущая загрузка в Drive не удалась)
+    if (job.status !== 'ready' && job.status !== 'upload_failed') {
       toast.error('Можно одобрить только готовые видео')
       return
     }
 
+    if (job.variantGroupId && !window.confirm('Это дубль из группы. Остальные дубли будут отклонены и перемещены в корзину. Продолжить?')) {
+      return
+    }
+
     setApprovingJobId(jobId)
     
     try {
@@ -62,8 +169,8 @@ const VideoJobsHistory: React.FC = () => {
       toast.success('Видео успешно загружено в Google Drive!')
       
       // Обновляем список для отображения нового статуса
-      // Polling обновит автоматически, но делаем сразу для быстрого отклика
-      await refreshJobs()
+      // Поток обновит автоматически, но делаем сразу для быстрого отклика
+      await refreshLists()
     } catch (err: any) {
       console.error('[Approve] Error approving job:', err)
       toast.error(err.message || 'Ошибка при одобрении видео')
@@ -72,18 +179,13 @@ const VideoJobsHistory: React.FC = () => {
     }
   }
 
-  const handleRejectJob = async (jobId: string) => {
-    const job = videoJobs.find(j => j.id === jobId)
+  // Подтверждением служит форма отклонения в карточке с причинами, оценкой и заметками
+  const handleRejectJob = async (jobId: string, feedback: VideoJobReviewInput = {}) => {
+    const job = displayedJobs.find(j => j.id === jobId)
     if (!job) {
       toast.error('Задача не найдена')
       return
     }
-
-    const jobName = job.videoTitle || job.prompt.substring(0, 50) || 'это видео'
-    
-    if (!window.confirm(`Вы уверены, что хотите отклонить "${jobName}"? Это действие нельзя отменить.`)) {
-      return
-    }
     
     setRejectingJobId(jobId)
     
@@ -91,16 +193,17 @@ const VideoJobsHistory: React.FC = () => {
       console.log('[Reject] Starting rejection for job:', jobId)
       
       // Оптимистичное обновление: сразу убираем из списка
-      removeJob(jobId)
+      removeFromLists(jobId)
       
       const response = await apiFetch(`/api/video-jobs/${jobId}/reject`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(feedback),
       })
       
       if (!response.ok) {
         // Если отклонение не удалось, восстанавливаем список
-        await refreshJobs()
+        await refreshLists()
         const errorData = await response.json().catch(() => ({}))
         throw new Error(errorData.error || errorData.message || `Ошибка ${response.status}`)
       }
@@ -108,27 +211,98 @@ const VideoJobsHistory: React.FC = () => {
       const result = await response.json()
       console.log('[Reject] Job rejected successfully:', result)
       
-      toast.success('Видео отклонено и удалено')
+      toast.success('Видео отклонено и перемещено в корзину')
       
       // Не вызываем refreshJobs() здесь, так как:
-      // 1. Оптимистичное обновление уже применено через removeJob()
-      // 2. Автоматический polling обновит список через несколько секунд
+      // 1. Оптимистичное обновление уже применено через removeFromLists()
+      // 2. Изменение придёт событием из SSE-потока (или с очередным polling при обрыве потока)
     } catch (err: any) {
       console.error('[Reject] Error rejecting job:', err)
       // Восстанавливаем список в случае ошибки
-      await refreshJobs()
+      await refreshLists()
       toast.error(err.message || 'Ошибка при отклонении видео')
     } finally {
       setRejectingJobId(null)
     }
   }
 
+  const handleReviewJob = async (jobId: string, feedback: VideoJobReviewInput) => {
+    setReviewingJobId(jobId)
+
+    try {
+      await apiFetchJson(`/api/video-jobs/${jobId}/review`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(feedback),
+      })
+      toast.success('Оценка сохранена')
+      await refreshLists()
+    } catch (err: any) {
+      console.error('[Review] Error saving review:', err)
+      toast.error(err.message || 'Не удалось сохранить оценку')
+      throw err
+    } finally {
+      setReviewingJobId(null)
+    }
+  }
+
+  const handleCancelJob = async (jobId: string) => {
+    setCancellingJobId(jobId)
+
+    try {
+      console.log('[Cancel] Cancelling job:', jobId)
+      await apiFetchJson(`/api/video-jobs/${jobId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      })
+      toast.success('Генерация отменена')
+    } catch (err: any) {
+      console.error('[Cancel] Error cancelling job:', err)
+      toast.error(err.message || 'Не удалось отменить генерацию')
+    } finally {
+      setCancellingJobId(null)
+      await Promise.all([refreshLists(), fetchScheduledJobs()])
+    }
+  }
+
+  const handleRegenerateJob = async (jobId: string, overrides: JobRegenerateOverrides) => {
+    setRegeneratingJobId(jobId)
+
+    try {
+      console.log(`[Regenerate] Regenerating job ${jobId}`)
+      const data = await apiFetchJson<{ jobId: string; queuePosition?: number }>(`/api/video-jobs/${jobId}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(overrides),
+      })
+      toast.success(
+        data.queuePosition
+          ? `Новая попытка добавлена в очередь (позиция ${data.queuePosition})`
+          : 'Новая попытка запущена'
+      )
+      await refreshLists()
+    } catch (err: any) {
+      console.error(`[Regenerate] Error regenerating job ${jobId}:`, err)
+      toast.error(err.message || 'Не удалось создать повторную генерацию')
+      throw err
+    } finally {
+      setRegeneratingJobId(null)
+    }
+  }
+
+  const handleVariantApproved = async (jobId: string, rejectedCount: number) => {
+    console.log('[Variants] Variant approved:', jobId, 'rejected:', rejectedCount)
+    setReviewVariantGroupId(null)
+    toast.success(`Дубль загружен в Google Drive, остальные отклонены (${rejectedCount})`)
+    await refreshLists()
+  }
+
   const handleDeleteJob = async (jobId: string) => {
     try {
       console.log('[Delete] Starting deletion of job:', jobId)
       
       // Оптимистичное обновление: сразу убираем из списка
-      removeJob(jobId)
+      removeFromLists(jobId)
       
       const response = await apiFetch(`/api/video-jobs/${jobId}`, {
         method: 'DELETE',
@@ -136,7 +310,7 @@ const VideoJobsHistory: React.FC = () => {
       
       if (!response.ok) {
         // Если удаление не удалось, обновляем список заново
-        await refreshJobs()
+        await refreshLists()
         const errorData = await response.json().catch(() => ({}))
         throw new Error(errorData.message || errorData.error || `Ошибка ${response.status}`)
       }
@@ -144,20 +318,92 @@ const VideoJobsHistory: React.FC = () => {
       const result = await response.json()
       console.log('[Delete] Job deleted successfully:', result)
       
-      toast.success('Задача удалена')
+      toast.success('Задача перемещена в корзину')
+      setScheduledJobs((prev) => prev.filter((job) => job.id !== jobId))
       
       // Не вызываем refreshJobs() здесь, так как:
-      // 1. Оптимистичное обновление уже применено через removeJob()
-      // 2. Автоматический polling обновит список через несколько секунд
+      // 1. Оптимистичное обновление уже применено через removeFromLists()
+      // 2. Изменение придёт событием из SSE-потока (или с очередным polling при обрыве потока)
       // Это предотвращает множественные одновременные запросы
     } catch (err: any) {
       console.error('[Delete] Error deleting job:', err)
       // Восстанавливаем список в случае ошибки
-      await refreshJobs()
+      await refreshLists()
       toast.error(err.message || 'Не удалось удалить задачу')
     }
   }
 
+  const handleToggleSelect = (jobId: string) => {
+    setSelectedJobIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(jobId)) {
+        next.delete(jobId)
+      } else {
+        next.add(jobId)
+      }
+      return next
+    })
+  }
+
+  const handleBulkAction = async (action: BulkJobAction) => {
+    const jobs = action === 'approve' ? approvableSelectedJobs : selectedJobs
+    if (jobs.length === 0) {
+      return
+    }
+
+    const hasVariants = action === 'approve' && jobs.some((job) => job.variantGroupId)
+    const warning =
+      action === 'approve'
+        ? hasVariants ? ' Остальные дубли из групп будут отклонены и перемещены в корзину.' : ''
+        : ' Задачи будут перемещены в корзину.'
+    if (!window.confirm(`${BULK_ACTION_LABELS[action].confirm}: ${jobs.length} задач(и)?${warning}`)) {
+      return
+    }
+
+    setBulkAction(action)
+
+    try {
+      console.log(`[Bulk] ${action} for jobs:`, jobs.map((job) => job.id))
+      const data = await apiFetchJson<BulkJobsResponse>(`/api/video-jobs/bulk/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobIds: jobs.map((job) => job.id) }),
+      })
+
+      const succeededIds = data.results.filter((result) => result.success).map((result) => result.jobId)
+      if (action !== 'approve') {
+        succeededIds.forEach(removeFromLists)
+        setScheduledJobs((prev) => prev.filter((job) => !succeededIds.includes(job.id)))
+      }
+
+      // Неудачные задачи остаются выбранными, чтобы их можно было повторить
+      setSelectedJobIds(new Set(data.results.filter((result) => !result.success).map((result) => result.jobId)))
+
+      if (data.failed === 0) {
+        toast.success(`${BULK_ACTION_LABELS[action].done}: ${data.succeeded}`)
+      } else {
+        const firstError = data.results.find((result) => !result.success)
+        toast.error(
+          `${BULK_ACTION_LABELS[action].done}: ${data.succeeded}, с ошибкой: ${data.failed}` +
+            (firstError?.message ? ` (${firstError.message})` : '')
+        )
+      }
+    } catch (err: any) {
+      console.error(`[Bulk] Error running ${action}:`, err)
+      toast.error(err.message || 'Ошибка массового действия')
+    } finally {
+      setBulkAction(null)
+      await refreshLists()
+    }
+  }
+
+  // Выгрузка учитывает фильтры и сортировку, но не строку поиска
+  const getExportUrl = (format: 'csv' | 'json') => {
+    const params = buildListParams(filterValue.channelId, filterValue.filters)
+    params.append('format', format)
+    return resolveApiUrl(`/api/video-jobs/export?${params.toString()}`)
+  }
+
   return (
     <div className="card">
       <h2>История генераций</h2>
@@ -168,18 +414,124 @@ const VideoJobsHistory: React.FC = () => {
         </div>
       )}
 
+      {scheduledJobs.length > 0 && (
+        <div className="scheduled-jobs">
+          <h3 className="scheduled-jobs__title">Запланированные генерации ({scheduledJobs.length})</h3>
+          <ul className="scheduled-jobs__list">
+            {scheduledJobs.map((job) => (
+              <li key={job.id} className="scheduled-jobs__item">
+                <span className="scheduled-jobs__time">
+                  🕒{' '}
+                  {job.scheduledAt
+                    ? new Date(job.scheduledAt).toLocaleString('ru-RU', {
+                        day: '2-digit',
+                        month: '2-digit',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })
+                    : '—'}
+                </span>
+                <span className="scheduled-jobs__name">
+                  {job.videoTitle || job.prompt.substring(0, 60) + (job.prompt.length > 60 ? '...' : '')}
+                </span>
+                {job.channelName && <span className="job-card__channel">{job.channelName}</span>}
+                <button
+                  className="button button-secondary scheduled-jobs__cancel"
+                  onClick={() => handleCancelJob(job.id)}
+                  disabled={cancellingJobId === job.id}
+                  title="Отменить запланированную генерацию"
+                >
+                  Отменить
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <VideoJobsFilterBar
+        value={filterValue}
+        onChange={setFilterValue}
+        searchQuery={searchQuery}
+        onSearchChange={setSearchQuery}
+      />
+
+      <div className="jobs-export">
+        <span className="jobs-export__label">Выгрузить с текущими фильтрами:</span>
+        <a className="button button-secondary jobs-export__button" href={getExportUrl('csv')} download>
+          ⬇ CSV
+        </a>
+        <a className="button button-secondary jobs-export__button" href={getExportUrl('json')} download>
+          ⬇ JSON
+        </a>
+      </div>
+
+      {search.error && (
+        <div className="error" style={{ marginTop: '1rem' }}>
+          {search.error}
+        </div>
+      )}
+      {isSearchActive && (
+        <p className="jobs-search-summary">
+          {search.searching ? 'Поиск...' : `Найдено: ${search.total}`}
+        </p>
+      )}
+
+      {displayedJobs.length > 0 && (
+        <JobsBulkActionBar
+          selectedCount={selectedJobs.length}
+          approvableCount={approvableSelectedJobs.length}
+          visibleCount={displayedJobs.length}
+          runningAction={bulkAction}
+          onAction={handleBulkAction}
+          onSelectAll={() => setSelectedJobIds(new Set(displayedJobs.map((job) => job.id)))}
+          onClear={() => setSelectedJobIds(new Set())}
+        />
+      )}
+
       <VideoJobsList
-        jobs={videoJobs}
+        jobs={displayedJobs}
         activeJobsCount={activeJobsCount}
         maxActiveJobs={maxActiveJobs}
         loading={loading}
         onApprove={handleApproveJob}
         onReject={handleRejectJob}
+        onReview={handleReviewJob}
         onDelete={handleDeleteJob}
+        onCancel={handleCancelJob}
+        onRegenerate={handleRegenerateJob}
+        onCompareVariants={setReviewVariantGroupId}
         rejectingJobId={rejectingJobId}
+        cancellingJobId={cancellingJobId}
         approvingJobId={approvingJobId}
+        regeneratingJobId={regeneratingJobId}
+        reviewingJobId={reviewingJobId}
         showChannelName={true}
+        showControls={false}
+        emptyMessage={isSearchActive ? 'По запросу ничего не найдено.' : 'Задачи не найдены.'}
+        selectedJobIds={selectedJobIds}
+        onToggleSelect={handleToggleSelect}
       />
+
+      {reviewVariantGroupId && (
+        <VariantReviewModal
+          groupId={reviewVariantGroupId}
+          liveJobs={displayedJobs}
+          onClose={() => setReviewVariantGroupId(null)}
+          onApproved={handleVariantApproved}
+        />
+      )}
+
+      {!isSearchActive && (
+        <div ref={loadMoreRef} className="jobs-load-more">
+          {loadingMore && 'Загрузка...'}
+          {!loadingMore && hasMore && (
+            <button className="button button-secondary" onClick={() => loadMore()}>
+              Показать ещё
+            </button>
+          )}
+        </div>
+      )}
     </div>
   )
 }